@@ -5,9 +5,16 @@ const CACHE_NAME = 'verdant-view-cache-v1';
 const urlsToCache = [
   '/',
   '/expenses',
+  '/income',
+  '/accounts',
+  '/groups',
   '/reminders',
   '/settings',
   '/scan',
+  '/import',
+  '/recurring',
+  '/rules',
+  '/trash',
   '/manifest.json'
   // Note: We won't cache Next.js specific JS bundles by name
   // as they have hashes. We'll cache them dynamically.
@@ -34,8 +41,9 @@ self.addEventListener('fetch', event => {
 
   event.respondWith(
     caches.open(CACHE_NAME).then(async (cache) => {
-      // Try to get the resource from the cache.
-      const cachedResponse = await cache.match(event.request);
+      // Try to get the resource from the cache. Pages are matched without their query
+      // string, so a bookmarked filter such as /expenses?q=... still opens offline.
+      const cachedResponse = await cache.match(event.request, { ignoreSearch: event.request.mode === 'navigate' });
       // And fetch the resource from the network.
       const fetchPromise = fetch(event.request).then((networkResponse) => {
         // If we got a valid response, clone it and cache it.
@@ -58,7 +66,7 @@ self.addEventListener('fetch', event => {
 // Activate event
 self.addEventListener('activate', event => {
   const cacheWhitelist = [CACHE_NAME];
-  event.waitUntil(
+  event.waitUntil(Promise.all([
     caches.keys().then(cacheNames => {
       return Promise.all(
         cacheNames.map(cacheName => {
@@ -67,20 +75,258 @@ self.addEventListener('activate', event => {
           }
         })
       );
-    })
-  );
+    }),
+    checkScheduledNotifications(),
+  ]));
 });
 
 
-self.addEventListener('message', event => {
-    if (event.data.type === 'SCHEDULE_REMINDER') {
-        const { title, options, schedule } = event.data.payload;
-        const timeUntilNotification = schedule.at - Date.now();
-        
-        if (timeUntilNotification > 0) {
-            setTimeout(() => {
-                self.registration.showNotification(title, options);
-            }, timeUntilNotification);
+// Reminder notifications
+//
+// The app saves every reminder notification in its database. The worker can be stopped
+// at any time, so instead of keeping timers it reads the database whenever it runs: on
+// activate, on periodic background sync and whenever the app is opened.
+
+const DB_NAME = 'VerdantViewDB';
+const NOTIFICATION_STORE = 'scheduledNotifications';
+// Must match REMINDER_SYNC_TAG in src/lib/reminders.ts
+const REMINDER_SYNC_TAG = 'reminders';
+
+const requestResult = request => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = tx => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Opens the app's database at whatever version it is. Resolves with null when the app
+// hasn't created it yet, or hasn't upgraded it to a version with scheduled notifications.
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    // There is no database yet. Abort instead of creating an empty one the app would have to upgrade.
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onerror = () => (request.error && request.error.name === 'AbortError' ? resolve(null) : reject(request.error));
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(NOTIFICATION_STORE)) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      // Don't hold up the app when it upgrades the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+  });
+}
+
+// Notification Triggers show a notification at a set time, even while the worker isn't running
+const supportsTriggers = () => typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const notificationTag = notification => `reminder-notification-${notification.id}`;
+
+async function cancelTrigger(notification) {
+  const shown = await self.registration.getNotifications({ tag: notificationTag(notification), includeTriggered: true });
+  shown.forEach(n => n.close());
+}
+
+// End of the day of a date, in local time
+function endOfDay(date) {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+// Notifications due in quiet hours wait until they end. Must match afterQuietHours in src/lib/reminders.ts.
+function afterQuietHours(date, quietHours) {
+  if (!quietHours) return date;
+  const minutesOfDay = time => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const isQuiet = start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+  if (!isQuiet) return date;
+
+  const resume = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, end);
+  if (resume <= date) resume.setDate(resume.getDate() + 1);
+  return resume;
+}
+
+// A notification is stale once its bill was paid or moved on to another due date
+const isStale = (notification, reminder) =>
+  notification.dueDate !== reminder.date || (reminder.paidAt && !reminder.recurrence);
+
+const SNOOZE_DURATION = 60 * 60 * 1000;
+
+const notificationActions = [
+  { action: 'snooze', title: 'Snooze 1h' },
+  { action: 'markPaid', title: 'Mark paid' },
+  { action: 'open', title: 'Open' },
+];
+
+function showReminderNotification(notification, options = {}) {
+  return self.registration.showNotification(notification.title, {
+    body: notification.body,
+    tag: notificationTag(notification),
+    data: { notificationId: notification.id, reminderId: notification.reminderId },
+    actions: notificationActions,
+    ...options,
+  });
+}
+
+// Open tabs refresh the reminder list, like they do for changes made in another tab
+function announceChanges(keys) {
+  const channel = new BroadcastChannel('verdantview-data');
+  channel.postMessage({ stores: [NOTIFICATION_STORE], keys: { [NOTIFICATION_STORE]: keys } });
+  channel.close();
+}
+
+/**
+ * Shows the pending notifications that are due, after quiet hours, and marks them
+ * delivered. Upcoming ones are handed to the browser with a TimestampTrigger where it is
+ * supported. Notifications whose reminder was deleted or paid, or that weren't shown on
+ * the day they were due, are dropped; ones whose reminder is in the Trash wait until it
+ * is restored.
+ */
+async function deliverDueNotifications() {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const readTx = db.transaction([NOTIFICATION_STORE, 'reminders', 'settings']);
+    const [pending, reminders, settings] = await Promise.all([
+      requestResult(readTx.objectStore(NOTIFICATION_STORE).index('status_at').getAll(IDBKeyRange.bound(['pending'], ['pending', []]))),
+      requestResult(readTx.objectStore('reminders').getAll()),
+      requestResult(readTx.objectStore('settings').get(1)),
+    ]);
+    const remindersById = new Map(reminders.map(reminder => [reminder.id, reminder]));
+    const quietHours = settings && settings.quietHours;
+    const canNotify = Notification.permission === 'granted';
+    const now = new Date();
+    const updates = new Map();
+    const removed = [];
+
+    for (const notification of pending) {
+      const reminder = remindersById.get(notification.reminderId);
+      const deliverAt = afterQuietHours(new Date(notification.at), quietHours);
+      // Handed to the browser for another time, before quiet hours changed
+      const triggeredForAnotherTime = notification.triggeredAt && notification.triggeredAt !== deliverAt.toISOString();
+
+      if (!reminder || isStale(notification, reminder) || endOfDay(deliverAt) < now) {
+        if (notification.triggeredAt) await cancelTrigger(notification);
+        removed.push(notification.id);
+      } else if (reminder.deletedAt) {
+        if (notification.triggeredAt) {
+          await cancelTrigger(notification);
+          updates.set(notification.id, { triggeredAt: undefined });
         }
+      } else if (!canNotify) {
+        // Left pending, to be shown once the user allows notifications
+      } else if (deliverAt <= now) {
+        // A notification triggered for this time was already shown by the browser
+        if (!notification.triggeredAt || triggeredForAnotherTime) {
+          if (triggeredForAnotherTime) await cancelTrigger(notification);
+          await showReminderNotification(notification);
+        }
+        updates.set(notification.id, { status: 'delivered', deliveredAt: now.toISOString() });
+      } else if ((!notification.triggeredAt || triggeredForAnotherTime) && supportsTriggers()) {
+        if (triggeredForAnotherTime) await cancelTrigger(notification);
+        await showReminderNotification(notification, { showTrigger: new TimestampTrigger(deliverAt.getTime()) });
+        updates.set(notification.id, { triggeredAt: deliverAt.toISOString() });
+      }
     }
+    if (updates.size === 0 && removed.length === 0) return;
+
+    // Written in a new transaction, since the first one closed while notifications were shown
+    const writeTx = db.transaction(NOTIFICATION_STORE, 'readwrite');
+    const store = writeTx.objectStore(NOTIFICATION_STORE);
+    removed.forEach(id => store.delete(id));
+    updates.forEach((patch, id) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, ...patch });
+      };
+    });
+    await transactionDone(writeTx);
+    announceChanges([...updates.keys(), ...removed]);
+  } finally {
+    db.close();
+  }
+}
+
+// Shows the notification again an hour from now. It is saved as pending, so the snooze
+// survives the worker being stopped.
+async function snoozeNotification(id) {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(NOTIFICATION_STORE, 'readwrite');
+    const store = tx.objectStore(NOTIFICATION_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      const { deliveredAt, triggeredAt, ...notification } = request.result;
+      store.put({ ...notification, status: 'pending', at: new Date(Date.now() + SNOOZE_DURATION).toISOString() });
+    };
+    await transactionDone(tx);
+    announceChanges([id]);
+  } finally {
+    db.close();
+  }
+}
+
+// Focuses an open tab of the app on the page, or opens one
+async function openApp(url) {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) return self.clients.openWindow(url);
+  const client = await windows[0].focus();
+  return client.navigate(url);
+}
+
+// Checks run one at a time, so a notification is never shown twice
+let notificationCheck = Promise.resolve();
+
+function checkScheduledNotifications(before = () => {}) {
+  notificationCheck = notificationCheck
+    .then(before)
+    .then(deliverDueNotifications)
+    .catch(error => console.error('Failed to deliver reminder notifications:', error));
+  return notificationCheck;
+}
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === REMINDER_SYNC_TAG) {
+    event.waitUntil(checkScheduledNotifications());
+  }
+});
+
+// Sent by the app when it opens and whenever reminders change
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'CHECK_REMINDERS') {
+    event.waitUntil(checkScheduledNotifications());
+  }
+});
+
+// The actions of a reminder notification. Paying a bill adds an expense, which only the app
+// knows how to do, so "Mark paid" opens the reminders page and has it pay the bill.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const { notificationId, reminderId } = event.notification.data || {};
+
+  if (event.action === 'snooze' && notificationId !== undefined) {
+    event.waitUntil(checkScheduledNotifications(() => snoozeNotification(notificationId)));
+  } else if (event.action === 'markPaid' && reminderId !== undefined) {
+    event.waitUntil(openApp(`/reminders?markPaid=${reminderId}`));
+  } else {
+    event.waitUntil(openApp('/reminders'));
+  }
 });
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { ArrowRightLeft, Banknote, CreditCard, Landmark, Loader2, MoreHorizontal, Smartphone, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { addAccount, addTransfer, deleteTransfer } from '@/lib/db';
+import { accountTypeLabels, computeBalances, getAccountLedger } from '@/lib/accounts';
+import type { AccountType } from '@/lib/types';
+import { useExpenses } from '@/hooks/use-expenses';
+import { useToast } from '@/hooks/use-toast';
+
+const accountTypeIcons: Record<AccountType, React.ElementType> = {
+  cash: Banknote,
+  bank: Landmark,
+  credit: CreditCard,
+  wallet: Smartphone,
+  other: MoreHorizontal,
+};
+
+const accountSchema = z.object({
+  name: z.string().min(2, { message: 'Name must be at least 2 characters.' }),
+  type: z.enum(['cash', 'bank', 'credit', 'wallet', 'other']),
+  openingBalance: z.coerce.number(),
+});
+
+const transferSchema = z
+  .object({
+    fromAccountId: z.coerce.number().int().positive({ message: 'Select an account.' }),
+    toAccountId: z.coerce.number().int().positive({ message: 'Select an account.' }),
+    amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+    note: z.string().optional(),
+  })
+  .refine(values => values.fromAccountId !== values.toAccountId, {
+    message: 'Choose two different accounts.',
+    path: ['toAccountId'],
+  });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+export default function AccountsPage() {
+  const { accounts, expenses, income, transfers, loading } = useExpenses();
+  const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const accountForm = useForm<z.infer<typeof accountSchema>>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: { name: '', type: 'bank', openingBalance: 0 },
+  });
+
+  const transferForm = useForm<z.infer<typeof transferSchema>>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: { note: '' },
+  });
+
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
+  const balances = useMemo(() => computeBalances(accounts, expenses, income, transfers), [accounts, expenses, income, transfers]);
+  const totalBalance = useMemo(() => Array.from(balances.values()).reduce((sum, b) => sum + b, 0), [balances]);
+
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId) ?? null;
+  const ledger = useMemo(
+    () => (selectedAccount ? getAccountLedger(selectedAccount, expenses, income, transfers, accounts).reverse() : []),
+    [selectedAccount, expenses, income, transfers, accounts]
+  );
+
+  const accountName = (id: number) => accounts.find(a => a.id === id)?.name ?? 'Unknown account';
+
+  const handleAddAccount = async (values: z.infer<typeof accountSchema>) => {
+    try {
+      await addAccount(values);
+      toast({ title: 'Account added!' });
+      accountForm.reset({ name: '', type: values.type, openingBalance: 0 });
+    } catch (error) {
+      toast({ title: 'An account with that name already exists.', variant: 'destructive' });
+    }
+  };
+
+  const handleAddTransfer = async (values: z.infer<typeof transferSchema>) => {
+    try {
+      await addTransfer({ ...values, note: values.note || undefined, date: new Date().toISOString() });
+      toast({ title: 'Transfer recorded!' });
+      transferForm.reset({ amount: undefined, note: '' });
+    } catch (error) {
+      toast({ title: 'Failed to record transfer.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteTransfer = async (id: number) => {
+    try {
+      await deleteTransfer(id);
+      toast({ title: 'Transfer deleted.' });
+    } catch (error) {
+      toast({ title: 'Failed to delete transfer.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Accounts</h1>
+        <p className="text-muted-foreground">Track what is left in each wallet, card and bank account.</p>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Balances</CardTitle>
+            <CardDescription>
+              {loading ? <Skeleton className="h-5 w-40" /> : `Total across accounts: ${formatCurrency(totalBalance)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+              </div>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {activeAccounts.map(account => {
+                  const Icon = accountTypeIcons[account.type];
+                  const balance = balances.get(account.id!) ?? 0;
+                  return (
+                    <button
+                      key={account.id}
+                      type="button"
+                      onClick={() => setSelectedAccountId(account.id === selectedAccountId ? null : account.id!)}
+                      className={cn(
+                        'flex items-center gap-4 rounded-lg border p-4 text-left transition-colors hover:bg-muted/50',
+                        account.id === selectedAccountId && 'border-primary bg-muted/50'
+                      )}
+                    >
+                      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+                        <Icon className="h-5 w-5" />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium">{account.name}</p>
+                        <p className="text-sm text-muted-foreground">{accountTypeLabels[account.type]}</p>
+                      </div>
+                      <span className={cn('font-mono', balance < 0 && 'text-destructive')}>{formatCurrency(balance)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedAccount && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{selectedAccount.name}</CardTitle>
+              <CardDescription>Opening balance {formatCurrency(selectedAccount.openingBalance)}. Newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.length > 0 ? (
+                    ledger.map((entry, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                        <TableCell>{entry.title}</TableCell>
+                        <TableCell className={cn('text-right font-mono', entry.amount < 0 ? 'text-destructive' : 'text-primary')}>
+                          {formatCurrency(entry.amount)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">No transactions in this account yet.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-8 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Account</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...accountForm}>
+                <form onSubmit={accountForm.handleSubmit(handleAddAccount)} className="space-y-4">
+                  <FormField
+                    control={accountForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl><Input placeholder="e.g., HDFC Savings" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={accountForm.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(accountTypeLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={accountForm.control}
+                    name="openingBalance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Opening Balance (INR)</FormLabel>
+                        <FormControl><Input type="number" step="0.01" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={accountForm.formState.isSubmitting}>
+                    {accountForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Add Account
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfer Money</CardTitle>
+              <CardDescription>Transfers move money between accounts and don&apos;t count as spending.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...transferForm}>
+                <form onSubmit={transferForm.handleSubmit(handleAddTransfer)} className="space-y-4">
+                  {(['fromAccountId', 'toAccountId'] as const).map(name => (
+                    <FormField
+                      key={name}
+                      control={transferForm.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{name === 'fromAccountId' ? 'From' : 'To'}</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {activeAccounts.map(account => (
+                                <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={transferForm.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount</FormLabel>
+                        <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={transferForm.control}
+                    name="note"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note (optional)</FormLabel>
+                        <FormControl><Input placeholder="e.g., Credit card bill" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={transferForm.formState.isSubmitting}>
+                    {transferForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Record Transfer
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+
+        {transfers.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Transfers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-3">
+                {[...transfers]
+                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                  .slice(0, 10)
+                  .map(transfer => (
+                    <li key={transfer.id} className="flex items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+                      <div className="flex items-center gap-4">
+                        <ArrowRightLeft className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <p className="font-medium">
+                            {accountName(transfer.fromAccountId)} → {accountName(transfer.toAccountId)}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(transfer.date), 'PPP')}{transfer.note ? ` · ${transfer.note}` : ''}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className="font-mono">{formatCurrency(transfer.amount)}</span>
+                        <Button variant="ghost" size="icon" onClick={() => transfer.id && handleDeleteTransfer(transfer.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
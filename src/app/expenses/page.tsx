@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { Fragment, Suspense, useCallback, useState, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { DateRange } from 'react-day-picker';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -18,158 +20,56 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import {
-  Accordion,
-  AccordionContent,
-  AccordionItem,
-  AccordionTrigger,
-} from '@/components/ui/accordion';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from '@/components/ui/alert-dialog';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
 import {
   PlusCircle,
   ScanLine,
-  Edit,
+  FileUp,
+  Wand2,
   Trash2,
-  Calendar,
-  Tag,
-  Wallet,
-  CreditCard,
-  Laptop,
-  MoreHorizontal,
+  Calendar as CalendarIcon,
   Search,
+  Hash,
+  X,
+  Bookmark,
+  BookmarkPlus,
+  Check,
+  HelpCircle,
+  ArrowUpDown,
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Badge } from '@/components/ui/badge';
-import { format } from 'date-fns';
+import { format, parse } from 'date-fns';
 
 import { useExpenses as useExpensesData } from '@/hooks/use-expenses';
-import type { Expense, Category } from '@/lib/types';
-import { deleteExpense } from '@/lib/db';
-import { ExpenseForm } from '@/components/expense-form';
+import type { ExpenseFilters, SavedView } from '@/lib/types';
+import { deleteSavedView, getSavedViews, saveView } from '@/lib/db';
+import { ownShare } from '@/lib/splits';
+import { ExpenseTable } from '@/components/expense-table';
+import { CategorySelectItems } from '@/components/category-badge';
+import { getTagTotals, hasAllTags } from '@/lib/tags';
+import { defaultExpenseFilters, filterExpenses, filtersFromSearchParams, filtersToSearchParams, parseExpenseQuery, sortExpenses, sortOptions } from '@/lib/expense-query';
+import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 
-const paymentModeIcons = {
-  Cash: Wallet,
-  Card: CreditCard,
-  Online: Laptop,
-  Other: MoreHorizontal,
-};
-
-function ExpenseDetails({ expense }: { expense: Expense }) {
-  const PaymentIcon = paymentModeIcons[expense.paymentMode];
-  return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
-      <div className="flex items-center gap-2">
-        <Tag className="h-4 w-4 text-muted-foreground" />
-        <span>{expense.category}</span>
-      </div>
-      <div className="flex items-center gap-2">
-        <Calendar className="h-4 w-4 text-muted-foreground" />
-        <span>{format(new Date(expense.date), 'PPP')}</span>
-      </div>
-      <div className="flex items-center gap-2">
-        <PaymentIcon className="h-4 w-4 text-muted-foreground" />
-        <span>{expense.paymentMode}</span>
-      </div>
-    </div>
-  );
-}
-
-function ExpenseListItem({
-  expense,
-  onDelete,
-  onEditSuccess,
-}: {
-  expense: Expense;
-  onDelete: (id: number) => void;
-  onEditSuccess: () => void;
-}) {
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-
-  const handleEditSuccess = () => {
-    setIsEditDialogOpen(false);
-    onEditSuccess();
-  };
-  
-  return (
-    <AccordionItem value={String(expense.id)}>
-      <AccordionTrigger className="px-4 hover:no-underline">
-        <div className="flex justify-between w-full items-center">
-          <span className="font-medium">{expense.title}</span>
-          <span className="font-mono text-base pr-2">
-            {new Intl.NumberFormat('en-IN', {
-              style: 'currency',
-              currency: 'INR',
-            }).format(expense.amount)}
-          </span>
-        </div>
-      </AccordionTrigger>
-      <AccordionContent className="px-4 pb-4">
-        <ExpenseDetails expense={expense} />
-        <div className="flex justify-end gap-2 mt-4">
-          <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm">
-                <Edit className="mr-2 h-4 w-4" /> Edit
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Edit Expense</DialogTitle>
-              </DialogHeader>
-              <div className="py-4">
-                <ExpenseForm expense={expense} onSave={handleEditSuccess} />
-              </div>
-            </DialogContent>
-          </Dialog>
-
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive" size="sm">
-                <Trash2 className="mr-2 h-4 w-4" /> Delete
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete
-                  this expense.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={() => expense.id && onDelete(expense.id)}
-                  className="bg-destructive hover:bg-destructive/90"
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        </div>
-      </AccordionContent>
-    </AccordionItem>
-  );
-}
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
 
 const ExpensesSkeleton = () => (
     <Card>
@@ -202,51 +102,247 @@ const ExpensesSkeleton = () => (
     </Card>
 )
 
-export default function ExpensesPage() {
-  const { expenses, categories, loading, error, refresh } = useExpensesData();
+// A number input that only reports its value on blur or Enter, so typing "12." isn't cut short
+function AmountInput({ value, placeholder, onCommit }: { value?: number; placeholder: string; onCommit: (value?: number) => void }) {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => setDraft(value?.toString() ?? ''), [value]);
+
+  const commit = () => {
+    const next = draft.trim() === '' || isNaN(Number(draft)) ? undefined : Number(draft);
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <Input
+      type="number"
+      min="0"
+      step="0.01"
+      inputMode="decimal"
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-full sm:w-28"
+    />
+  );
+}
+
+function DateRangeFilter({ filters, onChange }: { filters: ExpenseFilters; onChange: (changes: Partial<ExpenseFilters>) => void }) {
+  const toDate = (value?: string) => (value ? parse(value, 'yyyy-MM-dd', new Date()) : undefined);
+  const range: DateRange | undefined = filters.dateFrom || filters.dateTo ? { from: toDate(filters.dateFrom), to: toDate(filters.dateTo) } : undefined;
+  const label = range?.from
+    ? `${format(range.from, 'd MMM yyyy')}${range.to ? ` – ${format(range.to, 'd MMM yyyy')}` : ''}`
+    : range?.to ? `Until ${format(range.to, 'd MMM yyyy')}` : 'Any date';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn('justify-start font-normal sm:w-56', !range && 'text-muted-foreground')}>
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          <span className="truncate">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={range}
+          onSelect={(next) => onChange({
+            dateFrom: next?.from ? format(next.from, 'yyyy-MM-dd') : undefined,
+            dateTo: next?.to ? format(next.to, 'yyyy-MM-dd') : undefined,
+          })}
+          defaultMonth={range?.from}
+          initialFocus
+        />
+        {range && (
+          <div className="border-t p-2">
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({ dateFrom: undefined, dateTo: undefined })}>
+              Clear dates
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function SavedViewsMenu({ filters, onApply }: { filters: ExpenseFilters; onApply: (filters: ExpenseFilters) => void }) {
   const { toast } = useToast();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const loadViews = () => getSavedViews().then(fetched => setViews(fetched.sort((a, b) => a.name.localeCompare(b.name))));
 
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [sortOrder, setSortOrder] = useState('newest');
+  useEffect(() => {
+    loadViews().catch(error => console.error('Failed to load saved views:', error));
+  }, []);
 
-  const filteredAndSortedExpenses = useMemo(() => {
-    let result = expenses;
+  const currentKey = filtersToSearchParams(filters).toString();
+  const activeView = views.find(view => filtersToSearchParams(view.filters).toString() === currentKey);
 
-    if (searchTerm) {
-      result = result.filter((expense) =>
-        expense.title.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      const replacing = views.some(view => view.name === trimmed);
+      await saveView({ name: trimmed, filters, createdAt: new Date().toISOString() });
+      toast({ title: replacing ? `View "${trimmed}" updated.` : `View "${trimmed}" saved.` });
+      setIsSaveDialogOpen(false);
+      loadViews();
+    } catch (error) {
+      toast({ title: 'Failed to save view.', variant: 'destructive' });
     }
+  };
 
-    if (categoryFilter !== 'all') {
-      result = result.filter(
-        (expense) => expense.category === categoryFilter
-      );
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await deleteSavedView(view.id!);
+      toast({ title: `View "${view.name}" deleted.` });
+      loadViews();
+    } catch (error) {
+      toast({ title: 'Failed to delete view.', variant: 'destructive' });
     }
+  };
 
-    result.sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
-    });
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="shrink-0">
+            <Bookmark className="h-4 w-4" />
+            <span className="hidden sm:inline-block sm:ml-2 max-w-[10rem] truncate">{activeView?.name ?? 'Views'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved Views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet.</p>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onSelect={() => onApply(view.filters)} className="justify-between gap-2">
+              <span className="flex items-center gap-2 truncate">
+                <Check className={cn('h-4 w-4 shrink-0', view.id !== activeView?.id && 'invisible')} />
+                {view.name}
+              </span>
+              <button
+                type="button"
+                className="rounded-sm p-1 text-muted-foreground hover:text-destructive"
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  handleDelete(view);
+                }}
+                aria-label={`Delete ${view.name}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => {
+              setName(activeView?.name ?? '');
+              setIsSaveDialogOpen(true);
+            }}
+          >
+            <BookmarkPlus className="mr-2 h-4 w-4" /> Save Current View...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Saves the current search, filters and sort order. Saving with an existing name replaces that view.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="space-y-4"
+          >
+            <Input placeholder="e.g., Goa trip" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
 
-    return result;
-  }, [expenses, searchTerm, categoryFilter, sortOrder]);
+const queryHelp = [
+  ['coffee', 'Title or notes contain "coffee"'],
+  ['"coffee beans"', 'Title or notes contain the phrase'],
+  ['category:Dining', 'In Dining or its subcategories'],
+  ['amount>500', 'Also >=, <, <= and amount:500'],
+  ['date:2026-09', 'A day, month or year; also date>=2026-09-15'],
+  ['mode:Card', 'Payment mode'],
+  ['account:HDFC', 'Account name'],
+  ['#gift', 'Has the tag'],
+  ['-category:Travel', 'A leading - excludes matches'],
+];
 
-  const handleDelete = async (id: number) => {
-    try {
-      await deleteExpense(id);
-      toast({ title: 'Expense deleted successfully.' });
-      refresh();
-    } catch (err) {
-      toast({ title: 'Failed to delete expense.', variant: 'destructive' });
+function ExpensesView() {
+  const { expenses, categories, accounts, groups, loading, error } = useExpensesData();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The URL is the source of truth for filters, so views can be bookmarked and shared
+  const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(searchParams.toString())), [searchParams]);
+
+  const setFilters = useCallback((next: ExpenseFilters) => {
+    const params = filtersToSearchParams(next).toString();
+    router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  }, [pathname, router]);
+
+  const updateFilters = useCallback((changes: Partial<ExpenseFilters>) => setFilters({ ...filters, ...changes }), [filters, setFilters]);
+
+  // The search box writes to the URL after a pause in typing
+  const [queryDraft, setQueryDraft] = useState(filters.query);
+  const lastWrittenQuery = useRef(filters.query);
+
+  useEffect(() => {
+    if (filters.query !== lastWrittenQuery.current) {
+      lastWrittenQuery.current = filters.query;
+      setQueryDraft(filters.query);
     }
-  };
-  
-  const handleEditSuccess = () => {
-    refresh();
-  }
+  }, [filters.query]);
+
+  useEffect(() => {
+    if (queryDraft === filters.query) return;
+    const timeout = setTimeout(() => {
+      lastWrittenQuery.current = queryDraft;
+      updateFilters({ query: queryDraft });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [queryDraft, filters.query, updateFilters]);
+
+  const parsedQuery = useMemo(() => parseExpenseQuery(filters.query), [filters.query]);
+
+  // Every filter but the tags, so every tag in view stays selectable
+  const untaggedExpenses = useMemo(
+    () => filterExpenses(expenses, { ...filters, tags: [] }, parsedQuery.terms, { categories, accounts }),
+    [expenses, filters, parsedQuery, categories, accounts]
+  );
+
+  const tagTotals = useMemo(() => getTagTotals(untaggedExpenses), [untaggedExpenses]);
+
+  const filteredAndSortedExpenses = useMemo(
+    () => sortExpenses(untaggedExpenses.filter(expense => hasAllTags(expense, filters.tags)), filters.sort, filters.direction),
+    [untaggedExpenses, filters.tags, filters.sort, filters.direction]
+  );
+
+  const isFiltered = filtersToSearchParams({ ...filters, sort: defaultExpenseFilters.sort, direction: defaultExpenseFilters.direction }).toString() !== '';
+  const filteredTotal = filteredAndSortedExpenses.reduce((sum, expense) => sum + ownShare(expense), 0);
+
+  const toggleTag = (tag: string) =>
+    updateFilters({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
 
   if (loading) {
     return <ExpensesSkeleton />;
@@ -278,54 +374,137 @@ export default function ExpensesPage() {
                 <span className="hidden sm:inline-block sm:ml-2">Scan</span>
               </Link>
             </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/import">
+                <FileUp className="h-4 w-4" />
+                <span className="hidden sm:inline-block sm:ml-2">Import</span>
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/rules">
+                <Wand2 className="h-4 w-4" />
+                <span className="hidden sm:inline-block sm:ml-2">Rules</span>
+              </Link>
+            </Button>
           </div>
         </div>
-        <div className="flex flex-col sm:flex-row gap-2 pt-4">
+        <div className="flex gap-2 pt-4">
           <div className="relative flex-grow">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search by title..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-8 sm:w-64"
+              placeholder='Search, e.g. category:Dining amount>500 "coffee"'
+              value={queryDraft}
+              onChange={(e) => setQueryDraft(e.target.value)}
+              className="pl-8 pr-9"
             />
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" className="absolute right-2.5 top-2.5 text-muted-foreground hover:text-foreground" aria-label="Search help">
+                  <HelpCircle className="h-4 w-4" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80 text-sm">
+                <p className="mb-2 font-medium">Search terms</p>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                  {queryHelp.map(([example, description]) => (
+                    <Fragment key={example}>
+                      <dt className="font-mono text-xs leading-5">{example}</dt>
+                      <dd className="text-muted-foreground">{description}</dd>
+                    </Fragment>
+                  ))}
+                </dl>
+                <p className="mt-2 text-muted-foreground">Every term must match. Quote values with spaces, as in category:&quot;Eating Out&quot;.</p>
+              </PopoverContent>
+            </Popover>
           </div>
-          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SavedViewsMenu filters={filters} onApply={setFilters} />
+        </div>
+        {parsedQuery.errors.length > 0 && (
+          <p className="text-sm text-destructive pt-1">Ignored {parsedQuery.errors.join(' ')}</p>
+        )}
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 pt-2">
+          <Select value={filters.category ?? 'all'} onValueChange={(value) => updateFilters({ category: value === 'all' ? undefined : value })}>
             <SelectTrigger className="sm:w-48">
               <SelectValue placeholder="Filter by category" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
-              {categories && categories.map((cat) => (
-                <SelectItem key={cat.id} value={cat.name}>
-                  {cat.name}
-                </SelectItem>
-              ))}
+              <CategorySelectItems categories={categories} current={filters.category} showArchived />
             </SelectContent>
           </Select>
-          <Select value={sortOrder} onValueChange={setSortOrder}>
+          <DateRangeFilter filters={filters} onChange={updateFilters} />
+          <div className="flex items-center gap-2">
+            <AmountInput placeholder="Min ₹" value={filters.minAmount} onCommit={(minAmount) => updateFilters({ minAmount })} />
+            <span className="text-muted-foreground">–</span>
+            <AmountInput placeholder="Max ₹" value={filters.maxAmount} onCommit={(maxAmount) => updateFilters({ maxAmount })} />
+          </div>
+          <Select
+            value={`${filters.sort}-${filters.direction}`}
+            onValueChange={(value) => {
+              const option = sortOptions.find(o => `${o.field}-${o.direction}` === value);
+              if (option) updateFilters({ sort: option.field, direction: option.direction });
+            }}
+          >
             <SelectTrigger className="sm:w-48">
-              <SelectValue placeholder="Sort by date" />
+              <ArrowUpDown className="mr-2 h-4 w-4 text-muted-foreground" />
+              <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="newest">Newest First</SelectItem>
-              <SelectItem value="oldest">Oldest First</SelectItem>
+              {sortOptions.map(option => (
+                <SelectItem key={`${option.field}-${option.direction}`} value={`${option.field}-${option.direction}`}>
+                  {option.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
+        {(tagTotals.length > 0 || filters.tags.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            {tagTotals.map(({ tag, count, total }) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs transition-colors',
+                  filters.tags.includes(tag) ? 'border-primary bg-primary text-primary-foreground' : 'hover:bg-accent'
+                )}
+                title={`${count} expense${count === 1 ? '' : 's'}`}
+              >
+                <Hash className="h-3 w-3" />
+                {tag}
+                <span className="font-mono opacity-80">{formatCurrency(total)}</span>
+              </button>
+            ))}
+            {filters.tags.length > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => updateFilters({ tags: [] })}>
+                <X className="mr-1 h-3 w-3" /> Clear tags
+              </Button>
+            )}
+          </div>
+        )}
+        {isFiltered && (
+          <div className="flex items-center justify-between gap-2 pt-2 text-sm text-muted-foreground">
+            <span>
+              {filteredAndSortedExpenses.length} of {expenses.length} expenses · {formatCurrency(filteredTotal)}
+            </span>
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setFilters({ ...defaultExpenseFilters, sort: filters.sort, direction: filters.direction })}>
+              <X className="mr-1 h-3 w-3" /> Clear filters
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         {filteredAndSortedExpenses.length > 0 ? (
-          <Accordion type="multiple" className="border rounded-md">
-            {filteredAndSortedExpenses.map((expense) => (
-              <ExpenseListItem
-                key={expense.id}
-                expense={expense}
-                onDelete={handleDelete}
-                onEditSuccess={handleEditSuccess}
-              />
-            ))}
-          </Accordion>
+          <ExpenseTable
+            expenses={filteredAndSortedExpenses}
+            categories={categories}
+            accounts={accounts}
+            groups={groups}
+            sort={filters.sort}
+            direction={filters.direction}
+            onSortChange={(sort, direction) => updateFilters({ sort, direction })}
+          />
         ) : (
           <div className="text-center py-16 border-2 border-dashed rounded-md">
             <p className="text-muted-foreground">No expenses found.</p>
@@ -338,3 +517,12 @@ export default function ExpensesPage() {
     </Card>
   );
 }
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function ExpensesPage() {
+  return (
+    <Suspense fallback={<ExpensesSkeleton />}>
+      <ExpensesView />
+    </Suspense>
+  );
+}
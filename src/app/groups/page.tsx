@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { ArrowRight, CheckCircle2, Loader2, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { addGroup, addSettlement, deleteGroup, deleteSettlement } from '@/lib/db';
+import { SELF_MEMBER, getGroupBalances, ownShare, suggestSettlements, type SuggestedPayment } from '@/lib/splits';
+import type { Expense, Group, Settlement } from '@/lib/types';
+import { useExpenses } from '@/hooks/use-expenses';
+import { useToast } from '@/hooks/use-toast';
+
+const parseMembers = (value: string) =>
+  Array.from(new Set(value.split(',').map(name => name.trim()).filter(Boolean)))
+    .filter(name => name.toLowerCase() !== SELF_MEMBER.toLowerCase());
+
+const groupSchema = z.object({
+  name: z.string().min(2, { message: 'Name must be at least 2 characters.' }),
+  members: z.string().refine(value => parseMembers(value).length > 0, { message: 'Add at least one other member.' }),
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+function GroupLedger({ group, expenses, settlements }: { group: Group; expenses: Expense[]; settlements: Settlement[] }) {
+  const { toast } = useToast();
+
+  const groupExpenses = useMemo(() => expenses.filter(e => e.split?.groupId === group.id), [expenses, group.id]);
+  const groupSettlements = useMemo(
+    () => settlements
+      .filter(s => s.groupId === group.id)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [settlements, group.id]
+  );
+  const balances = useMemo(() => getGroupBalances(group, expenses, settlements), [group, expenses, settlements]);
+  const suggestions = useMemo(() => suggestSettlements(balances), [balances]);
+
+  const handleRecordSettlement = async (payment: SuggestedPayment) => {
+    try {
+      await addSettlement({ groupId: group.id!, ...payment, date: new Date().toISOString() });
+      toast({ title: 'Settlement recorded!', description: `${payment.from} paid ${payment.to} ${formatCurrency(payment.amount)}.` });
+    } catch (error) {
+      toast({ title: 'Failed to record settlement.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteSettlement = async (id: number) => {
+    try {
+      await deleteSettlement(id);
+      toast({ title: 'Settlement deleted.' });
+    } catch (error) {
+      toast({ title: 'Failed to delete settlement.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Balances</CardTitle>
+          <CardDescription>Positive means the member is owed money.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-2">
+            {Object.entries(balances).map(([member, balance]) => (
+              <li key={member} className="flex items-center justify-between">
+                <span className={cn(member === SELF_MEMBER && 'font-medium')}>{member}</span>
+                <span className={cn('font-mono', balance < 0 ? 'text-destructive' : balance > 0 && 'text-primary')}>
+                  {formatCurrency(balance)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Settle Up</CardTitle>
+          <CardDescription>The fewest payments that clear every balance.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suggestions.length > 0 ? (
+            <ul className="space-y-3">
+              {suggestions.map((payment, index) => (
+                <li key={index} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 text-sm">
+                    {payment.from} <ArrowRight className="h-4 w-4 text-muted-foreground" /> {payment.to}
+                    <span className="font-mono">{formatCurrency(payment.amount)}</span>
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => handleRecordSettlement(payment)}>Record</Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="h-4 w-4 text-primary" /> Everyone is settled up.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {groupExpenses.length === 0 && groupSettlements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shared expenses yet. Split an expense with this group from the expense form.</p>
+          ) : (
+            <ul className="space-y-3">
+              {groupSettlements.map(settlement => (
+                <li key={`settlement-${settlement.id}`} className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <p className="font-medium">{settlement.from} paid {settlement.to}</p>
+                    <p className="text-sm text-muted-foreground">{format(new Date(settlement.date), 'PPP')} · Settlement</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{formatCurrency(settlement.amount)}</span>
+                    <Button variant="ghost" size="icon" onClick={() => settlement.id && handleDeleteSettlement(settlement.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+              {groupExpenses.map(expense => (
+                <li key={`expense-${expense.id}`} className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <p className="font-medium">{expense.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(expense.date), 'PPP')} · Paid by {expense.split!.paidBy}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono">{formatCurrency(expense.amount)}</p>
+                    <p className="text-sm text-muted-foreground">Your share {formatCurrency(ownShare(expense))}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function GroupsPage() {
+  const { groups, expenses, settlements, loading } = useExpenses();
+  const [selectedGroupId, setSelectedGroupId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof groupSchema>>({
+    resolver: zodResolver(groupSchema),
+    defaultValues: { name: '', members: '' },
+  });
+
+  const selectedGroup = groups.find(g => g.id === selectedGroupId) ?? null;
+
+  const handleAddGroup = async (values: z.infer<typeof groupSchema>) => {
+    try {
+      const id = await addGroup({ name: values.name, members: [SELF_MEMBER, ...parseMembers(values.members)] });
+      toast({ title: 'Group created!' });
+      form.reset();
+      setSelectedGroupId(id as number);
+    } catch (error) {
+      toast({ title: 'A group with that name already exists.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteGroup = async (id: number) => {
+    try {
+      await deleteGroup(id);
+      toast({ title: 'Group deleted.' });
+      if (selectedGroupId === id) setSelectedGroupId(null);
+    } catch (error: any) {
+      toast({ title: 'Failed to delete group.', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Groups</h1>
+        <p className="text-muted-foreground">Share expenses with housemates or travel buddies and settle up.</p>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <div className="grid gap-8 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Groups</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-14 w-full" />
+                  <Skeleton className="h-14 w-full" />
+                </div>
+              ) : groups.length > 0 ? (
+                <ul className="space-y-3">
+                  {groups.map(group => (
+                    <li
+                      key={group.id}
+                      className={cn(
+                        'flex items-center justify-between gap-4 p-3 rounded-lg border cursor-pointer hover:bg-muted/50',
+                        group.id === selectedGroupId && 'border-primary bg-muted/50'
+                      )}
+                      onClick={() => setSelectedGroupId(group.id === selectedGroupId ? null : group.id!)}
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Users className="h-5 w-5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{group.name}</p>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {group.members.map(member => <Badge key={member} variant="outline">{member}</Badge>)}
+                          </div>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          group.id && handleDeleteGroup(group.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                  <p className="text-muted-foreground">No groups yet.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>New Group</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleAddGroup)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl><Input placeholder="e.g., Flat 4B" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="members"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Members</FormLabel>
+                        <FormControl><Input placeholder="e.g., Asha, Ravi" {...field} /></FormControl>
+                        <FormDescription>Separate names with commas. You are added automatically.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create Group
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+
+        {selectedGroup && <GroupLedger group={selectedGroup} expenses={expenses} settlements={settlements} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,459 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExpenseReviewList, type EditableExpense } from '@/components/expense-review-list';
+import { OperationProgressBar } from '@/components/operation-progress';
+import { findImportedExternalIds, getCsvMappings, getRules, saveCsvMapping } from '@/lib/db';
+import {
+  CSV_DATE_FORMATS,
+  delimiterLabels,
+  detectDateFormat,
+  detectDelimiter,
+  guessColumns,
+  headerSignature,
+  mapCsvRows,
+  parseCsv,
+  type ParsedStatement,
+} from '@/lib/csv';
+import { isOfx, parseOfx } from '@/lib/ofx';
+import { isQif, parseQif } from '@/lib/qif';
+import { applyRules } from '@/lib/rules';
+import type { CsvMapping, ExpenseRule, OperationProgress, PaymentMode } from '@/lib/types';
+import { useExpenses } from '@/hooks/use-expenses';
+import { useToast } from '@/hooks/use-toast';
+
+type MappingDraft = Omit<CsvMapping, 'id'>;
+type Step = 'file' | 'map' | 'review';
+type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+const NONE = 'none';
+
+// Builds a first guess at the mapping for a file nobody has mapped before
+function guessMapping(rows: string[][], delimiter: string): MappingDraft {
+  const firstRow = rows[0] ?? [];
+  const columns = guessColumns(firstRow);
+  // A first row whose date cell isn't a date is a header
+  const hasHeader = detectDateFormat([firstRow[columns.date] ?? '']) === null;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  return {
+    name: '',
+    delimiter,
+    hasHeader,
+    dateFormat: detectDateFormat(dataRows.map(row => row[columns.date] ?? '')) ?? CSV_DATE_FORMATS[0],
+    amountColumns: columns.amount === undefined && columns.debit !== undefined ? 'split' : 'single',
+    debitsAreNegative: true,
+    columns,
+    defaultPaymentMode: 'Card',
+  };
+}
+
+function ColumnSelect({ label, value, columnNames, optional, onChange }: {
+  label: string;
+  value?: number;
+  columnNames: string[];
+  optional?: boolean;
+  onChange: (value?: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={value === undefined ? NONE : String(value)}
+        onValueChange={(next) => onChange(next === NONE ? undefined : Number(next))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>Not in file</SelectItem>}
+          {columnNames.map((name, index) => (
+            <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function ImportStatementPage() {
+  const { categories, accounts, addMultipleExpenses } = useExpenses();
+  const router = useRouter();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [fileFormat, setFileFormat] = useState<StatementFormat>('csv');
+  const [alreadyImported, setAlreadyImported] = useState(0);
+  const [text, setText] = useState('');
+  const [savedMappings, setSavedMappings] = useState<CsvMapping[]>([]);
+  const [rules, setRules] = useState<ExpenseRule[]>([]);
+  const [mapping, setMapping] = useState<MappingDraft | null>(null);
+  const [result, setResult] = useState<ParsedStatement | null>(null);
+  const [reviewExpenses, setReviewExpenses] = useState<EditableExpense[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveProgress, setSaveProgress] = useState<OperationProgress | null>(null);
+
+  useEffect(() => {
+    getCsvMappings().then(setSavedMappings).catch(error => console.error('Failed to load CSV mappings:', error));
+    getRules().then(setRules).catch(error => console.error('Failed to load rules:', error));
+  }, []);
+
+  const delimiter = mapping?.delimiter;
+  const rows = useMemo(() => (text && delimiter ? parseCsv(text, delimiter) : []), [text, delimiter]);
+  const columnCount = useMemo(() => Math.max(0, ...rows.slice(0, 10).map(row => row.length)), [rows]);
+  const columnNames = useMemo(
+    () => Array.from({ length: columnCount }, (_, i) => (mapping?.hasHeader && rows[0]?.[i]) || `Column ${i + 1}`),
+    [columnCount, mapping?.hasHeader, rows]
+  );
+  const previewRows = mapping ? rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + 5) : [];
+
+  const updateMapping = (changes: Partial<MappingDraft>) => setMapping(current => (current ? { ...current, ...changes } : current));
+  const updateColumns = (changes: Partial<MappingDraft['columns']>) =>
+    setMapping(current => (current ? { ...current, columns: { ...current.columns, ...changes } } : current));
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const fileText = await file.text();
+    setFileName(file.name);
+
+    // OFX, QFX and QIF files describe their own layout, so they skip the mapping step
+    if (isOfx(fileText) || isQif(fileText)) {
+      const format = isOfx(fileText) ? 'ofx' : 'qif';
+      const categoryNames = categories.map(c => c.name);
+      setFileFormat(format);
+      await showReview(format === 'ofx' ? parseOfx(fileText, categoryNames) : parseQif(fileText, categoryNames));
+      return;
+    }
+
+    setFileFormat('csv');
+    const delimiter = detectDelimiter(fileText);
+    const parsed = parseCsv(fileText, delimiter);
+    if (parsed.length === 0) {
+      toast({ title: 'Empty file', description: 'No rows were found in this file.', variant: 'destructive' });
+      return;
+    }
+
+    // Reuse the mapping saved for the bank whose statements have this header row
+    const signature = headerSignature(parsed[0]);
+    const saved = savedMappings.find(m => m.headerSignature === signature);
+    if (saved) {
+      const { id, ...savedMapping } = saved;
+      setMapping(savedMapping);
+      toast({ title: `Using saved mapping for ${saved.name}` });
+    } else {
+      setMapping(guessMapping(parsed, delimiter));
+    }
+    setText(fileText);
+    setStep('map');
+  };
+
+  const applySavedMapping = (id: string) => {
+    const saved = savedMappings.find(m => String(m.id) === id);
+    if (!saved) return;
+    const { id: _id, ...savedMapping } = saved;
+    setMapping(savedMapping);
+  };
+
+  // Drops transactions that were imported before, or appear twice in the file, then
+  // moves on to the review step
+  const showReview = async (parsed: ParsedStatement) => {
+    const externalIds = parsed.expenses.flatMap(expense => (expense.externalId ? [expense.externalId] : []));
+    const imported = externalIds.length > 0 ? await findImportedExternalIds(externalIds) : new Set<string>();
+    const seen = new Set<string>();
+    const fresh = parsed.expenses.filter(expense => {
+      if (!expense.externalId) return true;
+      if (imported.has(expense.externalId) || seen.has(expense.externalId)) return false;
+      seen.add(expense.externalId);
+      return true;
+    });
+
+    if (fresh.length === 0) {
+      toast({
+        title: 'No new expenses found',
+        description: parsed.expenses.length > 0
+          ? 'Every expense in this file has already been imported.'
+          : parsed.errors[0] ? `Row ${parsed.errors[0].row}: ${parsed.errors[0].message}` : 'Check the file and try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setAlreadyImported(parsed.expenses.length - fresh.length);
+    setResult(parsed);
+    setReviewExpenses(fresh.map(expense => applyRules(expense, rules)));
+    setStep('review');
+  };
+
+  const handlePreview = () => {
+    if (!mapping) return;
+    showReview(mapCsvRows(rows, mapping, categories.map(c => c.name)));
+  };
+
+  const handleExpenseChange = <K extends keyof EditableExpense>(index: number, field: K, value: EditableExpense[K]) => {
+    setReviewExpenses(current => current.map((expense, i) => (i === index ? { ...expense, [field]: value } : expense)));
+  };
+
+  const handleSave = async () => {
+    if (reviewExpenses.length === 0) return;
+    setIsSaving(true);
+    try {
+      await addMultipleExpenses(reviewExpenses, 'import', setSaveProgress);
+      if (fileFormat === 'csv' && mapping?.name.trim()) {
+        await saveCsvMapping({ ...mapping, name: mapping.name.trim(), headerSignature: mapping.hasHeader ? headerSignature(rows[0]) : undefined });
+      }
+      toast({ title: 'Success', description: `${reviewExpenses.length} expenses have been imported.` });
+      router.push('/expenses');
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: 'Import Failed', description: 'Could not save the imported expenses.' });
+      setIsSaving(false);
+      setSaveProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Import Statement</h1>
+        <p className="text-muted-foreground">Add expenses from a bank or card statement exported as CSV, OFX, QFX or QIF. Works offline.</p>
+      </div>
+
+      {step === 'file' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Choose a Statement File</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="border-2 border-dashed border-muted-foreground/30 rounded-lg p-8 flex flex-col items-center justify-center text-center h-64">
+              <FileSpreadsheet className="h-12 w-12 text-muted-foreground" />
+              <h3 className="mt-4 text-lg font-medium">Select a statement file</h3>
+              <p className="mt-1 text-sm text-muted-foreground">CSV, OFX, QFX or QIF</p>
+              <Button type="button" variant="outline" className="mt-4" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" /> Browse Files
+              </Button>
+              <Input ref={fileInputRef} type="file" className="hidden" accept=".csv,.ofx,.qfx,.qif,text/csv,text/plain" onChange={handleFileChange} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+            <CardDescription>{fileName} · {rows.length} rows</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {savedMappings.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Saved Mapping</Label>
+                  <Select onValueChange={applySavedMapping}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Load a saved bank" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedMappings.map(m => (
+                        <SelectItem key={m.id} value={String(m.id)}>{m.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="mapping-name">Bank or Card</Label>
+                <Input
+                  id="mapping-name"
+                  placeholder="e.g., HDFC Credit Card"
+                  value={mapping.name}
+                  onChange={(e) => updateMapping({ name: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Name it to remember this mapping for next time.</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Delimiter</Label>
+                <Select value={mapping.delimiter} onValueChange={(delimiter) => updateMapping({ delimiter })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(delimiterLabels).map(([value, label]) => (
+                      <SelectItem key={label} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select value={mapping.dateFormat} onValueChange={(dateFormat) => updateMapping({ dateFormat })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DATE_FORMATS.map(dateFormat => (
+                      <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 sm:pt-8">
+                <Switch id="has-header" checked={mapping.hasHeader} onCheckedChange={(hasHeader) => updateMapping({ hasHeader })} />
+                <Label htmlFor="has-header">First row is a header</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <ColumnSelect label="Date" value={mapping.columns.date} columnNames={columnNames} onChange={(date) => updateColumns({ date: date ?? 0 })} />
+              <ColumnSelect label="Title" value={mapping.columns.title} columnNames={columnNames} onChange={(title) => updateColumns({ title: title ?? 0 })} />
+              <div className="space-y-2">
+                <Label>Amounts</Label>
+                <Select value={mapping.amountColumns} onValueChange={(amountColumns) => updateMapping({ amountColumns: amountColumns as MappingDraft['amountColumns'] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">One amount column</SelectItem>
+                    <SelectItem value="split">Separate debit and credit columns</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {mapping.amountColumns === 'single' ? (
+                <>
+                  <ColumnSelect label="Amount" value={mapping.columns.amount} columnNames={columnNames} onChange={(amount) => updateColumns({ amount })} />
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="debits-negative"
+                      checked={mapping.debitsAreNegative}
+                      onCheckedChange={(debitsAreNegative) => updateMapping({ debitsAreNegative })}
+                    />
+                    <Label htmlFor="debits-negative">Spending is shown as negative amounts</Label>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <ColumnSelect label="Debit" value={mapping.columns.debit} columnNames={columnNames} onChange={(debit) => updateColumns({ debit })} />
+                  <ColumnSelect label="Credit" value={mapping.columns.credit} columnNames={columnNames} optional onChange={(credit) => updateColumns({ credit })} />
+                </>
+              )}
+              <ColumnSelect label="Category" value={mapping.columns.category} columnNames={columnNames} optional onChange={(category) => updateColumns({ category })} />
+              <ColumnSelect label="Payment Mode" value={mapping.columns.paymentMode} columnNames={columnNames} optional onChange={(paymentMode) => updateColumns({ paymentMode })} />
+              <div className="space-y-2">
+                <Label>Default Payment Mode</Label>
+                <Select value={mapping.defaultPaymentMode} onValueChange={(value) => updateMapping({ defaultPaymentMode: value as PaymentMode })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Card">Card</SelectItem>
+                    <SelectItem value="Cash">Cash</SelectItem>
+                    <SelectItem value="Online">Online</SelectItem>
+                    <SelectItem value="Other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select
+                  value={mapping.accountId ? String(mapping.accountId) : NONE}
+                  onValueChange={(value) => updateMapping({ accountId: value === NONE ? undefined : Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Based on payment mode</SelectItem>
+                    {accounts.filter(a => !a.archived).map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {columnNames.map((name, index) => <TableHead key={index} className="whitespace-nowrap">{name}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {columnNames.map((_, index) => <TableCell key={index} className="whitespace-nowrap">{row[index]}</TableCell>)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button variant="outline" onClick={() => setStep('file')}>
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+            <Button onClick={handlePreview}>Preview Expenses</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {step === 'review' && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review and Save</CardTitle>
+            <CardDescription>
+              {fileName} · {reviewExpenses.length} expenses · {result.skippedCredits} credit rows skipped
+              {alreadyImported > 0 && ` · ${alreadyImported} already imported`}
+              {result.errors.length > 0 && ` · ${result.errors.length} rows could not be read`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>Some rows were skipped</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {result.errors.slice(0, 5).map(error => (
+                      <li key={error.row}>Row {error.row}: {error.message}</li>
+                    ))}
+                    {result.errors.length > 5 && <li>…and {result.errors.length - 5} more</li>}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            <ExpenseReviewList
+              expenses={reviewExpenses}
+              categories={categories}
+              onChange={handleExpenseChange}
+              onRemove={(index) => setReviewExpenses(current => current.filter((_, i) => i !== index))}
+            />
+            {isSaving && <OperationProgressBar progress={saveProgress} label="Saved" />}
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button variant="outline" onClick={() => setStep(fileFormat === 'csv' ? 'map' : 'file')} disabled={isSaving}>
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || reviewExpenses.length === 0}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add {reviewExpenses.length} Expenses
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, Loader2, Trash2, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { addIncome, deleteIncome, getIncomeCategories } from '@/lib/db';
+import type { Category } from '@/lib/types';
+import { useExpenses } from '@/hooks/use-expenses';
+import { useToast } from '@/hooks/use-toast';
+
+const incomeSchema = z.object({
+  title: z.string().min(2, { message: 'Title must be at least 2 characters.' }),
+  amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+  date: z.date({ required_error: 'A date is required.' }),
+  category: z.string().min(1, { message: 'Please select a category.' }),
+  accountId: z.number().optional(),
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+export default function IncomePage() {
+  const { income, accounts, summaries, loading } = useExpenses();
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof incomeSchema>>({
+    resolver: zodResolver(incomeSchema),
+    defaultValues: { title: '', category: '', date: new Date() },
+  });
+
+  const fetchCategories = useCallback(async () => {
+    const fetchedCategories = await getIncomeCategories();
+    setIncomeCategories(fetchedCategories);
+    if (!form.getValues('category') && fetchedCategories.length > 0) {
+      form.setValue('category', fetchedCategories[0].name);
+    }
+  }, [form]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const handleAddIncome = async (values: z.infer<typeof incomeSchema>) => {
+    try {
+      await addIncome({ ...values, date: values.date.toISOString() });
+      toast({ title: 'Income added successfully!' });
+      form.reset({ title: '', amount: undefined, category: values.category, accountId: values.accountId, date: new Date() });
+    } catch (error) {
+      toast({ title: 'Failed to add income.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteIncome = async (id: number) => {
+    try {
+      await deleteIncome(id);
+      toast({ title: 'Income deleted.' });
+    } catch (error) {
+      toast({ title: 'Failed to delete income.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Income</h1>
+        <p className="text-muted-foreground">Record salary, refunds and reimbursements to track your net cash flow.</p>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Income This Month</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(summaries.income.month)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Net This Month</CardDescription>
+              <CardTitle className={cn('text-2xl', summaries.net.month < 0 && 'text-destructive')}>{formatCurrency(summaries.net.month)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Savings Rate</CardDescription>
+              <CardTitle className="text-2xl">
+                {summaries.savingsRate === null ? '—' : `${summaries.savingsRate.toFixed(1)}%`}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Income</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleAddIncome)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl><Input placeholder="e.g., September Salary" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount</FormLabel>
+                        <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Date</FormLabel>
+                        <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button variant="outline" className={cn('pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}>
+                                {field.value ? format(field.value, 'PPP') : <span>Pick a date</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={(date) => {
+                                field.onChange(date || new Date());
+                                setIsDatePickerOpen(false);
+                              }}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {incomeCategories.map(cat => (
+                              <SelectItem key={cat.id} value={cat.name}>{cat.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="accountId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Paid Into</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {accounts.filter(account => !account.archived).map(account => (
+                              <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Income
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Income History</CardTitle>
+            <CardDescription>All recorded income, newest first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+              </div>
+            ) : income.length > 0 ? (
+              <ul className="space-y-3">
+                {income.map(entry => (
+                  <li key={entry.id} className="flex items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+                        <TrendingUp className="h-5 w-5" />
+                      </div>
+                      <div>
+                        <p className="font-medium">
+                          {entry.title} <Badge variant="outline" className="ml-1">{entry.category}</Badge>
+                        </p>
+                        <p className="text-sm text-muted-foreground">{format(new Date(entry.date), 'PPP')}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className="font-mono text-primary">+{formatCurrency(entry.amount)}</span>
+                      <Button variant="ghost" size="icon" onClick={() => entry.id && handleDeleteIncome(entry.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                <p className="text-muted-foreground">No income recorded yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
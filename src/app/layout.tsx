@@ -7,8 +7,14 @@ import './globals.css';
 import { ThemeProvider } from '@/components/theme-provider';
 import { Header } from '@/components/layout/header';
 import { Toaster } from '@/components/ui/toaster';
+import { ToastAction } from '@/components/ui/toast';
+import { UndoManager } from '@/components/layout/undo-manager';
+import { BudgetAlerts } from '@/components/layout/budget-alerts';
+import { useToast } from '@/hooks/use-toast';
 import { useEffect } from 'react';
-import { clearOldReminders } from '@/lib/db';
+import { clearOldReminders, dbEvents, purgeExpiredTrash, syncReminderNotifications } from '@/lib/db';
+import { requestReminderCheck } from '@/lib/reminders';
+import type { DataChange } from '@/lib/types';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-sans' });
 
@@ -26,18 +32,24 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const { toast } = useToast();
+
   useEffect(() => {
     if ('serviceWorker' in navigator) {
       navigator.serviceWorker
         .register('/sw.js')
         .then(async (registration) => {
           console.log('Service Worker registered with scope:', registration.scope);
-          // Clean up old reminders on app load
+          // Clean up old reminders on app load, then deliver any notifications that came due while the app was closed
           await clearOldReminders();
+          await syncReminderNotifications();
+          await requestReminderCheck();
         })
         .catch((error) => console.error('Service Worker registration failed:', error));
     }
 
+    purgeExpiredTrash().catch((error) => console.error('Failed to empty old items from the Trash:', error));
+
     // Request persistent storage
     if (navigator.storage && navigator.storage.persist) {
       navigator.storage.persist().then((persistent) => {
@@ -49,7 +61,35 @@ export default function RootLayout({
       });
     }
 
-  }, []);
+    // Another tab upgraded the database, so this one can no longer read or write it
+    const handleVersionChanged = () => {
+      toast({
+        title: 'VerdantView was updated in another tab.',
+        description: 'Reload this tab to keep using it.',
+        duration: Infinity,
+        action: <ToastAction altText="Reload" onClick={() => window.location.reload()}>Reload</ToastAction>,
+      });
+    };
+    dbEvents.addEventListener('versionChanged', handleVersionChanged);
+
+    // Reminders were added, deleted, restored or imported in this tab, or quiet hours changed.
+    // Schedule the new ones and let the service worker hand them to the browser, move them
+    // out of quiet hours or drop the deleted ones.
+    const handleDataChanged = (event: Event) => {
+      const { stores, remote } = (event as CustomEvent<DataChange>).detail;
+      const affectsNotifications = stores.includes('reminders') || stores.includes('settings');
+      if (remote || !affectsNotifications || !('serviceWorker' in navigator)) return;
+      syncReminderNotifications()
+        .then(requestReminderCheck)
+        .catch((error) => console.error('Failed to schedule reminder notifications:', error));
+    };
+    dbEvents.addEventListener('dataChanged', handleDataChanged);
+
+    return () => {
+      dbEvents.removeEventListener('versionChanged', handleVersionChanged);
+      dbEvents.removeEventListener('dataChanged', handleDataChanged);
+    };
+  }, [toast]);
 
   return (
     <html lang="en" suppressHydrationWarning>
@@ -65,6 +105,8 @@ export default function RootLayout({
             <main className="flex-1 p-4 sm:p-6 md:p-8">{children}</main>
           </div>
           <Toaster />
+          <UndoManager />
+          <BudgetAlerts />
         </ThemeProvider>
       </body>
     </html>
@@ -1,17 +1,22 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis } from 'recharts';
-import { IndianRupee, ArrowRight, PlusCircle, ScanLine, AlertCircle } from 'lucide-react';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import { Bar, BarChart, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { IndianRupee, ArrowRight, PlusCircle, ScanLine, AlertCircle, PiggyBank } from 'lucide-react';
+import { format, subDays, startOfDay, endOfDay, startOfMonth, endOfMonth } from 'date-fns';
 import { useExpenses } from '@/hooks/use-expenses';
+import type { BudgetStatus } from '@/lib/budgets';
+import type { Category } from '@/lib/types';
+import { sumExpensesBy } from '@/lib/db';
+import { getCategoryColor, topLevelCategoryName } from '@/lib/categories';
+import { billStatus } from '@/lib/reminders';
+import { CategoryBadge } from '@/components/category-badge';
 
 const SummaryCard = ({
   title,
@@ -66,8 +71,178 @@ const Last7DaysChart = ({ loading, chartData }: { loading: boolean; chartData: a
   </Card>
 );
 
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+type CategorySlice = { name: string; total: number; color: string };
+
+const CategorySpendingChart = ({ loading, data }: { loading: boolean; data: CategorySlice[] }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Spending by Category</CardTitle>
+      <CardDescription>This month, with subcategories counted under their parent.</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {loading ? (
+        <Skeleton className="h-[250px] w-full" />
+      ) : data.length > 0 ? (
+        <div className="grid items-center gap-4 sm:grid-cols-2">
+          <ResponsiveContainer width="100%" height={250}>
+            <PieChart>
+              <Pie data={data} dataKey="total" nameKey="name" innerRadius={60} outerRadius={100} paddingAngle={2}>
+                {data.map(slice => (
+                  <Cell key={slice.name} fill={slice.color} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+            </PieChart>
+          </ResponsiveContainer>
+          <ul className="space-y-2 text-sm">
+            {data.map(slice => (
+              <li key={slice.name} className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: slice.color }} />
+                  {slice.name}
+                </span>
+                <span className="font-mono text-xs">{formatCurrency(slice.total)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-center text-muted-foreground">No expenses this month.</p>
+      )}
+    </CardContent>
+  </Card>
+);
+
+type PeriodTotals = { today: number; week: number; month: number; year: number };
+
+const CashFlowCard = ({
+  loading,
+  income,
+  expenses,
+  net,
+  savingsRate,
+}: {
+  loading: boolean;
+  income: PeriodTotals;
+  expenses: PeriodTotals;
+  net: PeriodTotals;
+  savingsRate: number | null;
+}) => {
+  const periods: { key: keyof PeriodTotals; label: string }[] = [
+    { key: 'today', label: 'Today' },
+    { key: 'week', label: 'This Week' },
+    { key: 'month', label: 'This Month' },
+    { key: 'year', label: 'This Year' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Cash Flow</CardTitle>
+          <CardDescription>Income minus expenses.</CardDescription>
+        </div>
+        <Button asChild variant="link" className="text-primary px-0 h-auto">
+          <Link href="/income">Income <ArrowRight className="ml-2 h-4 w-4" /></Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            <div className="flex items-center gap-3 rounded-md bg-muted/50 p-3">
+              <PiggyBank className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-sm text-muted-foreground">Savings rate this month</p>
+                <p className={`text-xl font-bold ${savingsRate !== null && savingsRate < 0 ? 'text-destructive' : ''}`}>
+                  {savingsRate === null ? '—' : `${savingsRate.toFixed(1)}%`}
+                </p>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">In</TableHead>
+                  <TableHead className="text-right">Out</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map(({ key, label }) => (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatCurrency(income[key])}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatCurrency(expenses[key])}</TableCell>
+                    <TableCell className={`text-right font-mono text-xs ${net[key] < 0 ? 'text-destructive' : 'text-primary'}`}>
+                      {formatCurrency(net[key])}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const BudgetBreakdownCard = ({ loading, statuses, categories }: { loading: boolean; statuses: BudgetStatus[]; categories: Category[] }) => (
+  <Card>
+    <CardHeader className="flex flex-row items-start justify-between space-y-0">
+      <div className="space-y-1.5">
+        <CardTitle>Category Budgets</CardTitle>
+        <CardDescription>Spending this month by category.</CardDescription>
+      </div>
+      <Button asChild variant="link" className="text-primary px-0 h-auto">
+        <Link href="/settings">Manage <ArrowRight className="ml-2 h-4 w-4" /></Link>
+      </Button>
+    </CardHeader>
+    <CardContent>
+      {loading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : statuses.length > 0 ? (
+        <ul className="space-y-4">
+          {statuses.map(({ budget, spent, available, carryOver, percent }) => {
+            const warnAt = budget.thresholds.length > 0 ? Math.min(...budget.thresholds) : 80;
+            return (
+              <li key={budget.id} className="space-y-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  <CategoryBadge name={budget.category} categories={categories} />
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {formatCurrency(spent)} / {formatCurrency(available)}
+                  </span>
+                </div>
+                <Progress
+                  value={Math.min(percent, 100)}
+                  className={percent >= 100 ? '[&>div]:bg-destructive' : percent >= warnAt ? '[&>div]:bg-yellow-500' : ''}
+                />
+                {budget.rollover && carryOver !== 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {carryOver > 0 ? 'Includes' : 'Reduced by'} {formatCurrency(Math.abs(carryOver))} rolled over from previous months.
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-center text-muted-foreground">No category budgets set.</p>
+      )}
+    </CardContent>
+  </Card>
+);
+
 export default function DashboardPage() {
-  const { expenses, summaries, settings, reminders, loading, error } = useExpenses();
+  const { expenses, categories, summaries, settings, reminders, budgetStatuses, loading, error } = useExpenses();
 
   const budgetProgress = useMemo(() => {
     if (!settings?.monthlyBudget || settings.monthlyBudget === 0) return 0;
@@ -77,31 +252,48 @@ export default function DashboardPage() {
 
   const recentExpenses = useMemo(() => expenses.slice(0, 3), [expenses]);
   
+  // Overdue bills come first, since they sort before upcoming ones
   const upcomingReminder = useMemo(() => {
-    const now = new Date();
     return reminders
-      .filter(r => new Date(r.date) >= now)
+      .filter(r => billStatus(r) !== 'paid')
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
   }, [reminders]);
 
-  const chartData = useMemo(() => {
+  const [chartData, setChartData] = useState<{ date: string; total: number }[]>([]);
+
+  // Summed by day in the database worker. Rerun whenever the hook updates its expenses.
+  useEffect(() => {
     const days = Array.from({ length: 7 }, (_, i) => subDays(new Date(), i)).reverse();
-    return days.map(day => {
-      const dayStart = startOfDay(day);
-      const dayEnd = endOfDay(day);
-      const total = expenses
-        .filter(e => {
-          const expenseDate = new Date(e.date);
-          return expenseDate >= dayStart && expenseDate <= dayEnd;
-        })
-        .reduce((sum, e) => sum + e.amount, 0);
-      return {
+    sumExpensesBy({ from: startOfDay(days[0]).toISOString(), to: endOfDay(days[6]).toISOString() }, 'day')
+      .then(totals => setChartData(days.map(day => ({
         date: format(day, 'MMM d'),
-        total: total,
-      };
-    });
+        total: totals[format(day, 'yyyy-MM-dd')]?.total ?? 0,
+      }))))
+      .catch(err => console.error('Failed to load the last 7 days of spending:', err));
   }, [expenses]);
   
+  const [categoryTotals, setCategoryTotals] = useState<Record<string, number>>({});
+
+  // This month's spending per category, summed in the database worker
+  useEffect(() => {
+    const now = new Date();
+    sumExpensesBy({ from: startOfMonth(now).toISOString(), to: endOfMonth(now).toISOString() }, 'category')
+      .then(totals => setCategoryTotals(Object.fromEntries(Object.entries(totals).map(([category, { ownTotal }]) => [category, ownTotal]))))
+      .catch(err => console.error('Failed to load spending by category:', err));
+  }, [expenses]);
+
+  // Subcategories are rolled up into their top-level category
+  const categoryData = useMemo(() => {
+    const totals = new Map<string, number>();
+    Object.entries(categoryTotals).forEach(([category, total]) => {
+      const name = topLevelCategoryName(category, categories);
+      totals.set(name, (totals.get(name) ?? 0) + total);
+    });
+    return Array.from(totals, ([name, total]) => ({ name, total, color: getCategoryColor(name, categories) }))
+      .filter(slice => slice.total > 0)
+      .sort((a, b) => b.total - a.total);
+  }, [categoryTotals, categories]);
+
   if (error) {
     return (
       <div className="flex h-[80vh] flex-col items-center justify-center gap-4 text-center">
@@ -178,7 +370,7 @@ export default function DashboardPage() {
                     recentExpenses.map((expense) => (
                       <TableRow key={expense.id}>
                         <TableCell className="font-medium">{expense.title}</TableCell>
-                        <TableCell className="hidden sm:table-cell"><Badge variant="outline">{expense.category}</Badge></TableCell>
+                        <TableCell className="hidden sm:table-cell"><CategoryBadge name={expense.category} categories={categories} /></TableCell>
                         <TableCell className="hidden md:table-cell">{format(new Date(expense.date), 'MMM d, yyyy')}</TableCell>
                         <TableCell className="text-right font-mono">
                           {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(expense.amount)}
@@ -195,9 +387,18 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
           <Last7DaysChart loading={loading} chartData={chartData} />
+          <CategorySpendingChart loading={loading} data={categoryData} />
         </div>
         
         <div className="space-y-8">
+          <CashFlowCard
+            loading={loading}
+            income={summaries.income}
+            expenses={summaries}
+            net={summaries.net}
+            savingsRate={summaries.savingsRate}
+          />
+
           <Card>
             <CardHeader>
               <CardTitle>Monthly Budget</CardTitle>
@@ -217,6 +418,8 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          <BudgetBreakdownCard loading={loading} statuses={budgetStatuses} categories={categories} />
+
           <Card>
             <CardHeader>
               <CardTitle>Upcoming Reminder</CardTitle>
@@ -232,6 +435,7 @@ export default function DashboardPage() {
                     <div>
                       <p className="font-medium">{upcomingReminder.title}</p>
                       <p className="text-sm text-muted-foreground">{format(new Date(upcomingReminder.date), 'MMM d, yyyy')}</p>
+                      {billStatus(upcomingReminder) === 'overdue' && <p className="text-sm font-medium text-destructive">Overdue</p>}
                     </div>
                 ) : (
                   <p className="text-sm text-center text-muted-foreground">No upcoming reminders.</p>
@@ -0,0 +1,368 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, Loader2, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  addRecurringExpense,
+  deleteRecurringExpense,
+  getCategories,
+  getRecurringExpenses,
+  updateRecurringExpense,
+  dbEvents,
+} from '@/lib/db';
+import { describeSchedule, nextOccurrence, projectedMonthlyCost, projectedYearlyCost } from '@/lib/recurrence';
+import type { Category, RecurringExpense } from '@/lib/types';
+import { CategoryBadge, CategorySelectItems } from '@/components/category-badge';
+import { useToast } from '@/hooks/use-toast';
+
+const recurringSchema = z
+  .object({
+    title: z.string().min(2, { message: 'Title must be at least 2 characters.' }),
+    amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+    category: z.string().min(1, { message: 'Please select a category.' }),
+    paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly', 'custom']),
+    interval: z.coerce.number().int().min(1, { message: 'Interval must be at least 1.' }),
+    startDate: z.date({ required_error: 'A start date is required.' }),
+    endDate: z.date().optional(),
+  })
+  .refine(values => !values.endDate || values.endDate >= values.startDate, {
+    message: 'End date must be after the start date.',
+    path: ['endDate'],
+  });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+function DatePickerField({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value?: Date;
+  onChange: (date?: Date) => void;
+  placeholder: string;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button variant="outline" className={cn('w-full pl-3 text-left font-normal', !value && 'text-muted-foreground')}>
+            {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          onSelect={(date) => {
+            onChange(date);
+            setOpen(false);
+          }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function RecurringExpensesPage() {
+  const [rules, setRules] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof recurringSchema>>({
+    resolver: zodResolver(recurringSchema),
+    defaultValues: {
+      title: '',
+      category: '',
+      paymentMode: 'Card',
+      frequency: 'monthly',
+      interval: 1,
+    },
+  });
+  const frequency = form.watch('frequency');
+
+  const fetchData = useCallback(async () => {
+    const [fetchedRules, fetchedCategories] = await Promise.all([getRecurringExpenses(), getCategories()]);
+    setRules(fetchedRules);
+    setCategories(fetchedCategories);
+    if (!form.getValues('category') && fetchedCategories.length > 0) {
+      form.setValue('category', fetchedCategories[0].name);
+    }
+    setLoading(false);
+  }, [form]);
+
+  useEffect(() => {
+    fetchData();
+    dbEvents.addEventListener('dataChanged', fetchData);
+    return () => dbEvents.removeEventListener('dataChanged', fetchData);
+  }, [fetchData]);
+
+  const activeRules = useMemo(() => rules.filter(rule => rule.active), [rules]);
+  const totals = useMemo(() => ({
+    monthly: activeRules.reduce((sum, rule) => sum + projectedMonthlyCost(rule), 0),
+    yearly: activeRules.reduce((sum, rule) => sum + projectedYearlyCost(rule), 0),
+  }), [activeRules]);
+
+  const handleAddRule = async (values: z.infer<typeof recurringSchema>) => {
+    try {
+      await addRecurringExpense({
+        ...values,
+        startDate: values.startDate.toISOString(),
+        endDate: values.endDate?.toISOString(),
+        active: true,
+      });
+      toast({ title: 'Recurring expense added!' });
+      form.reset({ ...form.getValues(), title: '', amount: undefined, startDate: undefined, endDate: undefined });
+    } catch (error) {
+      toast({ title: 'Failed to add recurring expense.', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleActive = async (rule: RecurringExpense, active: boolean) => {
+    try {
+      await updateRecurringExpense({ ...rule, active });
+    } catch (error) {
+      toast({ title: 'Failed to update recurring expense.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteRule = async (id: number) => {
+    try {
+      await deleteRecurringExpense(id);
+      toast({ title: 'Recurring expense deleted.' });
+    } catch (error) {
+      toast({ title: 'Failed to delete recurring expense.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Recurring Expenses</h1>
+        <p className="text-muted-foreground">Subscriptions and bills that are added to your expenses automatically.</p>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Projected Monthly Cost</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.monthly)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Projected Yearly Cost</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.yearly)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Recurring Expense</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleAddRule)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl><Input placeholder="e.g., Netflix" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount</FormLabel>
+                        <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <CategorySelectItems categories={categories} current={field.value} />
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="paymentMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payment Mode</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Select a payment mode" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="Card">Card</SelectItem>
+                            <SelectItem value="Cash">Cash</SelectItem>
+                            <SelectItem value="Online">Online</SelectItem>
+                            <SelectItem value="Other">Other</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="frequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeats</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="daily">Daily</SelectItem>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                            <SelectItem value="monthly">Monthly</SelectItem>
+                            <SelectItem value="yearly">Yearly</SelectItem>
+                            <SelectItem value="custom">Custom (days)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="interval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{frequency === 'custom' ? 'Every N days' : 'Repeat every'}</FormLabel>
+                        <FormControl><Input type="number" min={1} step={1} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Start Date</FormLabel>
+                        <DatePickerField value={field.value} onChange={field.onChange} placeholder="Pick a date" />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>End Date (optional)</FormLabel>
+                        <DatePickerField value={field.value} onChange={field.onChange} placeholder="No end date" />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Recurring Expense
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscriptions</CardTitle>
+            <CardDescription>Paused rules stop creating expenses and are excluded from the projections.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+              </div>
+            ) : rules.length > 0 ? (
+              <ul className="space-y-3">
+                {rules.map(rule => {
+                  const next = rule.active ? nextOccurrence(rule) : null;
+                  return (
+                    <li key={rule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+                      <div className="flex items-center gap-4">
+                        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+                          <Repeat className="h-5 w-5" />
+                        </div>
+                        <div>
+                          <p className="font-medium">
+                            {rule.title} <CategoryBadge name={rule.category} categories={categories} className="ml-1" />
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatCurrency(rule.amount)} · {describeSchedule(rule)}
+                            {next ? ` · Next: ${format(next, 'PPP')}` : rule.active ? ' · Ended' : ' · Paused'}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatCurrency(projectedMonthlyCost(rule))}/month · {formatCurrency(projectedYearlyCost(rule))}/year
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4 self-end sm:self-auto">
+                        <Switch checked={rule.active} onCheckedChange={(checked) => handleToggleActive(rule, checked)} aria-label="Active" />
+                        <Button variant="ghost" size="icon" onClick={() => rule.id && handleDeleteRule(rule.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                <p className="text-muted-foreground">No recurring expenses yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
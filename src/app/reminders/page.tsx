@@ -1,96 +1,118 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Suspense, useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { addReminder, getReminders, deleteReminder } from '@/lib/db';
-import type { Reminder } from '@/lib/types';
+import { addReminder, getReminders, deleteReminder, markReminderPaid, dbEvents, getScheduledNotifications, getCategories, getAccounts, getSettings } from '@/lib/db';
+import { DEFAULT_DUE_TIME, DEFAULT_LEAD_TIMES, afterQuietHours, atTimeOfDay, billFrequencyLabels, billStatus, billStatusLabels, describeLeadTime, leadTimeOptions, requestReminderCheck } from '@/lib/reminders';
+import { defaultAccountIdFor } from '@/lib/accounts';
+import type { Account, BillStatus, Category, PaymentMode, QuietHours, Reminder, ScheduledNotification } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CategorySelectItems } from '@/components/category-badge';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon, Trash2, Bell, BellOff, Loader2 } from 'lucide-react';
+import { Calendar as CalendarIcon, Trash2, Bell, BellOff, Loader2, CheckCircle2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 const reminderSchema = z.object({
   title: z.string().min(2, { message: 'Title must be at least 2 characters.' }),
   date: z.date({ required_error: 'A date is required.' }),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Pick a time.' }),
+  // Left empty for a plain reminder
+  amount: z.coerce.number().min(0, { message: 'Amount cannot be negative.' }).optional(),
+  category: z.string().optional(),
+  paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+  accountId: z.number().optional(),
+  repeats: z.enum(['never', 'monthly', 'quarterly', 'yearly']),
+  notifyBefore: z.array(z.number()),
 });
 
-async function scheduleReminderNotifications(title: string, date: Date) {
-    if (typeof window !== 'undefined' && 'serviceWorker' in navigator && Notification.permission === 'granted') {
-        const registration = await navigator.serviceWorker.ready;
-        // Immediate notification for testing
-        registration.active?.postMessage({
-            type: 'SCHEDULE_REMINDER',
-            payload: {
-                title: `Reminder Added: ${title}`,
-                options: {
-                    body: `Due: ${format(date, 'PPP')}`,
-                },
-                schedule: { at: Date.now() + 1000 } // Schedule for 1 second in the future for "instant" feel
-            }
-        });
+const statusVariants: Record<BillStatus, 'secondary' | 'outline' | 'destructive'> = {
+  paid: 'secondary',
+  unpaid: 'outline',
+  overdue: 'destructive',
+};
 
-        // Schedule for one day before
-        const oneDayBefore = new Date(date.getTime() - 24 * 60 * 60 * 1000);
-        if (oneDayBefore > new Date()) {
-          registration.active?.postMessage({
-              type: 'SCHEDULE_REMINDER',
-              payload: {
-                  title: `Upcoming: ${title}`,
-                  options: {
-                      body: `Due tomorrow.`,
-                  },
-                  schedule: { at: oneDayBefore.getTime() }
-              }
-          });
-        }
-        
-        // Schedule for the due date
-        registration.active?.postMessage({
-            type: 'SCHEDULE_REMINDER',
-            payload: {
-                title: `Due Today: ${title}`,
-                options: {
-                    body: `Payment is due today.`,
-                },
-                schedule: { at: date.getTime() }
-            }
-        });
-    }
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+// Amount, schedule and last payment of a bill, e.g. "₹1,200.00 · Monthly · Last paid Mar 3, 2024"
+function describeBill(reminder: Reminder): string {
+  return [
+    reminder.amount !== undefined && formatCurrency(reminder.amount),
+    reminder.recurrence && billFrequencyLabels[reminder.recurrence.frequency],
+    reminder.paidAt && `${reminder.recurrence ? 'Last paid' : 'Paid'} ${format(new Date(reminder.paidAt), 'PPP')}`,
+  ].filter(Boolean).join(' · ');
 }
 
-export default function RemindersPage() {
+// The next notification still to come for a reminder, after quiet hours, or else the last one shown
+function notificationStatus(notifications: ScheduledNotification[], quietHours?: QuietHours): string {
+  const pending = notifications.filter(n => n.status === 'pending').sort((a, b) => a.at.localeCompare(b.at));
+  if (pending.length > 0) {
+    return `Notification on ${format(afterQuietHours(new Date(pending[0].at), quietHours), 'PPP p')}`;
+  }
+  const delivered = notifications.filter(n => n.deliveredAt).sort((a, b) => b.deliveredAt!.localeCompare(a.deliveredAt!));
+  return delivered.length > 0 ? `Notified ${format(new Date(delivered[0].deliveredAt!), 'PPP p')}` : 'No notifications scheduled';
+}
+
+function RemindersView() {
   const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [notifications, setNotifications] = useState<ScheduledNotification[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [quietHours, setQuietHours] = useState<QuietHours>();
   const [loading, setLoading] = useState(true);
   const [notificationPermission, setNotificationPermission] = useState('default');
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const handledPayment = useRef<string | null>(null);
 
   const form = useForm<z.infer<typeof reminderSchema>>({
     resolver: zodResolver(reminderSchema),
-    defaultValues: { title: '' },
+    defaultValues: { title: '', category: '', paymentMode: 'Card', accountId: defaultAccountIdFor('Card'), repeats: 'never', notifyBefore: DEFAULT_LEAD_TIMES, time: DEFAULT_DUE_TIME },
   });
 
   const fetchReminders = useCallback(async () => {
-    setLoading(true);
-    const fetchedReminders = await getReminders();
+    const [fetchedReminders, fetchedNotifications, fetchedCategories, fetchedAccounts, fetchedSettings] = await Promise.all([
+      getReminders(),
+      getScheduledNotifications(),
+      getCategories(),
+      getAccounts(),
+      getSettings(),
+    ]);
     setReminders(fetchedReminders.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
+    setNotifications(fetchedNotifications);
+    setCategories(fetchedCategories);
+    setAccounts(fetchedAccounts.filter(account => !account.archived));
+    setQuietHours(fetchedSettings?.quietHours);
+    if (!form.getValues('category') && fetchedCategories.length > 0) {
+      form.setValue('category', fetchedCategories[0].name);
+    }
     setLoading(false);
-  }, []);
+  }, [form]);
 
   useEffect(() => {
     if ('Notification' in window) {
       setNotificationPermission(Notification.permission);
     }
     fetchReminders();
+
+    // Picks up undo, redo, restores from the Trash and notifications the service worker delivered
+    dbEvents.addEventListener('dataChanged', fetchReminders);
+    return () => dbEvents.removeEventListener('dataChanged', fetchReminders);
   }, [fetchReminders]);
 
   const requestNotificationPermission = async () => {
@@ -102,6 +124,8 @@ export default function RemindersPage() {
     setNotificationPermission(permission);
     if (permission === 'granted') {
       toast({ title: 'Notifications enabled!' });
+      // Notifications that were waiting for permission can be shown now
+      requestReminderCheck().catch((error) => console.error('Failed to check reminder notifications:', error));
     } else {
       toast({ title: 'Notifications were not enabled.', variant: 'destructive' });
     }
@@ -109,29 +133,53 @@ export default function RemindersPage() {
 
   const handleAddReminder = async (values: z.infer<typeof reminderSchema>) => {
     try {
+      // Without an amount there is no expense to record, so it stays a plain reminder
+      const bill = values.amount ? { amount: values.amount, category: values.category, paymentMode: values.paymentMode, accountId: values.accountId } : {};
+      const due = atTimeOfDay(values.date, values.time);
       const newReminder: Omit<Reminder, 'id'> = {
         title: values.title,
-        date: values.date.toISOString(),
+        date: due.toISOString(),
+        ...bill,
+        recurrence: values.repeats === 'never' ? undefined : { frequency: values.repeats, dayOfMonth: due.getDate() },
+        notifyBefore: values.notifyBefore,
       };
       await addReminder(newReminder);
       toast({ title: 'Reminder added and scheduled!' });
-      
-      if (notificationPermission === 'granted') {
-        await scheduleReminderNotifications(values.title, values.date);
-      }
-      
-      form.reset({ title: '', date: undefined });
-      fetchReminders();
+      form.reset({ ...form.getValues(), title: '', date: undefined, amount: undefined, repeats: 'never' });
     } catch (error) {
       toast({ title: 'Failed to add reminder.', variant: 'destructive' });
     }
   };
 
+  const handleMarkPaid = useCallback(async (reminder: Reminder) => {
+    try {
+      await markReminderPaid(reminder.id!);
+      toast({
+        title: reminder.amount !== undefined ? 'Bill paid and added to your expenses.' : 'Reminder marked as paid.',
+        description: reminder.recurrence ? 'Moved on to the next due date.' : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Failed to mark reminder as paid.', variant: 'destructive' });
+    }
+  }, [toast]);
+
+  // Set by the "Mark paid" action of a reminder notification. The ref keeps a recurring
+  // bill from being paid twice when the effect runs again.
+  const reminderToPay = searchParams.get('markPaid');
+  useEffect(() => {
+    if (!reminderToPay || handledPayment.current === reminderToPay) return;
+    handledPayment.current = reminderToPay;
+    router.replace('/reminders');
+    getReminders().then(all => {
+      const reminder = all.find(r => r.id === Number(reminderToPay));
+      if (reminder && billStatus(reminder) !== 'paid') handleMarkPaid(reminder);
+    });
+  }, [reminderToPay, router, handleMarkPaid]);
+
   const handleDeleteReminder = async (id: number) => {
     try {
       await deleteReminder(id);
-      toast({ title: 'Reminder deleted.' });
-      fetchReminders();
+      toast({ title: 'Reminder moved to the Trash.' });
     } catch (error) {
       toast({ title: 'Failed to delete reminder.', variant: 'destructive' });
     }
@@ -163,12 +211,13 @@ export default function RemindersPage() {
             </CardHeader>
             <CardContent>
               <Form {...form}>
-                <form onSubmit={form.handleSubmit(handleAddReminder)} className="flex flex-col sm:flex-row items-end gap-4">
+                <form onSubmit={form.handleSubmit(handleAddReminder)} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <FormField
                       control={form.control}
                       name="title"
                       render={({ field }) => (
-                        <FormItem className="flex-grow w-full">
+                        <FormItem>
                           <FormLabel>Title</FormLabel>
                           <FormControl><Input placeholder="e.g., Electricity Bill" {...field} /></FormControl>
                           <FormMessage />
@@ -179,12 +228,12 @@ export default function RemindersPage() {
                         control={form.control}
                         name="date"
                         render={({ field }) => (
-                        <FormItem className="flex-grow w-full sm:w-auto">
+                        <FormItem className="flex flex-col">
                             <FormLabel>Due Date</FormLabel>
                             <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
                             <PopoverTrigger asChild>
                                 <FormControl>
-                                <Button variant={'outline'} className={cn('w-full sm:w-[240px] pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}>
+                                <Button variant={'outline'} className={cn('w-full pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}>
                                     {field.value ? format(field.value, 'PPP') : <span>Pick a date</span>}
                                     <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
                                 </Button>
@@ -206,7 +255,144 @@ export default function RemindersPage() {
                         </FormItem>
                         )}
                     />
-                  <Button type="submit" className="w-full sm:w-auto" disabled={form.formState.isSubmitting}>
+                    <FormField
+                      control={form.control}
+                      name="time"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Due Time</FormLabel>
+                          <FormControl><Input type="time" {...field} /></FormControl>
+                          <FormDescription>Notifications count back from this time.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="amount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Amount (optional)</FormLabel>
+                          <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormDescription>Marking the bill paid adds an expense for this amount.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="repeats"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeats</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="never">Never</SelectItem>
+                              <SelectItem value="monthly">Monthly</SelectItem>
+                              <SelectItem value="quarterly">Quarterly</SelectItem>
+                              <SelectItem value="yearly">Yearly</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>Repeats on the same day of the month as the due date.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="notifyBefore"
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>Notify Me</FormLabel>
+                          <div className="flex flex-wrap gap-x-6 gap-y-2">
+                            {leadTimeOptions.map(minutes => (
+                              <label key={minutes} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={field.value.includes(minutes)}
+                                  onCheckedChange={(checked) => field.onChange(checked ? [...field.value, minutes] : field.value.filter(m => m !== minutes))}
+                                />
+                                {describeLeadTime(minutes)}
+                              </label>
+                            ))}
+                          </div>
+                          <FormDescription>Notifications due during quiet hours wait until they end.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="category"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Category</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <CategorySelectItems categories={categories} current={field.value} />
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="paymentMode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Payment Mode</FormLabel>
+                          <Select
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              // Follow the payment mode until the user picks an account themselves
+                              if (!form.getFieldState('accountId').isDirty) {
+                                form.setValue('accountId', defaultAccountIdFor(value as PaymentMode));
+                              }
+                            }}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select a payment mode" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="Card">Card</SelectItem>
+                              <SelectItem value="Cash">Cash</SelectItem>
+                              <SelectItem value="Online">Online</SelectItem>
+                              <SelectItem value="Other">Other</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="accountId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Account</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {accounts.map(account => (
+                                <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
                     {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     Add Reminder
                   </Button>
@@ -217,8 +403,8 @@ export default function RemindersPage() {
 
         <Card>
             <CardHeader>
-              <CardTitle>Upcoming Reminders</CardTitle>
-              <CardDescription>A list of your scheduled reminders.</CardDescription>
+              <CardTitle>Bills & Reminders</CardTitle>
+              <CardDescription>Overdue bills stay here until you mark them paid or delete them.</CardDescription>
             </CardHeader>
             <CardContent>
               {loading ? (
@@ -229,24 +415,39 @@ export default function RemindersPage() {
                 </div>
               ) : reminders.length > 0 ? (
                 <ul className="space-y-3">
-                  {reminders.map((reminder) => (
-                    <li key={reminder.id} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-4">
-                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10 text-primary">
-                          <Bell className="h-5 w-5"/>
+                  {reminders.map((reminder) => {
+                    const status = billStatus(reminder);
+                    const details = describeBill(reminder);
+                    return (
+                      <li key={reminder.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+                        <div className="flex items-center gap-4">
+                          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+                            <Bell className="h-5 w-5"/>
+                          </div>
+                          <div>
+                              <p className="font-medium">
+                                {reminder.title} <Badge variant={statusVariants[status]} className="ml-1">{billStatusLabels[status]}</Badge>
+                              </p>
+                              <p className="text-sm text-muted-foreground">Due: {format(new Date(reminder.date), 'PPP p')}</p>
+                              {details && <p className="text-sm text-muted-foreground">{details}</p>}
+                              {status !== 'paid' && (
+                                <p className="text-xs text-muted-foreground">{notificationStatus(notifications.filter(n => n.reminderId === reminder.id && n.dueDate === reminder.date), quietHours)}</p>
+                              )}
+                          </div>
                         </div>
-                        <div>
-                            <p className="font-medium">{reminder.title}</p>
-                            <p className="text-sm text-muted-foreground">Due: {format(new Date(reminder.date), 'PPP')}</p>
+                        <div className="flex items-center gap-2 self-end sm:self-auto">
+                          {status !== 'paid' && (
+                            <Button variant="outline" size="sm" onClick={() => handleMarkPaid(reminder)}>
+                              <CheckCircle2 className="mr-2 h-4 w-4" /> Mark paid
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" onClick={() => reminder.id && handleDeleteReminder(reminder.id)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
                         </div>
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <Button variant="ghost" size="icon" onClick={() => reminder.id && handleDeleteReminder(reminder.id)}>
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </div>
-                    </li>
-                  ))}
+                      </li>
+                    );
+                  })}
                 </ul>
               ) : (
                  <div className="text-center py-10 border-2 border-dashed rounded-lg">
@@ -259,3 +460,12 @@ export default function RemindersPage() {
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function RemindersPage() {
+  return (
+    <Suspense>
+      <RemindersView />
+    </Suspense>
+  );
+}
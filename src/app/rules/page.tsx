@@ -0,0 +1,528 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useFieldArray, useForm, type UseFormReturn } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Trash2, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  addRule,
+  applyRulesToExpenses,
+  deleteRule,
+  getCategories,
+  getExpenses,
+  getRules,
+  reorderRules,
+  updateRule,
+  dbEvents,
+} from '@/lib/db';
+import {
+  applyRules,
+  describeActions,
+  describeCondition,
+  findMatchingRule,
+  matchesRule,
+  operatorsByField,
+  ruleFieldLabels,
+  ruleOperatorLabels,
+  validateCondition,
+} from '@/lib/rules';
+import type { Category, Expense, ExpenseRule, PaymentMode, RuleField } from '@/lib/types';
+import { CategorySelectItems } from '@/components/category-badge';
+import { useToast } from '@/hooks/use-toast';
+
+const NONE = 'none';
+const PREVIEW_LIMIT = 50;
+const paymentModes: PaymentMode[] = ['Card', 'Cash', 'Online', 'Other'];
+
+const conditionSchema = z
+  .object({
+    field: z.enum(['title', 'amount', 'paymentMode']),
+    operator: z.enum(['contains', 'startsWith', 'equals', 'matches', 'gt', 'lt']),
+    value: z.string(),
+  })
+  .superRefine((condition, ctx) => {
+    const error = validateCondition(condition);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['value'] });
+    }
+  });
+
+const ruleSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: 'Give the rule a name.' }),
+    conditions: z.array(conditionSchema).min(1, { message: 'Add at least one condition.' }),
+    category: z.string(),
+    paymentMode: z.string(),
+  })
+  .refine(values => values.category !== NONE || values.paymentMode !== NONE, {
+    message: 'Choose a category or payment mode to set.',
+    path: ['category'],
+  });
+
+type RuleFormValues = z.infer<typeof ruleSchema>;
+
+const emptyRule: RuleFormValues = {
+  name: '',
+  conditions: [{ field: 'title', operator: 'contains', value: '' }],
+  category: NONE,
+  paymentMode: NONE,
+};
+
+const toFormValues = (rule: ExpenseRule): RuleFormValues => ({
+  name: rule.name,
+  conditions: rule.conditions,
+  category: rule.actions.category ?? NONE,
+  paymentMode: rule.actions.paymentMode ?? NONE,
+});
+
+const toActions = (values: RuleFormValues): ExpenseRule['actions'] => ({
+  category: values.category === NONE ? undefined : values.category,
+  paymentMode: values.paymentMode === NONE ? undefined : (values.paymentMode as PaymentMode),
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+function ConditionRow({ form, index, onRemove }: { form: UseFormReturn<RuleFormValues>; index: number; onRemove?: () => void }) {
+  const field = form.watch(`conditions.${index}.field`);
+
+  const handleFieldChange = (value: RuleField) => {
+    form.setValue(`conditions.${index}.field`, value);
+    form.setValue(`conditions.${index}.operator`, operatorsByField[value][0]);
+    form.setValue(`conditions.${index}.value`, value === 'paymentMode' ? 'Card' : '');
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_auto] sm:grid-cols-[10rem_10rem_1fr_auto] gap-2 items-start">
+      <Select value={field} onValueChange={value => handleFieldChange(value as RuleField)}>
+        <SelectTrigger className="col-span-2 sm:col-span-1"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ruleFieldLabels) as RuleField[]).map(key => (
+            <SelectItem key={key} value={key}>{ruleFieldLabels[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <FormField
+        control={form.control}
+        name={`conditions.${index}.operator`}
+        render={({ field: operatorField }) => (
+          <FormItem className="col-span-2 sm:col-span-1">
+            <Select onValueChange={operatorField.onChange} value={operatorField.value}>
+              <FormControl>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {operatorsByField[field].map(operator => (
+                  <SelectItem key={operator} value={operator}>{ruleOperatorLabels[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`conditions.${index}.value`}
+        render={({ field: valueField }) => (
+          <FormItem>
+            {field === 'paymentMode' ? (
+              <Select onValueChange={valueField.onChange} value={valueField.value}>
+                <FormControl>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {paymentModes.map(mode => (
+                    <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <FormControl>
+                <Input
+                  type={field === 'amount' ? 'number' : 'text'}
+                  step={field === 'amount' ? '0.01' : undefined}
+                  placeholder={field === 'amount' ? '0.00' : 'e.g., Swiggy or /rent/i'}
+                  {...valueField}
+                />
+              </FormControl>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <Button type="button" variant="ghost" size="icon" onClick={onRemove} disabled={!onRemove} aria-label="Remove condition">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+// Shows what a rule being edited would do to the expenses already stored. Expenses that a
+// higher priority rule matches first are listed but left alone.
+function RulePreview({ values, editing, rules, expenses }: {
+  values: RuleFormValues;
+  editing: ExpenseRule | null;
+  rules: ExpenseRule[];
+  expenses: Expense[];
+}) {
+  const isValid = values.conditions.length > 0 && values.conditions.every(condition => !validateCondition(condition));
+  const draft: ExpenseRule = { name: values.name, priority: 0, enabled: true, conditions: values.conditions, actions: toActions(values) };
+  const earlierRules = rules.filter(rule => rule.id !== editing?.id && (!editing || rule.priority < editing.priority));
+
+  const matches = isValid
+    ? expenses
+      .filter(expense => matchesRule(expense, draft))
+      .map(expense => {
+        const earlierRule = findMatchingRule(expense, earlierRules);
+        return { expense, earlierRule, result: earlierRule ? expense : applyRules(expense, [draft]) };
+      })
+    : [];
+  const changing = matches.filter(match => match.result !== match.expense).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Against Existing Expenses</CardTitle>
+        <CardDescription>
+          {isValid
+            ? `${matches.length} expenses match · ${changing} would change`
+            : 'Complete the conditions above to see which expenses match.'}
+        </CardDescription>
+      </CardHeader>
+      {matches.length > 0 && (
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Payment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.slice(0, PREVIEW_LIMIT).map(({ expense, earlierRule, result }) => (
+                  <TableRow key={expense.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(expense.date), 'PP')}</TableCell>
+                    <TableCell>
+                      {expense.title}
+                      {earlierRule && <Badge variant="outline" className="ml-2">Handled by {earlierRule.name}</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(expense.amount)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {result.category === expense.category ? expense.category : `${expense.category} → ${result.category}`}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {result.paymentMode === expense.paymentMode ? expense.paymentMode : `${expense.paymentMode} → ${result.paymentMode}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {matches.length > PREVIEW_LIMIT && (
+            <p className="mt-2 text-sm text-muted-foreground">And {matches.length - PREVIEW_LIMIT} more.</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function RulesPage() {
+  const [rules, setRules] = useState<ExpenseRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [editing, setEditing] = useState<ExpenseRule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: emptyRule,
+  });
+  const conditions = useFieldArray({ control: form.control, name: 'conditions' });
+  const values = form.watch();
+
+  const fetchData = useCallback(async () => {
+    const [fetchedRules, fetchedCategories, fetchedExpenses] = await Promise.all([getRules(), getCategories(), getExpenses()]);
+    setRules(fetchedRules);
+    setCategories(fetchedCategories);
+    setExpenses(fetchedExpenses);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+    dbEvents.addEventListener('dataChanged', fetchData);
+    return () => dbEvents.removeEventListener('dataChanged', fetchData);
+  }, [fetchData]);
+
+  const pendingChanges = useMemo(
+    () => expenses.filter(expense => applyRules(expense, rules) !== expense).length,
+    [expenses, rules]
+  );
+
+  const handleEdit = (rule: ExpenseRule) => {
+    setEditing(rule);
+    form.reset(toFormValues(rule));
+  };
+
+  const handleCancelEdit = () => {
+    setEditing(null);
+    form.reset(emptyRule);
+  };
+
+  const handleSaveRule = async (formValues: RuleFormValues) => {
+    const rule = { name: formValues.name.trim(), conditions: formValues.conditions, actions: toActions(formValues) };
+    try {
+      if (editing) {
+        await updateRule({ ...editing, ...rule });
+        toast({ title: 'Rule updated!' });
+      } else {
+        await addRule({ ...rule, enabled: true });
+        toast({ title: 'Rule added!' });
+      }
+      handleCancelEdit();
+    } catch (error) {
+      toast({ title: 'Failed to save rule.', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleEnabled = async (rule: ExpenseRule, enabled: boolean) => {
+    try {
+      await updateRule({ ...rule, enabled });
+    } catch (error) {
+      toast({ title: 'Failed to update rule.', variant: 'destructive' });
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id!);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      await reorderRules(ids);
+    } catch (error) {
+      toast({ title: 'Failed to reorder rules.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteRule = async (id: number) => {
+    try {
+      await deleteRule(id);
+      if (editing?.id === id) handleCancelEdit();
+      toast({ title: 'Rule deleted.' });
+    } catch (error) {
+      toast({ title: 'Failed to delete rule.', variant: 'destructive' });
+    }
+  };
+
+  const handleApplyToExisting = async () => {
+    setIsApplying(true);
+    try {
+      const changed = await applyRulesToExpenses();
+      toast({ title: 'Rules applied', description: `${changed} expenses were updated.` });
+    } catch (error) {
+      toast({ title: 'Failed to apply rules.', variant: 'destructive' });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Rules</h1>
+          <p className="text-muted-foreground">Fill in the category and payment mode of new and imported expenses automatically.</p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={isApplying || pendingChanges === 0}>
+              {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+              Apply to Existing Expenses
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Apply rules to existing expenses?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingChanges} expenses will have their category or payment mode changed by your rules.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleApplyToExisting}>Apply</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing ? 'Edit Rule' : 'Add Rule'}</CardTitle>
+            <CardDescription>A rule applies when all of its conditions match.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSaveRule)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl><Input placeholder="e.g., Food delivery" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="space-y-2">
+                  <FormLabel>When</FormLabel>
+                  {conditions.fields.map((condition, index) => (
+                    <ConditionRow
+                      key={condition.id}
+                      form={form}
+                      index={index}
+                      onRemove={conditions.fields.length > 1 ? () => conditions.remove(index) : undefined}
+                    />
+                  ))}
+                  <Button type="button" variant="outline" size="sm" onClick={() => conditions.append({ field: 'title', operator: 'contains', value: '' })}>
+                    <Plus className="mr-2 h-4 w-4" /> Add Condition
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Set category to</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NONE}>Don&apos;t change</SelectItem>
+                            <CategorySelectItems categories={categories} current={field.value} />
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="paymentMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Set payment mode to</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NONE}>Don&apos;t change</SelectItem>
+                            {paymentModes.map(mode => (
+                              <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {editing ? 'Save Rule' : 'Add Rule'}
+                  </Button>
+                  {editing && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>Cancel</Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <RulePreview values={values} editing={editing} rules={rules} expenses={expenses} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Rules</CardTitle>
+            <CardDescription>Rules are tried from top to bottom and the first one that matches is applied.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+              </div>
+            ) : rules.length > 0 ? (
+              <ul className="space-y-3">
+                {rules.map((rule, index) => (
+                  <li key={rule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+                    <div>
+                      <p className="font-medium">
+                        {rule.name} {!rule.enabled && <Badge variant="outline" className="ml-1">Off</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {rule.conditions.map(describeCondition).join(' and ')} → {describeActions(rule)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 self-end sm:self-auto">
+                      <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggleEnabled(rule, checked)} aria-label="Enabled" className="mr-2" />
+                      <Button variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={index === 0} aria-label="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleMove(index, 1)} disabled={index === rules.length - 1} aria-label="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)} aria-label="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => rule.id && handleDeleteRule(rule.id)} aria-label="Delete">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                <p className="text-muted-foreground">No rules yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
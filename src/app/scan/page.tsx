@@ -6,30 +6,17 @@ import { useToast } from '@/hooks/use-toast';
 import { scanExpenses } from '@/ai/flows/scan-expenses-flow';
 import { scanDocumentForExpenses } from '@/ai/flows/scan-document-for-expenses';
 import { useExpenses } from '@/hooks/use-expenses';
-import { Loader2, Upload, Camera, Trash2, Calendar as CalendarIcon, IndianRupee, ImageUp, CircleX, RefreshCw } from 'lucide-react';
+import { Loader2, Upload, Camera, ImageUp, CircleX, RefreshCw } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import type { Expense } from '@/lib/types';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
-import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
-import { cn } from '@/lib/utils';
-import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Image from 'next/image';
-
-type EditableExpense = Omit<Expense, 'id'>;
-
-const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-        style: 'decimal',
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-    }).format(amount);
-};
+import { addAttachment, getRules } from '@/lib/db';
+import { buildAttachment, dataUrlToBlob } from '@/lib/attachments';
+import { applyRules } from '@/lib/rules';
+import { ExpenseReviewList, type EditableExpense } from '@/components/expense-review-list';
 
 export default function ExpenseScanner() {
   const { addMultipleExpenses, categories } = useExpenses();
@@ -39,10 +26,10 @@ export default function ExpenseScanner() {
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [imageName, setImageName] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
-  const [openDatePickerIndex, setOpenDatePickerIndex] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState('upload');
   const [scanMode, setScanMode] = useState('line-items');
 
@@ -113,6 +100,7 @@ export default function ExpenseScanner() {
       const reader = new FileReader();
       reader.onloadend = () => {
         setImagePreview(reader.result as string);
+        setImageName(file.name);
         setEditableExpenses([]);
       };
       reader.readAsDataURL(file);
@@ -139,6 +127,7 @@ export default function ExpenseScanner() {
         if (!result.expenses || result.expenses.length === 0) {
           toast({ title: 'No Expenses Found', description: 'The AI could not find any expenses in the document.' });
         } else {
+            const rules = await getRules();
             const otherCategory = categories.find(c => c.name === 'Other');
             const newEditableExpenses: EditableExpense[] = result.expenses.map(exp => {
                 const categoryExists = categories.some(c => c.name.toLowerCase() === (exp as any).category?.toLowerCase());
@@ -149,7 +138,7 @@ export default function ExpenseScanner() {
                     category: (exp as any).category && categoryExists ? (exp as any).category : (otherCategory?.name || 'Other'),
                     paymentMode: (exp as any).paymentMode || 'Other',
                 }
-            });
+            }).map(expense => applyRules(expense, rules));
             setEditableExpenses(newEditableExpenses);
         }
     } catch (error) {
@@ -170,6 +159,7 @@ export default function ExpenseScanner() {
         context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
         const dataUri = canvas.toDataURL('image/png');
         setImagePreview(dataUri);
+        setImageName(`Receipt ${format(new Date(), 'yyyy-MM-dd HHmm')}.png`);
         stopCamera();
         setEditableExpenses([]);
       }
@@ -191,7 +181,12 @@ export default function ExpenseScanner() {
     if (editableExpenses.length === 0) return;
     setIsSaving(true);
     try {
-      await addMultipleExpenses(editableExpenses);
+      const expenseIds = await addMultipleExpenses(editableExpenses, 'scan');
+      if (imagePreview) {
+        // Keep the scanned receipt, shared by every expense read from it
+        const blob = dataUrlToBlob(imagePreview);
+        await addAttachment(await buildAttachment(blob, imageName ?? 'Receipt', expenseIds));
+      }
       toast({ title: 'Success', description: `${editableExpenses.length} expenses have been added.` });
       router.push('/expenses');
     } catch (error) {
@@ -314,98 +309,7 @@ export default function ExpenseScanner() {
                         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
                     </div>
                 ) : editableExpenses.length > 0 ? (
-                  <Accordion type="multiple" className="w-full space-y-2">
-                    {editableExpenses.map((expense, index) => (
-                      <AccordionItem value={`item-${index}`} key={index} className="border rounded-md px-4">
-                        <AccordionTrigger>
-                            <div className="flex justify-between w-full pr-4">
-                                <span className="font-medium truncate max-w-[150px]">{expense.title}</span>
-                                <span className="flex items-center font-semibold shrink-0">
-                                    <IndianRupee className="h-4 w-4 mr-1" />
-                                    {formatCurrency(expense.amount)}
-                                </span>
-                            </div>
-                        </AccordionTrigger>
-                        <AccordionContent className="pt-2">
-                            <div className="space-y-4">
-                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                    <div className="space-y-2">
-                                        <Label htmlFor={`title-${index}`}>Title</Label>
-                                        <Input id={`title-${index}`} value={expense.title} onChange={(e) => handleExpenseChange(index, 'title', e.target.value)} />
-                                    </div>
-                                    <div className="space-y-2">
-                                        <Label htmlFor={`amount-${index}`}>Amount</Label>
-                                        <Input id={`amount-${index}`} type="number" value={expense.amount} onChange={(e) => handleExpenseChange(index, 'amount', parseFloat(e.target.value) || 0)} />
-                                    </div>
-                                </div>
-                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                    <div className="space-y-2">
-                                         <Label>Date</Label>
-                                        <Popover open={openDatePickerIndex === index} onOpenChange={(isOpen) => setOpenDatePickerIndex(isOpen ? index : null)}>
-                                            <PopoverTrigger asChild>
-                                                <Button
-                                                    variant="outline"
-                                                    className={cn('w-full justify-start text-left font-normal',!expense.date && 'text-muted-foreground')}
-                                                >
-                                                    <CalendarIcon className="mr-2 h-4 w-4" />
-                                                    {expense.date ? format(new Date(expense.date), 'PPP') : <span>Pick a date</span>}
-                                                </Button>
-                                            </PopoverTrigger>
-                                            <PopoverContent className="w-auto p-0">
-                                                <Calendar
-                                                    mode="single"
-                                                    selected={new Date(expense.date)}
-                                                    onSelect={(date) => {
-                                                        handleExpenseChange(index, 'date', date?.toISOString() || '');
-                                                        setOpenDatePickerIndex(null);
-                                                    }}
-                                                    initialFocus
-                                                />
-                                            </PopoverContent>
-                                        </Popover>
-                                    </div>
-                                    <div className="space-y-2">
-                                        <Label htmlFor={`category-${index}`}>Category</Label>
-                                        <Select value={expense.category} onValueChange={(value) => handleExpenseChange(index, 'category', value)}>
-                                            <SelectTrigger id={`category-${index}`}>
-                                                <SelectValue placeholder="Select a category" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                {categories.map((cat) => (
-                                                    <SelectItem key={cat.id} value={cat.name}>
-                                                        {cat.name}
-                                                    </SelectItem>
-                                                ))}
-                                            </SelectContent>
-                                        </Select>
-                                    </div>
-                                </div>
-                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                    <div className="space-y-2">
-                                        <Label>Payment Mode</Label>
-                                        <Select value={expense.paymentMode} onValueChange={(value: any) => handleExpenseChange(index, 'paymentMode', value)}>
-                                            <SelectTrigger>
-                                                <SelectValue placeholder="Select a mode" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                <SelectItem value="Cash">Cash</SelectItem>
-                                                <SelectItem value="Card">Card</SelectItem>
-                                                <SelectItem value="Online">Online</SelectItem>
-                                                <SelectItem value="Other">Other</SelectItem>
-                                            </SelectContent>
-                                        </Select>
-                                    </div>
-                                </div>
-                                 <div className="flex justify-end">
-                                    <Button variant="ghost" size="icon" onClick={() => removeExpense(index)}>
-                                        <Trash2 className="h-4 w-4 text-destructive" />
-                                    </Button>
-                                </div>
-                            </div>
-                        </AccordionContent>
-                      </AccordionItem>
-                    ))}
-                  </Accordion>
+                  <ExpenseReviewList expenses={editableExpenses} categories={categories} onChange={handleExpenseChange} onRemove={removeExpense} />
                 ) : (
                     <div className="flex flex-col items-center justify-center h-full text-center p-4 border-2 border-dashed rounded-md">
                          <p className="text-muted-foreground">Scanned expenses will appear here.</p>
@@ -1,7 +1,7 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -12,14 +12,22 @@ import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Badge } from '@/components/ui/badge';
-import { getSettings, updateSettings, getCategories, addCategory, deleteCategory, exportData, clearAllData, getExpenses } from '@/lib/db';
-import type { AppSettings, Category, Expense } from '@/lib/types';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSettings, updateSettings, getCategories, getIncomeCategories, addIncomeCategory, deleteIncomeCategory, getBudgets, saveBudget, deleteBudget, exportData, clearAllData, getExpenses, previewImport } from '@/lib/db';
+import { parseBackup, type BackupData, type BackupDiff } from '@/lib/backup';
+import type { AppSettings, Category, CategoryBudget, Expense, OperationProgress } from '@/lib/types';
+import { DEFAULT_THRESHOLDS, parseThresholds } from '@/lib/budgets';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Trash2, X } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import Link from 'next/link';
+import { ImportBackupDialog } from '@/components/import-backup-dialog';
+import { OperationProgressBar } from '@/components/operation-progress';
+import { CategoryManager } from '@/components/category-manager';
+import { CategoryBadge, CategorySelectItems } from '@/components/category-badge';
 
 // Extend jsPDF with autoTable
 declare module 'jspdf' {
@@ -33,16 +41,41 @@ const budgetSchema = z.object({
   monthlyBudget: z.coerce.number().min(0, { message: "Budget must be a positive number." }),
 });
 
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Enter a time such as 22:00.' });
+
+const quietHoursSchema = z
+  .object({
+    enabled: z.boolean(),
+    start: timeOfDay,
+    end: timeOfDay,
+  })
+  .refine(values => !values.enabled || values.start !== values.end, {
+    message: 'Quiet hours must end at a different time than they start.',
+    path: ['end'],
+  });
+
 const categorySchema = z.object({
   name: z.string().min(2, { message: "Category name must be at least 2 characters." }),
 });
 
-const defaultCategories = ['Groceries', 'Dining', 'Travel', 'Utilities', 'Shopping', 'Food', 'Medicine', 'Other'];
+const categoryBudgetSchema = z.object({
+  category: z.string().min(1, { message: "Please select a category." }),
+  amount: z.coerce.number().positive({ message: "Budget must be a positive number." }),
+  rollover: z.boolean(),
+  thresholds: z.string().refine(value => parseThresholds(value).length > 0, { message: "Enter at least one percentage, e.g. 80, 100." }),
+});
+
+const defaultIncomeCategories = ['Salary', 'Refund', 'Reimbursement', 'Other Income'];
 
 export default function SettingsPage() {
   const router = useRouter();
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<CategoryBudget[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ data: BackupData; diff: BackupDiff } | null>(null);
+  const [clearProgress, setClearProgress] = useState<OperationProgress | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   const budgetForm = useForm<z.infer<typeof budgetSchema>>({
@@ -52,19 +85,41 @@ export default function SettingsPage() {
     },
   });
 
-  const categoryForm = useForm<z.infer<typeof categorySchema>>({
+  const quietHoursForm = useForm<z.infer<typeof quietHoursSchema>>({
+    resolver: zodResolver(quietHoursSchema),
+    defaultValues: {
+      enabled: false,
+      start: '22:00',
+      end: '07:00',
+    },
+  });
+  const quietHoursEnabled = quietHoursForm.watch('enabled');
+
+  const incomeCategoryForm = useForm<z.infer<typeof categorySchema>>({
     resolver: zodResolver(categorySchema),
     defaultValues: {
       name: '',
     },
   });
 
+  const categoryBudgetForm = useForm<z.infer<typeof categoryBudgetSchema>>({
+    resolver: zodResolver(categoryBudgetSchema),
+    defaultValues: {
+      category: '',
+      rollover: false,
+      thresholds: DEFAULT_THRESHOLDS.join(', '),
+    },
+  });
+
   const fetchData = async () => {
-    const [fetchedSettings, fetchedCategories] = await Promise.all([getSettings(), getCategories()]);
+    const [fetchedSettings, fetchedCategories, fetchedIncomeCategories, fetchedBudgets] = await Promise.all([getSettings(), getCategories(), getIncomeCategories(), getBudgets()]);
+    setBudgets(fetchedBudgets);
     setSettings(fetchedSettings);
     setCategories(fetchedCategories);
+    setIncomeCategories(fetchedIncomeCategories);
     if (fetchedSettings) {
       budgetForm.reset({ monthlyBudget: fetchedSettings.monthlyBudget });
+      quietHoursForm.reset(fetchedSettings.quietHours ? { enabled: true, ...fetchedSettings.quietHours } : { enabled: false, start: '22:00', end: '07:00' });
     }
   };
 
@@ -83,28 +138,75 @@ export default function SettingsPage() {
     }
   };
 
-  const handleAddCategory = async (values: z.infer<typeof categorySchema>) => {
+  const handleUpdateQuietHours = async ({ enabled, start, end }: z.infer<typeof quietHoursSchema>) => {
+    try {
+      await updateSettings({ quietHours: enabled ? { start, end } : undefined });
+      toast({ title: enabled ? `Quiet hours set from ${start} to ${end}.` : 'Quiet hours turned off.' });
+      fetchData();
+    } catch (error) {
+      toast({ title: 'Failed to update quiet hours.', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveCategoryBudget = async (values: z.infer<typeof categoryBudgetSchema>) => {
     try {
-      await addCategory({ name: values.name });
-      toast({ title: 'Category added successfully!' });
-      categoryForm.reset({ name: '' });
+      const existing = budgets.find(b => b.category === values.category);
+      await saveBudget({
+        category: values.category,
+        amount: values.amount,
+        rollover: values.rollover,
+        thresholds: parseThresholds(values.thresholds),
+        startDate: existing?.startDate ?? new Date().toISOString(),
+      });
+      toast({ title: `Budget for ${values.category} saved!` });
+      categoryBudgetForm.reset({ category: '', amount: undefined, rollover: false, thresholds: DEFAULT_THRESHOLDS.join(', ') });
       fetchData();
     } catch (error) {
-        toast({ title: 'Category already exists or failed to add.', variant: 'destructive' });
+      toast({ title: 'Failed to save category budget.', variant: 'destructive' });
     }
   };
 
-  const handleDeleteCategory = async (id: number, name: string) => {
-    if (defaultCategories.includes(name)) {
-      toast({ title: 'Cannot delete default category.', variant: 'destructive'});
+  const handleEditCategoryBudget = (budget: CategoryBudget) => {
+    categoryBudgetForm.reset({
+      category: budget.category,
+      amount: budget.amount,
+      rollover: budget.rollover,
+      thresholds: budget.thresholds.join(', '),
+    });
+  };
+
+  const handleDeleteCategoryBudget = async (id: number) => {
+    try {
+      await deleteBudget(id);
+      toast({ title: 'Category budget removed.' });
+      fetchData();
+    } catch (error) {
+      toast({ title: 'Failed to remove category budget.', variant: 'destructive' });
+    }
+  };
+
+  const handleAddIncomeCategory = async (values: z.infer<typeof categorySchema>) => {
+    try {
+      await addIncomeCategory({ name: values.name });
+      toast({ title: 'Income category added successfully!' });
+      incomeCategoryForm.reset({ name: '' });
+      fetchData();
+    } catch (error) {
+        toast({ title: 'Income category already exists or failed to add.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteIncomeCategory = async (id: number, name: string) => {
+    if (defaultIncomeCategories.includes(name)) {
+      toast({ title: 'Cannot delete default income category.', variant: 'destructive'});
       return;
     }
     try {
-      await deleteCategory(id);
-      toast({ title: 'Category deleted.' });
+      await deleteIncomeCategory(id);
+      toast({ title: 'Income category deleted.' });
       fetchData();
     } catch (error) {
-      toast({ title: 'Failed to delete category.', variant: 'destructive' });
+      toast({ title: 'Failed to delete income category.', variant: 'destructive' });
     }
   };
 
@@ -122,6 +224,33 @@ export default function SettingsPage() {
     }
   };
   
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (error) {
+      toast({ title: 'Invalid backup file.', description: 'The file is not valid JSON.', variant: 'destructive' });
+      return;
+    }
+
+    const parsed = parseBackup(json);
+    if ('error' in parsed) {
+      toast({ title: 'Invalid backup file.', description: parsed.error, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const diff = await previewImport(parsed.data);
+      setPendingImport({ data: parsed.data, diff });
+    } catch (error) {
+      toast({ title: 'Failed to read backup.', variant: 'destructive' });
+    }
+  };
+  
   const handleExportPdf = async () => {
     try {
       const expenses = await getExpenses();
@@ -175,11 +304,13 @@ export default function SettingsPage() {
   
   const handleClearData = async () => {
     try {
-      await clearAllData();
+      await clearAllData(setClearProgress);
       toast({ title: 'All data has been cleared.' });
        // The useExpenses hook will automatically refetch data
     } catch (error) {
       toast({ title: 'Failed to clear data.', variant: 'destructive' });
+    } finally {
+      setClearProgress(null);
     }
   };
 
@@ -221,54 +352,194 @@ export default function SettingsPage() {
             </Form>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Quiet Hours</CardTitle>
+            <CardDescription>Reminder notifications that come due during quiet hours are held until they end.</CardDescription>
+          </CardHeader>
+          <Form {...quietHoursForm}>
+            <form onSubmit={quietHoursForm.handleSubmit(handleUpdateQuietHours)}>
+              <CardContent className="space-y-6">
+                <FormField
+                  control={quietHoursForm.control}
+                  name="enabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4">
+                      <div>
+                        <FormLabel>Hold notifications</FormLabel>
+                        <FormDescription>Times are in this device&apos;s time zone.</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={quietHoursForm.control}
+                    name="start"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl><Input type="time" disabled={!quietHoursEnabled} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={quietHoursForm.control}
+                    name="end"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Until</FormLabel>
+                        <FormControl><Input type="time" disabled={!quietHoursEnabled} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button type="submit" disabled={quietHoursForm.formState.isSubmitting}>
+                  {quietHoursForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Quiet Hours
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Category Budgets</CardTitle>
+            <CardDescription>Set a monthly limit per category and get alerted as you approach it.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {budgets.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {budgets.map(budget => (
+                  <li key={budget.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                    <button type="button" className="text-left" onClick={() => handleEditCategoryBudget(budget)}>
+                      <CategoryBadge name={budget.category} categories={categories} />
+                      <p className="text-muted-foreground">
+                        {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(budget.amount)}/month
+                        {budget.rollover ? ' · rollover' : ''} · alerts at {budget.thresholds.map(t => `${t}%`).join(', ')}
+                      </p>
+                    </button>
+                    <Button variant="ghost" size="icon" onClick={() => budget.id && handleDeleteCategoryBudget(budget.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Form {...categoryBudgetForm}>
+              <form onSubmit={categoryBudgetForm.handleSubmit(handleSaveCategoryBudget)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={categoryBudgetForm.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <CategorySelectItems categories={categories} current={field.value} />
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={categoryBudgetForm.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Monthly Limit (INR)</FormLabel>
+                        <FormControl><Input type="number" placeholder="e.g., 5000" {...field} value={field.value ?? ''} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={categoryBudgetForm.control}
+                    name="thresholds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Alert Thresholds (%)</FormLabel>
+                        <FormControl><Input placeholder="80, 100" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={categoryBudgetForm.control}
+                    name="rollover"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between gap-4 rounded-md border px-3 py-2 sm:mt-8">
+                        <FormLabel className="font-normal">Roll over unspent amounts</FormLabel>
+                        <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <Button type="submit" variant="outline" disabled={categoryBudgetForm.formState.isSubmitting}>
+                  {categoryBudgetForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Category Budget
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Expense Categories</CardTitle>
-            <CardDescription>Add or remove custom categories for your expenses.</CardDescription>
+            <CardDescription>Group categories under a parent, pick their colors and icons, and archive or merge the ones you no longer use.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryManager categories={categories} onChange={fetchData} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Income Categories</CardTitle>
+            <CardDescription>Add or remove categories for your income.</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex flex-wrap gap-2 mb-6">
-              {categories.map(cat => (
-                <Badge key={cat.id} variant={defaultCategories.includes(cat.name) ? 'default': 'secondary'} className="group text-sm pr-1.5 py-1 rounded-md">
+              {incomeCategories.map(cat => (
+                <Badge key={cat.id} variant={defaultIncomeCategories.includes(cat.name) ? 'default': 'secondary'} className="group text-sm pr-1.5 py-1 rounded-md">
                   {cat.name}
-                  {!defaultCategories.includes(cat.name) && cat.id && (
-                     <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                            <button className="ml-1.5 rounded-full opacity-50 group-hover:opacity-100 transition-opacity hover:bg-destructive/20 p-0.5">
-                                <X className="h-3 w-3" />
-                            </button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                            <AlertDialogHeader>
-                                <AlertDialogTitle>Delete &quot;{cat.name}&quot;?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                Are you sure you want to delete this category? This action cannot be undone.
-                                </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => cat.id && handleDeleteCategory(cat.id, cat.name)}>Delete</AlertDialogAction>
-                            </AlertDialogFooter>
-                        </AlertDialogContent>
-                    </AlertDialog>
+                  {!defaultIncomeCategories.includes(cat.name) && cat.id && (
+                    <button
+                      className="ml-1.5 rounded-full opacity-50 group-hover:opacity-100 transition-opacity hover:bg-destructive/20 p-0.5"
+                      onClick={() => cat.id && handleDeleteIncomeCategory(cat.id, cat.name)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
                   )}
                 </Badge>
               ))}
             </div>
-            <Form {...categoryForm}>
-              <form onSubmit={categoryForm.handleSubmit(handleAddCategory)} className="flex items-start gap-2">
+            <Form {...incomeCategoryForm}>
+              <form onSubmit={incomeCategoryForm.handleSubmit(handleAddIncomeCategory)} className="flex items-start gap-2">
                 <FormField
-                  control={categoryForm.control}
+                  control={incomeCategoryForm.control}
                   name="name"
                   render={({ field }) => (
                     <FormItem className="flex-grow">
-                      <FormControl><Input placeholder="New category name" {...field} /></FormControl>
+                      <FormControl><Input placeholder="New income category name" {...field} /></FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                <Button type="submit" variant="outline" disabled={categoryForm.formState.isSubmitting}>
-                  {categoryForm.formState.isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
+                <Button type="submit" variant="outline" disabled={incomeCategoryForm.formState.isSubmitting}>
+                  {incomeCategoryForm.formState.isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
                 </Button>
               </form>
             </Form>
@@ -283,6 +554,14 @@ export default function SettingsPage() {
              <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <Button onClick={handleExport} variant="outline">Export (JSON)</Button>
                 <Button onClick={handleExportPdf} variant="outline">Export (PDF)</Button>
+                <Button onClick={() => importInputRef.current?.click()} variant="outline" className="sm:col-span-2">Import (JSON)</Button>
+                <Input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportFile}
+                />
                 
                 <Button asChild variant="outline" className="sm:col-span-2">
                     <Link href="/scan">AI Import (Scan Receipt)</Link>
@@ -290,13 +569,13 @@ export default function SettingsPage() {
                 
                 <AlertDialog>
                     <AlertDialogTrigger asChild>
-                        <Button variant="destructive" className="sm:col-span-2">Clear All Data</Button>
+                        <Button variant="destructive" className="sm:col-span-2" disabled={!!clearProgress}>Clear All Data</Button>
                     </AlertDialogTrigger>
                     <AlertDialogContent>
                         <AlertDialogHeader>
                             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                             <AlertDialogDescription>
-                            This action cannot be undone. This will permanently delete all your expenses, categories, and reminders.
+                            This will delete all your expenses, income, categories, and reminders. You can undo it right afterwards, but it can't be restored from the Trash.
                             </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -305,9 +584,18 @@ export default function SettingsPage() {
                         </AlertDialogFooter>
                     </AlertDialogContent>
                 </AlertDialog>
+                <div className="sm:col-span-2">
+                    <OperationProgressBar progress={clearProgress} label="Cleared" />
+                </div>
             </CardContent>
         </Card>
       </div>
+      <ImportBackupDialog
+        data={pendingImport?.data ?? null}
+        diff={pendingImport?.diff ?? null}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        onImported={fetchData}
+      />
     </div>
   );
 }
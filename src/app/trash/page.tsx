@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { Bell, Receipt, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  TRASH_RETENTION_DAYS,
+  emptyTrash,
+  getTrashedExpenses,
+  getTrashedReminders,
+  purgeExpenses,
+  purgeReminders,
+  restoreExpenses,
+  restoreReminders,
+  dbEvents,
+} from '@/lib/db';
+import type { Expense, Reminder } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const newestFirst = (a: { deletedAt?: string }, b: { deletedAt?: string }) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '');
+
+function daysLeft(deletedAt: string) {
+  const days = Math.max(0, differenceInCalendarDays(addDays(new Date(deletedAt), TRASH_RETENTION_DAYS), new Date()));
+  return days === 1 ? '1 day left' : `${days} days left`;
+}
+
+interface TrashItemProps {
+  icon: React.ReactNode;
+  title: string;
+  detail: string;
+  deletedAt: string;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+function TrashItem({ icon, title, detail, deletedAt, onRestore, onPurge }: TrashItemProps) {
+  return (
+    <li className="flex items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+      <div className="flex items-center gap-4 min-w-0">
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">{icon}</div>
+        <div className="min-w-0">
+          <p className="font-medium truncate">{title}</p>
+          <p className="text-sm text-muted-foreground">{detail}</p>
+          <p className="text-xs text-muted-foreground">
+            Deleted {format(new Date(deletedAt), 'PP')} · {daysLeft(deletedAt)}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Button variant="ghost" size="sm" onClick={onRestore}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Restore
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onPurge} aria-label={`Delete ${title} forever`}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export default function TrashPage() {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    const [fetchedExpenses, fetchedReminders] = await Promise.all([getTrashedExpenses(), getTrashedReminders()]);
+    setExpenses(fetchedExpenses.sort(newestFirst));
+    setReminders(fetchedReminders.sort(newestFirst));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+    dbEvents.addEventListener('dataChanged', fetchData);
+    return () => dbEvents.removeEventListener('dataChanged', fetchData);
+  }, [fetchData]);
+
+  // The journal shows its own toast with Undo once the change is saved
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({ title: 'Failed to update the Trash.', variant: 'destructive' });
+    }
+  };
+
+  const isEmpty = expenses.length === 0 && reminders.length === 0;
+
+  return (
+    <div className="container mx-auto max-w-4xl py-10">
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">Deleted expenses and reminders are kept here for {TRASH_RETENTION_DAYS} days.</p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={isEmpty}>
+              <Trash2 className="mr-2 h-4 w-4" /> Empty Trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the Trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Everything in the Trash is deleted for good, along with receipts that belong only to these expenses.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => run(emptyTrash)} className="bg-destructive hover:bg-destructive/90">
+                Empty Trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Expenses</CardTitle>
+            <CardDescription>Restored expenses show up in your totals and budgets again.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+                <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+              </div>
+            ) : expenses.length > 0 ? (
+              <ul className="space-y-3">
+                {expenses.map(expense => (
+                  <TrashItem
+                    key={expense.id}
+                    icon={<Receipt className="h-5 w-5" />}
+                    title={expense.title}
+                    detail={`${formatCurrency(expense.amount)} · ${expense.category} · ${format(new Date(expense.date), 'PP')}`}
+                    deletedAt={expense.deletedAt!}
+                    onRestore={() => run(() => restoreExpenses([expense.id!]))}
+                    onPurge={() => run(() => purgeExpenses([expense.id!]))}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                <p className="text-muted-foreground">No deleted expenses.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reminders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="h-16 w-full animate-pulse bg-muted rounded-md" />
+            ) : reminders.length > 0 ? (
+              <ul className="space-y-3">
+                {reminders.map(reminder => (
+                  <TrashItem
+                    key={reminder.id}
+                    icon={<Bell className="h-5 w-5" />}
+                    title={reminder.title}
+                    detail={`Due: ${format(new Date(reminder.date), 'PPP')}`}
+                    deletedAt={reminder.deletedAt!}
+                    onRestore={() => run(() => restoreReminders([reminder.id!]))}
+                    onPurge={() => run(() => purgeReminders([reminder.id!]))}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-10 border-2 border-dashed rounded-lg">
+                <p className="text-muted-foreground">No deleted reminders.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
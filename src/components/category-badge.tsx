@@ -0,0 +1,107 @@
+'use client';
+
+import {
+  Apple,
+  Baby,
+  Briefcase,
+  Bus,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  PawPrint,
+  Pill,
+  Plane,
+  Receipt,
+  RotateCcw,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  Tag,
+  Utensils,
+  Wallet,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import { SelectItem } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { categoryTree, getCategoryPath, fallbackColor, type CategoryIconName } from '@/lib/categories';
+import type { Category } from '@/lib/types';
+
+export const categoryIcons: Record<CategoryIconName, LucideIcon> = {
+  Tag,
+  ShoppingCart,
+  Utensils,
+  Coffee,
+  Apple,
+  Plane,
+  Car,
+  Fuel,
+  Bus,
+  Zap,
+  Wifi,
+  Smartphone,
+  Home,
+  ShoppingBag,
+  Shirt,
+  Gift,
+  Pill,
+  HeartPulse,
+  Dumbbell,
+  GraduationCap,
+  Film,
+  PawPrint,
+  Baby,
+  Briefcase,
+  Receipt,
+  RotateCcw,
+  Wallet,
+};
+
+export function CategoryIcon({ category, className }: { category?: Category; className?: string }) {
+  const Icon = categoryIcons[category?.icon as CategoryIconName] ?? Tag;
+  return <Icon className={cn('h-3.5 w-3.5 shrink-0', className)} style={{ color: category?.color }} />;
+}
+
+// A category name tinted with the category's color. Subcategories show their parent too.
+export function CategoryBadge({ name, categories, className }: { name: string; categories: Category[]; className?: string }) {
+  const category = categories.find(c => c.name === name);
+  const color = category?.color ?? fallbackColor(name);
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-semibold', className)}
+      style={{ borderColor: `${color}66`, backgroundColor: `${color}1a` }}
+    >
+      <CategoryIcon category={category ?? { name, color }} />
+      {getCategoryPath(name, categories)}
+    </span>
+  );
+}
+
+/**
+ * Select options for every active category, with subcategories indented under their
+ * parent. An archived category is still listed when it is the current value, or when
+ * `showArchived` is set, as filters need.
+ */
+export function CategorySelectItems({ categories, current, showArchived }: { categories: Category[]; current?: string; showArchived?: boolean }) {
+  const visible = categories.filter(c => showArchived || !c.archived || c.name === current);
+  return (
+    <>
+      {categoryTree(visible).map(({ category, depth }) => (
+        <SelectItem key={category.id ?? category.name} value={category.name}>
+          <span className={cn('flex items-center gap-2', depth > 0 && 'pl-4')}>
+            <CategoryIcon category={category} />
+            {category.name}
+          </span>
+        </SelectItem>
+      ))}
+    </>
+  );
+}
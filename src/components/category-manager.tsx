@@ -0,0 +1,312 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm, type UseFormReturn } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Archive, ArchiveRestore, Check, GitMerge, Loader2, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CategoryIcon, CategorySelectItems, categoryIcons } from '@/components/category-badge';
+import { addCategory, mergeCategories, renameCategory, updateCategory } from '@/lib/db';
+import { CATEGORY_COLORS, CATEGORY_ICON_NAMES, categoryTree, fallbackColor } from '@/lib/categories';
+import type { Category } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+const NO_PARENT = 'none';
+
+const categorySchema = z.object({
+  name: z.string().trim().min(2, { message: 'Category name must be at least 2 characters.' }),
+  parentId: z.string(),
+  color: z.string(),
+  icon: z.string(),
+});
+
+type CategoryFormValues = z.infer<typeof categorySchema>;
+
+const toFormValues = (category?: Category): CategoryFormValues => ({
+  name: category?.name ?? '',
+  parentId: category?.parentId !== undefined ? String(category.parentId) : NO_PARENT,
+  color: category?.color ?? CATEGORY_COLORS[0],
+  icon: category?.icon ?? 'Tag',
+});
+
+function CategoryFields({ form, categories, editing }: { form: UseFormReturn<CategoryFormValues>; categories: Category[]; editing?: Category }) {
+  const color = form.watch('color');
+  // Only two levels: a parent must be top-level, and a category with subcategories can't get a parent
+  const hasChildren = !!editing && categories.some(c => c.parentId === editing.id);
+  const parents = categories.filter(c => c.parentId === undefined && !c.archived && c.id !== editing?.id);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name="name"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Name</FormLabel>
+            <FormControl><Input placeholder="e.g., Fuel" {...field} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="parentId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Parent</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value} disabled={hasChildren}>
+              <FormControl>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                {parents.map(parent => (
+                  <SelectItem key={parent.id} value={String(parent.id)}>{parent.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="icon"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Icon</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {CATEGORY_ICON_NAMES.map(name => {
+                  const Icon = categoryIcons[name];
+                  return (
+                    <SelectItem key={name} value={name}>
+                      <span className="flex items-center gap-2"><Icon className="h-4 w-4" style={{ color }} /> {name}</span>
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="color"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Color</FormLabel>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {CATEGORY_COLORS.map(swatch => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => field.onChange(swatch)}
+                  className={cn('flex h-7 w-7 items-center justify-center rounded-full border', field.value === swatch && 'ring-2 ring-ring ring-offset-2')}
+                  style={{ backgroundColor: swatch }}
+                  aria-label={swatch}
+                >
+                  {field.value === swatch && <Check className="h-4 w-4 text-white" />}
+                </button>
+              ))}
+              <FormControl>
+                <Input type="color" className="h-7 w-10 p-0.5" value={field.value} onChange={field.onChange} />
+              </FormControl>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+interface CategoryDialogProps {
+  category: Category | null;
+  categories: Category[];
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;
+}
+
+function EditCategoryDialog({ category, categories, onOpenChange, onChange }: CategoryDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<CategoryFormValues>({ resolver: zodResolver(categorySchema), defaultValues: toFormValues() });
+
+  useEffect(() => {
+    if (category) form.reset(toFormValues(category));
+  }, [category, form]);
+
+  const handleSave = async (values: CategoryFormValues) => {
+    if (!category?.id) return;
+    const name = values.name.trim();
+    try {
+      if (name !== category.name) {
+        await renameCategory(category.id, name);
+      }
+      await updateCategory({
+        ...category,
+        name,
+        parentId: values.parentId === NO_PARENT ? undefined : Number(values.parentId),
+        color: values.color,
+        icon: values.icon,
+      });
+      toast({ title: 'Category updated!' });
+      onOpenChange(false);
+      onChange();
+    } catch (error: any) {
+      toast({ title: 'Failed to update category.', description: error?.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Category</DialogTitle>
+          <DialogDescription>Renaming also renames the category on every expense, budget, rule and recurring expense.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+            <CategoryFields form={form} categories={categories} editing={category ?? undefined} />
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MergeCategoryDialog({ category, categories, onOpenChange, onChange }: CategoryDialogProps) {
+  const { toast } = useToast();
+  const [target, setTarget] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => setTarget(''), [category]);
+
+  const handleMerge = async () => {
+    const targetCategory = categories.find(c => c.name === target);
+    if (!category?.id || !targetCategory?.id) return;
+    setIsMerging(true);
+    try {
+      await mergeCategories(category.id, targetCategory.id);
+      toast({ title: `${category.name} merged into ${targetCategory.name}.` });
+      onOpenChange(false);
+      onChange();
+    } catch (error: any) {
+      toast({ title: 'Failed to merge categories.', description: error?.message, variant: 'destructive' });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge &quot;{category?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            Every expense, budget, rule and recurring expense in {category?.name} moves to the category you pick, then {category?.name} is deleted.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger><SelectValue placeholder="Merge into..." /></SelectTrigger>
+          <SelectContent>
+            <CategorySelectItems categories={categories.filter(c => c.id !== category?.id)} />
+          </SelectContent>
+        </Select>
+        <DialogFooter>
+          <Button onClick={handleMerge} disabled={!target || isMerging}>
+            {isMerging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Lists expense categories as a tree, with add, edit, archive and merge
+export function CategoryManager({ categories, onChange }: { categories: Category[]; onChange: () => void }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [merging, setMerging] = useState<Category | null>(null);
+  const form = useForm<CategoryFormValues>({ resolver: zodResolver(categorySchema), defaultValues: toFormValues() });
+
+  const handleAdd = async (values: CategoryFormValues) => {
+    try {
+      await addCategory({
+        name: values.name.trim(),
+        parentId: values.parentId === NO_PARENT ? undefined : Number(values.parentId),
+        color: values.color,
+        icon: values.icon,
+      });
+      toast({ title: 'Category added successfully!' });
+      form.reset(toFormValues());
+      onChange();
+    } catch (error) {
+      toast({ title: 'Category already exists or failed to add.', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleArchived = async (category: Category) => {
+    try {
+      await updateCategory({ ...category, archived: !category.archived });
+      toast({ title: category.archived ? `${category.name} restored.` : `${category.name} archived.` });
+      onChange();
+    } catch (error) {
+      toast({ title: 'Failed to update category.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y rounded-md border">
+        {categoryTree(categories).map(({ category, depth }) => (
+          <li key={category.id} className={cn('flex items-center justify-between gap-2 px-3 py-2', depth > 0 && 'pl-9', category.archived && 'opacity-60')}>
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: category.color ?? fallbackColor(category.name) }} />
+              <CategoryIcon category={category} className="h-4 w-4" />
+              <span className="truncate">{category.name}</span>
+              {category.archived && <Badge variant="outline">Archived</Badge>}
+            </span>
+            <span className="flex shrink-0 items-center">
+              <Button variant="ghost" size="icon" onClick={() => setEditing(category)} aria-label="Edit">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setMerging(category)} aria-label="Merge">
+                <GitMerge className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => handleToggleArchived(category)} aria-label={category.archived ? 'Restore' : 'Archive'}>
+                {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              </Button>
+            </span>
+          </li>
+        ))}
+      </ul>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleAdd)} className="space-y-4">
+          <CategoryFields form={form} categories={categories} />
+          <Button type="submit" variant="outline" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Add Category
+          </Button>
+        </form>
+      </Form>
+      <EditCategoryDialog category={editing} categories={categories} onOpenChange={open => !open && setEditing(null)} onChange={onChange} />
+      <MergeCategoryDialog category={merging} categories={categories} onOpenChange={open => !open && setMerging(null)} onChange={onChange} />
+    </div>
+  );
+}
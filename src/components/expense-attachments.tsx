@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Download, FileText, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { dbEvents, getAttachmentsForExpense } from '@/lib/db';
+import { formatFileSize, isImageAttachment } from '@/lib/attachments';
+import type { Attachment } from '@/lib/types';
+
+export function AttachmentThumbnail({ attachment, onClick }: { attachment: Attachment; onClick?: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={attachment.name}
+      className="flex h-20 w-20 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-muted hover:ring-2 hover:ring-ring"
+    >
+      {attachment.thumbnail ? (
+        <Image src={attachment.thumbnail} alt={attachment.name} className="h-full w-full object-cover" width={80} height={80} />
+      ) : (
+        <FileText className="h-8 w-8 text-muted-foreground" />
+      )}
+    </button>
+  );
+}
+
+export function AttachmentViewer({ attachment, onOpenChange }: { attachment: Attachment | null; onOpenChange: (open: boolean) => void }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment) return;
+    const objectUrl = URL.createObjectURL(attachment.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [attachment]);
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{attachment?.name}</DialogTitle>
+          <DialogDescription>{attachment && formatFileSize(attachment.size)}</DialogDescription>
+        </DialogHeader>
+        {attachment && url && (
+          <div className="space-y-4">
+            {isImageAttachment(attachment) ? (
+              <Image src={url} alt={attachment.name} className="mx-auto max-h-[70vh] w-auto rounded-md" width={800} height={1200} />
+            ) : (
+              <object data={url} type={attachment.type} className="h-[70vh] w-full rounded-md border">
+                <p className="text-sm text-muted-foreground">This file can&apos;t be previewed. Download it to view.</p>
+              </object>
+            )}
+            <div className="flex justify-end">
+              <Button asChild variant="outline" size="sm">
+                <a href={url} download={attachment.name}>
+                  <Download className="mr-2 h-4 w-4" /> Download
+                </a>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Receipts stored with an expense, shown in the expense details
+export function ExpenseAttachments({ expenseId }: { expenseId: number }) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+
+  useEffect(() => {
+    const fetchAttachments = () => {
+      getAttachmentsForExpense(expenseId)
+        .then(setAttachments)
+        .catch(error => console.error('Failed to load attachments:', error));
+    };
+    fetchAttachments();
+    dbEvents.addEventListener('dataChanged', fetchAttachments);
+    return () => dbEvents.removeEventListener('dataChanged', fetchAttachments);
+  }, [expenseId]);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Paperclip className="h-4 w-4" /> Receipts
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(attachment => (
+          <AttachmentThumbnail key={attachment.id} attachment={attachment} onClick={() => setViewing(attachment)} />
+        ))}
+      </div>
+      <AttachmentViewer attachment={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+    </div>
+  );
+}
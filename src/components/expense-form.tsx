@@ -2,11 +2,12 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useForm } from 'react-hook-form';
+import Link from 'next/link';
+import { useForm, type UseFormReturn } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon, Loader2 } from 'lucide-react';
+import { Calendar as CalendarIcon, FileText, Loader2, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -14,11 +15,16 @@ import {
   Form,
   FormControl,
   FormField,
+  FormDescription,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Popover,
   PopoverContent,
@@ -31,8 +37,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { addExpense, getCategories, updateExpense } from '@/lib/db';
-import type { Expense, Category } from '@/lib/types';
+import { addAttachment, addExpense, detachAttachment, getAccounts, getAttachmentsForExpense, getCategories, getGroups, getRules, getTags, updateExpense } from '@/lib/db';
+import type { Expense, Category, Account, Attachment, ExpenseRule, Group, SplitMethod } from '@/lib/types';
+import { defaultAccountIdFor, resolveAccountId } from '@/lib/accounts';
+import { ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, buildAttachment, formatFileSize } from '@/lib/attachments';
+import { AttachmentThumbnail } from '@/components/expense-attachments';
+import { CategorySelectItems } from '@/components/category-badge';
+import { TagInput } from '@/components/tag-input';
+import { findMatchingRule } from '@/lib/rules';
+import { SELF_MEMBER, computeSplitAmounts, splitMethodLabels, validateSplit } from '@/lib/splits';
 import { useToast } from '@/hooks/use-toast';
 
 const formSchema = z.object({
@@ -41,8 +54,181 @@ const formSchema = z.object({
   date: z.date(),
   category: z.string().min(1, { message: 'Please select a category.' }),
   paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+  accountId: z.coerce.number().int().positive({ message: 'Please select an account.' }),
+  tags: z.array(z.string()),
+  notes: z.string().max(1000, { message: 'Notes must be 1000 characters or fewer.' }),
+  split: z.object({
+    groupId: z.number(),
+    paidBy: z.string().min(1, { message: 'Select who paid.' }),
+    method: z.enum(['equal', 'exact', 'percentage', 'shares']),
+    shares: z.array(z.object({ member: z.string(), value: z.coerce.number().min(0) })),
+  }).optional(),
+}).superRefine((values, ctx) => {
+  const error = values.split && validateSplit(values.amount, values.split);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['split', 'shares'] });
+  }
 });
 
+type ExpenseFormValues = z.infer<typeof formSchema>;
+
+const defaultShares = (group: Group, method: SplitMethod) =>
+  group.members.map(member => ({ member, value: method === 'equal' || method === 'shares' ? 1 : 0 }));
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+function SplitFields({ form, groups }: { form: UseFormReturn<ExpenseFormValues>; groups: Group[] }) {
+  const split = form.watch('split');
+  const amount = form.watch('amount');
+  if (!split) return null;
+
+  const group = groups.find(g => g.id === split.groupId);
+  const splitError = form.formState.errors.split?.shares?.message;
+  // Watched values are still the raw input strings until the schema coerces them on submit
+  const total = Number(amount) || 0;
+  const preview = { ...split, shares: split.shares.map(share => ({ ...share, value: Number(share.value) || 0 })) };
+  const previewAmounts = total > 0 && !validateSplit(total, preview) ? computeSplitAmounts(total, preview) : {};
+
+  const resetShares = (nextGroup: Group | undefined, method: SplitMethod) => {
+    if (nextGroup) {
+      form.setValue('split.shares', defaultShares(nextGroup, method));
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name="split.groupId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Group</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  const nextGroup = groups.find(g => g.id === Number(value));
+                  field.onChange(Number(value));
+                  form.setValue('split.paidBy', SELF_MEMBER);
+                  resetShares(nextGroup, split.method);
+                }}
+                value={String(field.value)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {groups.map((g) => (
+                    <SelectItem key={g.id} value={String(g.id)}>
+                      {g.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="split.paidBy"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Paid By</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {group?.members.map((member) => (
+                    <SelectItem key={member} value={member}>
+                      {member}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="split.method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Split</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  resetShares(group, value as SplitMethod);
+                }}
+                value={field.value}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(splitMethodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {split.shares.map((share, index) => (
+          <div key={share.member} className="flex items-center justify-between gap-4">
+            {split.method === 'equal' ? (
+              <FormField
+                control={form.control}
+                name={`split.shares.${index}.value`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value > 0} onCheckedChange={(checked) => field.onChange(checked ? 1 : 0)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">{share.member}</FormLabel>
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name={`split.shares.${index}.value`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormLabel className="w-24 truncate font-normal">{share.member}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={split.method === 'shares' ? '1' : '0.01'} min="0" className="w-28" {...field} />
+                    </FormControl>
+                    {split.method === 'percentage' && <span className="text-sm text-muted-foreground">%</span>}
+                  </FormItem>
+                )}
+              />
+            )}
+            <span className="font-mono text-sm text-muted-foreground">
+              {previewAmounts[share.member] !== undefined ? formatCurrency(previewAmounts[share.member]) : '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+      {splitError && <p className="text-sm font-medium text-destructive">{splitError}</p>}
+    </div>
+  );
+}
+
 type ExpenseFormProps = {
   expense?: Expense;
   onSave?: () => void; // Optional callback for when save is successful
@@ -52,10 +238,18 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [rules, setRules] = useState<ExpenseRule[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [appliedRule, setAppliedRule] = useState<ExpenseRule | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<number[]>([]);
+  const [newFiles, setNewFiles] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: expense?.title || '',
@@ -63,6 +257,10 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
       date: expense ? new Date(expense.date) : new Date(),
       category: expense?.category || '',
       paymentMode: expense?.paymentMode || 'Card',
+      accountId: expense ? resolveAccountId(expense) : defaultAccountIdFor('Card'),
+      split: expense?.split,
+      tags: expense?.tags ?? [],
+      notes: expense?.notes ?? '',
     },
   });
   
@@ -74,6 +272,10 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
       date: expense ? new Date(expense.date) : new Date(),
       category: expense?.category || '',
       paymentMode: expense?.paymentMode || 'Card',
+      accountId: expense ? resolveAccountId(expense) : defaultAccountIdFor('Card'),
+      split: expense?.split,
+      tags: expense?.tags ?? [],
+      notes: expense?.notes ?? '',
     });
   }, [expense, form]);
 
@@ -87,26 +289,110 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
       }
     }
     fetchCategories();
-  }, [form]);
+    getAccounts().then(fetchedAccounts => setAccounts(fetchedAccounts.filter(a => !a.archived || a.id === expense?.accountId)));
+    getGroups().then(setGroups);
+    getTags().then(setKnownTags);
+  }, [form, expense?.accountId]);
+
+  useEffect(() => {
+    if (!expense) {
+      getRules().then(setRules).catch(error => console.error('Failed to load rules:', error));
+    }
+  }, [expense]);
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  const title = form.watch('title');
+  const amount = form.watch('amount');
+
+  // Fill in the category and payment mode of new expenses from the first matching rule,
+  // until the user picks them
+  useEffect(() => {
+    if (expense) return;
+    const values = form.getValues();
+    const rule = findMatchingRule({ ...values, amount: Number(values.amount) || 0 }, rules);
+    setAppliedRule(rule ?? null);
+    if (!rule) return;
+
+    if (rule.actions.category && !form.getFieldState('category').isDirty) {
+      form.setValue('category', rule.actions.category);
+    }
+    if (rule.actions.paymentMode && !form.getFieldState('paymentMode').isDirty) {
+      form.setValue('paymentMode', rule.actions.paymentMode);
+      if (!form.getFieldState('accountId').isDirty) {
+        form.setValue('accountId', defaultAccountIdFor(rule.actions.paymentMode));
+      }
+    }
+  }, [expense, form, rules, title, amount]);
+
+  useEffect(() => {
+    setRemovedAttachmentIds([]);
+    setNewFiles([]);
+    if (expense?.id) {
+      getAttachmentsForExpense(expense.id).then(setAttachments);
+    } else {
+      setAttachments([]);
+    }
+  }, [expense?.id]);
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'File too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} is over ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`,
+        variant: 'destructive',
+      });
+    }
+    setNewFiles(current => [...current, ...files.filter(file => file.size <= MAX_ATTACHMENT_SIZE)]);
+    event.target.value = '';
+  };
+
+  // Applies attachment changes once the expense has been saved and has an id
+  const saveAttachments = async (expenseId: number) => {
+    for (const id of removedAttachmentIds) {
+      await detachAttachment(id, expenseId);
+    }
+    for (const file of newFiles) {
+      await addAttachment(await buildAttachment(file, file.name, [expenseId]));
+    }
+  };
+
+  const isSplit = !!form.watch('split');
+
+  const handleSplitToggle = (checked: boolean) => {
+    if (!checked) {
+      form.setValue('split', undefined);
+      return;
+    }
+    const group = groups[0];
+    form.setValue('split', { groupId: group.id!, paidBy: SELF_MEMBER, method: 'equal', shares: defaultShares(group, 'equal') });
+  };
+
+  async function onSubmit(values: ExpenseFormValues) {
     setIsSubmitting(true);
     try {
       if (expense) {
+        // Start from the stored record so fields the form doesn't edit
+        // (externalId, recurringId, reminderId, ...) survive the update.
         const expenseData: Expense = {
+            ...expense,
             ...values,
             id: expense.id,
             date: values.date.toISOString(),
+            notes: values.notes.trim() || undefined,
         };
         await updateExpense(expenseData);
+        await saveAttachments(expense.id!);
         toast({ title: "Expense updated successfully!" });
       } else {
          const { ...rest } = values;
         const expenseData: Omit<Expense, 'id'> = {
             ...rest,
             date: values.date.toISOString(),
+            notes: values.notes.trim() || undefined,
         };
-        await addExpense(expenseData);
+        const id = await addExpense(expenseData);
+        await saveAttachments(id as number);
         toast({ title: "Expense added successfully!" });
       }
       
@@ -213,13 +499,12 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    {categories.map((cat) => (
-                      <SelectItem key={cat.id} value={cat.name}>
-                        {cat.name}
-                      </SelectItem>
-                    ))}
+                    <CategorySelectItems categories={categories} current={expense?.category} />
                   </SelectContent>
                 </Select>
+                {appliedRule?.actions.category && !form.getFieldState('category').isDirty && (
+                  <FormDescription>Filled in by the rule &quot;{appliedRule.name}&quot;.</FormDescription>
+                )}
                 <FormMessage />
               </FormItem>
             )}
@@ -230,7 +515,16 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Payment Mode</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // Follow the payment mode until the user picks an account themselves
+                    if (!form.getFieldState('accountId').isDirty) {
+                      form.setValue('accountId', defaultAccountIdFor(value as Expense['paymentMode']));
+                    }
+                  }}
+                  value={field.value}
+                >
                   <FormControl>
                     <SelectTrigger>
                       <SelectValue placeholder="Select a payment mode" />
@@ -248,6 +542,106 @@ export function ExpenseForm({ expense, onSave }: ExpenseFormProps) {
             )}
           />
         </div>
+        <FormField
+          control={form.control}
+          name="accountId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Account</FormLabel>
+              <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <TagInput value={field.value} onChange={field.onChange} suggestions={knownTags} />
+              </FormControl>
+              <FormDescription>Press Enter or comma to add a tag.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Anything worth remembering about this expense" rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <Label htmlFor="expense-receipts">Receipts</Label>
+          {(attachments.length > removedAttachmentIds.length || newFiles.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {attachments
+                .filter(attachment => !removedAttachmentIds.includes(attachment.id!))
+                .map(attachment => (
+                  <div key={attachment.id} className="relative">
+                    <AttachmentThumbnail attachment={attachment} />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      className="absolute -right-2 -top-2 h-6 w-6 rounded-full"
+                      onClick={() => setRemovedAttachmentIds(ids => [...ids, attachment.id!])}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              {newFiles.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  <span className="max-w-[160px] truncate">{file.name}</span>
+                  <button type="button" onClick={() => setNewFiles(files => files.filter((_, i) => i !== index))}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <Input id="expense-receipts" type="file" multiple accept={ACCEPTED_ATTACHMENT_TYPES} onChange={handleFilesSelected} />
+        </div>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Split with a group</p>
+              <p className="text-sm text-muted-foreground">
+                {groups.length > 0 ? (
+                  'Only your share counts toward your spending.'
+                ) : (
+                  <>Create a group on the <Link href="/groups" className="underline">Groups</Link> page first.</>
+                )}
+              </p>
+            </div>
+            <Switch checked={isSplit} onCheckedChange={handleSplitToggle} disabled={groups.length === 0 && !isSplit} />
+          </div>
+          <SplitFields form={form} groups={groups} />
+        </div>
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
           {expense ? 'Save Changes' : 'Add Expense'}
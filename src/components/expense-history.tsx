@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { dbEvents, getExpenseHistory, revertExpense } from '@/lib/db';
+import { changeSources, historyFields } from '@/lib/expense-history';
+import type { Account, ExpenseHistoryEntry, ExpenseSplit, FieldChange } from '@/lib/types';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const actionLabels: Record<ExpenseHistoryEntry['action'], string> = {
+  created: 'Created',
+  updated: 'Edited',
+  deleted: 'Moved to the Trash',
+  restored: 'Restored',
+};
+
+function formatValue(field: FieldChange['field'], value: unknown, accounts: Account[]): string {
+  // Expenses without an account are paid from the default account for their payment mode
+  if (field === 'accountId' && value === undefined) return 'default account';
+  if (value === undefined || value === '') return 'none';
+  switch (field) {
+    case 'amount': return formatCurrency(value as number);
+    case 'date': return format(new Date(value as string), 'PP');
+    case 'tags': return (value as string[]).map(tag => `#${tag}`).join(' ');
+    case 'accountId': return accounts.find(account => account.id === value)?.name ?? 'Deleted account';
+    case 'split': return `${(value as ExpenseSplit).shares.length}-way ${(value as ExpenseSplit).method} split`;
+    case 'deletedAt': return 'yes';
+    default: return String(value);
+  }
+}
+
+// A timeline of the changes made to an expense, newest first, shown in its details panel
+export function ExpenseHistory({ expenseId, accounts }: { expenseId: number; accounts: Account[] }) {
+  const [entries, setEntries] = useState<ExpenseHistoryEntry[]>([]);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchHistory = () => {
+      getExpenseHistory(expenseId)
+        .then(history => setEntries(history.reverse()))
+        .catch(error => console.error('Failed to load expense history:', error));
+    };
+    fetchHistory();
+    dbEvents.addEventListener('dataChanged', fetchHistory);
+    return () => dbEvents.removeEventListener('dataChanged', fetchHistory);
+  }, [expenseId]);
+
+  const handleRevert = async (entry: ExpenseHistoryEntry) => {
+    setRevertingId(entry.id!);
+    try {
+      await revertExpense(entry.id!);
+    } catch (error) {
+      toast({ title: 'Failed to revert expense.', variant: 'destructive' });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" /> History
+      </p>
+      <ol className="relative ml-2 border-l">
+        {entries.map((entry, index) => (
+          <li key={entry.id} className="relative pb-4 pl-4 last:pb-0">
+            <span className="absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{actionLabels[entry.action]}</span>
+              <Badge variant="secondary" className="font-normal">{changeSources[entry.source]}</Badge>
+              <span className="text-xs text-muted-foreground">{format(new Date(entry.changedAt), 'PP p')}</span>
+            </div>
+            {entry.action === 'updated' && (
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {entry.changes.map(change => (
+                  <li key={change.field} className="truncate">
+                    {historyFields[change.field]}: <span className="line-through">{formatValue(change.field, change.from, accounts)}</span>
+                    {' → '}
+                    <span className="text-foreground">{formatValue(change.field, change.to, accounts)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {/* The newest entry is the current version */}
+            {index > 0 && (
+              <Button variant="ghost" size="sm" className="mt-1 h-7 px-2" disabled={revertingId !== null} onClick={() => handleRevert(entry)}>
+                {revertingId === entry.id ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                Revert to this version
+              </Button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, IndianRupee, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CategorySelectItems } from '@/components/category-badge';
+import type { Category, Expense } from '@/lib/types';
+
+export type EditableExpense = Omit<Expense, 'id'>;
+
+const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+        style: 'decimal',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    }).format(amount);
+};
+
+type ExpenseReviewListProps = {
+  expenses: EditableExpense[];
+  categories: Category[];
+  onChange: <K extends keyof EditableExpense>(index: number, field: K, value: EditableExpense[K]) => void;
+  onRemove: (index: number) => void;
+};
+
+// Editable list of expenses waiting to be saved, used by the scanner and the statement importer
+export function ExpenseReviewList({ expenses, categories, onChange, onRemove }: ExpenseReviewListProps) {
+  const [openDatePickerIndex, setOpenDatePickerIndex] = useState<number | null>(null);
+
+  return (
+    <Accordion type="multiple" className="w-full space-y-2">
+      {expenses.map((expense, index) => (
+        <AccordionItem value={`item-${index}`} key={index} className="border rounded-md px-4">
+          <AccordionTrigger>
+              <div className="flex justify-between w-full pr-4">
+                  <span className="font-medium truncate max-w-[150px]">{expense.title}</span>
+                  <span className="flex items-center font-semibold shrink-0">
+                      <IndianRupee className="h-4 w-4 mr-1" />
+                      {formatCurrency(expense.amount)}
+                  </span>
+              </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2">
+              <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                          <Label htmlFor={`title-${index}`}>Title</Label>
+                          <Input id={`title-${index}`} value={expense.title} onChange={(e) => onChange(index, 'title', e.target.value)} />
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor={`amount-${index}`}>Amount</Label>
+                          <Input id={`amount-${index}`} type="number" value={expense.amount} onChange={(e) => onChange(index, 'amount', parseFloat(e.target.value) || 0)} />
+                      </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                           <Label>Date</Label>
+                          <Popover open={openDatePickerIndex === index} onOpenChange={(isOpen) => setOpenDatePickerIndex(isOpen ? index : null)}>
+                              <PopoverTrigger asChild>
+                                  <Button
+                                      variant="outline"
+                                      className={cn('w-full justify-start text-left font-normal',!expense.date && 'text-muted-foreground')}
+                                  >
+                                      <CalendarIcon className="mr-2 h-4 w-4" />
+                                      {expense.date ? format(new Date(expense.date), 'PPP') : <span>Pick a date</span>}
+                                  </Button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-auto p-0">
+                                  <Calendar
+                                      mode="single"
+                                      selected={new Date(expense.date)}
+                                      onSelect={(date) => {
+                                          onChange(index, 'date', date?.toISOString() || '');
+                                          setOpenDatePickerIndex(null);
+                                      }}
+                                      initialFocus
+                                  />
+                              </PopoverContent>
+                          </Popover>
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor={`category-${index}`}>Category</Label>
+                          <Select value={expense.category} onValueChange={(value) => onChange(index, 'category', value)}>
+                              <SelectTrigger id={`category-${index}`}>
+                                  <SelectValue placeholder="Select a category" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <CategorySelectItems categories={categories} current={expense.category} />
+                              </SelectContent>
+                          </Select>
+                      </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                          <Label>Payment Mode</Label>
+                          <Select value={expense.paymentMode} onValueChange={(value: any) => onChange(index, 'paymentMode', value)}>
+                              <SelectTrigger>
+                                  <SelectValue placeholder="Select a mode" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <SelectItem value="Cash">Cash</SelectItem>
+                                  <SelectItem value="Card">Card</SelectItem>
+                                  <SelectItem value="Online">Online</SelectItem>
+                                  <SelectItem value="Other">Other</SelectItem>
+                              </SelectContent>
+                          </Select>
+                      </div>
+                  </div>
+                   <div className="flex justify-end">
+                      <Button variant="ghost" size="icon" onClick={() => onRemove(index)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                  </div>
+              </div>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
@@ -0,0 +1,756 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+  type ColumnDef,
+  type RowSelectionState,
+  type SortingState,
+  type Updater,
+  type VisibilityState,
+} from '@tanstack/react-table';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { addDays, format, isValid, parse } from 'date-fns';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Calendar,
+  CalendarClock,
+  Columns3,
+  CreditCard,
+  Download,
+  Edit,
+  Hash,
+  Laptop,
+  Loader2,
+  MoreHorizontal,
+  PanelRightOpen,
+  StickyNote,
+  Trash2,
+  Users,
+  Wallet,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { CategoryBadge, CategorySelectItems } from '@/components/category-badge';
+import { ExpenseAttachments } from '@/components/expense-attachments';
+import { ExpenseHistory } from '@/components/expense-history';
+import { ExpenseForm } from '@/components/expense-form';
+import { TagChips, TagInput } from '@/components/tag-input';
+import { TRASH_RETENTION_DAYS, deleteExpenses, getTags, updateExpense, updateExpenses } from '@/lib/db';
+import { resolveAccountId, withPaymentMode } from '@/lib/accounts';
+import { expensesToCsv } from '@/lib/csv';
+import { ownShare, validateSplit } from '@/lib/splits';
+import type { Account, Category, Expense, ExpenseFilters, ExpenseSortField, Group, PaymentMode } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+const paymentModes: PaymentMode[] = ['Card', 'Cash', 'Online', 'Other'];
+
+const paymentModeIcons = {
+  Cash: Wallet,
+  Card: CreditCard,
+  Online: Laptop,
+  Other: MoreHorizontal,
+};
+
+const columnLabels: Record<string, string> = {
+  date: 'Date',
+  title: 'Title',
+  category: 'Category',
+  amount: 'Amount',
+  paymentMode: 'Payment Mode',
+  account: 'Account',
+  tags: 'Tags',
+  notes: 'Notes',
+};
+
+const sortableColumns: ExpenseSortField[] = ['date', 'title', 'category', 'amount'];
+
+const ROW_HEIGHT = 49;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+function ExpenseDetails({ expense, group, categories }: { expense: Expense; group?: Group; categories: Category[] }) {
+  const PaymentIcon = paymentModeIcons[expense.paymentMode];
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <div className="flex items-center gap-2">
+        <CategoryBadge name={expense.category} categories={categories} />
+      </div>
+      <div className="flex items-center gap-2">
+        <Calendar className="h-4 w-4 text-muted-foreground" />
+        <span>{format(new Date(expense.date), 'PPP')}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <PaymentIcon className="h-4 w-4 text-muted-foreground" />
+        <span>{expense.paymentMode}</span>
+      </div>
+      {expense.tags && expense.tags.length > 0 && (
+        <div className="col-span-2">
+          <TagChips tags={expense.tags} />
+        </div>
+      )}
+      {expense.split && (
+        <div className="flex items-center gap-2 col-span-2">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          <span>
+            {group?.name ?? 'Deleted group'} · Paid by {expense.split.paidBy} · Your share {formatCurrency(ownShare(expense))}
+          </span>
+        </div>
+      )}
+      {expense.notes && (
+        <div className="flex items-start gap-2 col-span-2">
+          <StickyNote className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <p className="whitespace-pre-wrap text-muted-foreground">{expense.notes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExpenseSheet({ expense, group, categories, accounts, onOpenChange }: { expense: Expense | null; group?: Group; categories: Category[]; accounts: Account[]; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+
+  const handleDelete = async () => {
+    if (!expense?.id) return;
+    try {
+      await deleteExpenses([expense.id]);
+      toast({ title: 'Expense moved to the Trash.' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Failed to delete expense.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Sheet open={!!expense} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {expense && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{expense.title}</SheetTitle>
+              <SheetDescription className="font-mono text-base">{formatCurrency(expense.amount)}</SheetDescription>
+            </SheetHeader>
+            <div className="py-6 space-y-4">
+              <ExpenseDetails expense={expense} group={group} categories={categories} />
+              {expense.id && <ExpenseAttachments expenseId={expense.id} />}
+              {expense.id && <ExpenseHistory expenseId={expense.id} accounts={accounts} />}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditDialogOpen(true)}>
+                <Edit className="mr-2 h-4 w-4" /> Edit
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" size="sm">
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Move to the Trash?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The expense can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+            <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+              <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Edit Expense</DialogTitle>
+                </DialogHeader>
+                <div className="py-4">
+                  <ExpenseForm expense={expense} onSave={() => setIsEditDialogOpen(false)} />
+                </div>
+              </DialogContent>
+            </Dialog>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// Shows a value that turns into an editor when clicked
+function EditableCell({ children, editor }: { children: React.ReactNode; editor: (done: () => void) => React.ReactNode }) {
+  const [isEditing, setIsEditing] = useState(false);
+  if (isEditing) return <>{editor(() => setIsEditing(false))}</>;
+  return (
+    <button
+      type="button"
+      onClick={() => setIsEditing(true)}
+      className="-mx-1 flex w-[calc(100%+0.5rem)] items-center truncate rounded px-1 py-0.5 text-left hover:bg-muted"
+      title="Click to edit"
+    >
+      {children}
+    </button>
+  );
+}
+
+// Saves on Enter or blur, cancels on Escape
+function InputEditor({ type, initial, onSave, onDone }: { type: 'text' | 'number' | 'date'; initial: string; onSave: (value: string) => void; onDone: () => void }) {
+  const [value, setValue] = useState(initial);
+  const finished = useRef(false);
+
+  const finish = (save: boolean) => {
+    if (finished.current) return;
+    finished.current = true;
+    onDone();
+    if (save && value !== initial) onSave(value);
+  };
+
+  return (
+    <Input
+      autoFocus
+      type={type}
+      step={type === 'number' ? '0.01' : undefined}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => finish(true)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true);
+        if (e.key === 'Escape') finish(false);
+      }}
+      className="h-8"
+    />
+  );
+}
+
+function SelectEditor({ initial, onSave, onDone, children }: { initial: string; onSave: (value: string) => void; onDone: () => void; children: React.ReactNode }) {
+  return (
+    <Select
+      defaultOpen
+      value={initial}
+      onValueChange={(value) => {
+        onDone();
+        if (value !== initial) onSave(value);
+      }}
+      onOpenChange={(open) => !open && onDone()}
+    >
+      <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+      <SelectContent>{children}</SelectContent>
+    </Select>
+  );
+}
+
+function downloadCsv(csv: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function BulkActions({ selected, categories, accounts, onDone }: { selected: Expense[]; categories: Category[]; accounts: Account[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const [isWorking, setIsWorking] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [shiftDays, setShiftDays] = useState('1');
+
+  const count = `${selected.length} expense${selected.length === 1 ? '' : 's'}`;
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      toast({ title: message });
+      onDone();
+    } catch (error) {
+      console.error('Bulk action failed:', error);
+      toast({ title: 'Failed to update the selected expenses.', variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateAll = (change: (expense: Expense) => Expense, message: string) =>
+    run(() => updateExpenses(selected.map(change)), message);
+
+  const handleAddTags = () => {
+    if (tags.length === 0) return;
+    updateAll(
+      expense => ({ ...expense, tags: Array.from(new Set([...(expense.tags ?? []), ...tags])) }),
+      `Tagged ${count}.`
+    );
+    setTags([]);
+  };
+
+  const handleShiftDates = () => {
+    const days = Number(shiftDays);
+    if (!Number.isInteger(days) || days === 0) return;
+    updateAll(
+      expense => ({ ...expense, date: addDays(new Date(expense.date), days).toISOString() }),
+      `Moved ${count} ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days > 0 ? 'later' : 'earlier'}.`
+    );
+  };
+
+  const handleExport = () => {
+    downloadCsv(expensesToCsv(selected, accounts), `verdantview-expenses-${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    toast({ title: `Exported ${count}.` });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium">{selected.length} selected</span>
+      {isWorking && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      <Select value="" onValueChange={(category) => updateAll(expense => ({ ...expense, category }), `Moved ${count} to ${category}.`)} disabled={isWorking}>
+        <SelectTrigger className="h-8 w-40"><SelectValue placeholder="Set category" /></SelectTrigger>
+        <SelectContent><CategorySelectItems categories={categories} /></SelectContent>
+      </Select>
+      <Select value="" onValueChange={(mode) => updateAll(expense => withPaymentMode(expense, mode as PaymentMode), `Set ${count} to ${mode}.`)} disabled={isWorking}>
+        <SelectTrigger className="h-8 w-40"><SelectValue placeholder="Set payment mode" /></SelectTrigger>
+        <SelectContent>
+          {paymentModes.map(mode => <SelectItem key={mode} value={mode}>{mode}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Popover onOpenChange={(open) => open && getTags().then(setKnownTags)}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8" disabled={isWorking}>
+            <Hash className="mr-1 h-4 w-4" /> Add Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2">
+          <TagInput value={tags} onChange={setTags} suggestions={knownTags} />
+          <Button size="sm" className="w-full" onClick={handleAddTags} disabled={tags.length === 0}>Add to {count}</Button>
+        </PopoverContent>
+      </Popover>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8" disabled={isWorking}>
+            <CalendarClock className="mr-1 h-4 w-4" /> Shift Date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-2">
+          <p className="text-sm text-muted-foreground">Days to move each date. Use a negative number to move them earlier.</p>
+          <Input type="number" step="1" value={shiftDays} onChange={(e) => setShiftDays(e.target.value)} />
+          <Button size="sm" className="w-full" onClick={handleShiftDates} disabled={!Number.isInteger(Number(shiftDays)) || Number(shiftDays) === 0}>
+            Shift {count}
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <Button variant="outline" size="sm" className="h-8" onClick={handleExport}>
+        <Download className="mr-1 h-4 w-4" /> Export CSV
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" className="h-8" disabled={isWorking}>
+            <Trash2 className="mr-1 h-4 w-4" /> Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {count} to the Trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They can be restored from the Trash for {TRASH_RETENTION_DAYS} days, along with their receipts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => run(() => deleteExpenses(selected.map(expense => expense.id!)), `Moved ${count} to the Trash.`)}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onDone}>
+        <X className="mr-1 h-3 w-3" /> Clear
+      </Button>
+    </div>
+  );
+}
+
+interface ExpenseTableProps {
+  expenses: Expense[]; // Already filtered and sorted
+  categories: Category[];
+  accounts: Account[];
+  groups: Group[];
+  sort: ExpenseSortField;
+  direction: ExpenseFilters['direction'];
+  onSortChange: (sort: ExpenseSortField, direction: ExpenseFilters['direction']) => void;
+}
+
+/**
+ * Expenses as a virtualized table: only the rows in view are rendered. Sorting is done
+ * by the caller, so clicking a header reports the new order through `onSortChange`.
+ */
+export function ExpenseTable({ expenses, categories, accounts, groups, sort, direction, onSortChange }: ExpenseTableProps) {
+  const { toast } = useToast();
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({ notes: false });
+  const [openExpenseId, setOpenExpenseId] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Forget selected rows that are no longer listed, so bulk actions never touch hidden expenses
+  useEffect(() => {
+    const listed = new Set(expenses.map(expense => String(expense.id)));
+    setRowSelection(current => {
+      const kept = Object.keys(current).filter(id => listed.has(id));
+      return kept.length === Object.keys(current).length ? current : Object.fromEntries(kept.map(id => [id, true]));
+    });
+  }, [expenses]);
+
+  const columns = useMemo<ColumnDef<Expense>[]>(() => {
+    const save = async (expense: Expense, changes: Partial<Expense>) => {
+      try {
+        await updateExpense({ ...expense, ...changes });
+      } catch (error) {
+        toast({ title: 'Failed to save the change.', variant: 'destructive' });
+      }
+    };
+    const invalid = (message: string) => toast({ title: message, variant: 'destructive' });
+    // A split in exact amounts no longer adds up once the amount changes, so it has to be
+    // edited along with the amount in the full form
+    const saveAmount = (expense: Expense, value: string) => {
+      const amount = Number(value);
+      if (!(amount > 0)) return invalid('Amount must be a positive number.');
+      const splitError = expense.split && validateSplit(amount, expense.split);
+      if (splitError) return invalid(`${splitError} Edit the expense to change its split too.`);
+      return save(expense, { amount });
+    };
+
+    return [
+      {
+        id: 'select',
+        size: 40,
+        enableResizing: false,
+        enableHiding: false,
+        enableSorting: false,
+        header: ({ table }) => (
+          <Checkbox
+            checked={table.getIsAllRowsSelected() || (table.getIsSomeRowsSelected() && 'indeterminate')}
+            onCheckedChange={(checked) => table.toggleAllRowsSelected(!!checked)}
+            aria-label="Select all"
+          />
+        ),
+        cell: ({ row }) => (
+          <Checkbox checked={row.getIsSelected()} onCheckedChange={(checked) => row.toggleSelected(!!checked)} aria-label="Select row" />
+        ),
+      },
+      {
+        id: 'date',
+        size: 130,
+        sortDescFirst: true,
+        header: columnLabels.date,
+        cell: ({ row: { original: expense } }) => (
+          <EditableCell
+            editor={done => (
+              <InputEditor
+                type="date"
+                initial={format(new Date(expense.date), 'yyyy-MM-dd')}
+                onDone={done}
+                onSave={value => {
+                  const date = parse(value, 'yyyy-MM-dd', new Date());
+                  if (!isValid(date)) return invalid('Enter a valid date.');
+                  // Keep the time of day so the order within a day doesn't change
+                  const previous = new Date(expense.date);
+                  date.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), previous.getMilliseconds());
+                  save(expense, { date: date.toISOString() });
+                }}
+              />
+            )}
+          >
+            {format(new Date(expense.date), 'd MMM yyyy')}
+          </EditableCell>
+        ),
+      },
+      {
+        id: 'title',
+        size: 260,
+        header: columnLabels.title,
+        cell: ({ row: { original: expense } }) => (
+          <EditableCell
+            editor={done => (
+              <InputEditor
+                type="text"
+                initial={expense.title}
+                onDone={done}
+                onSave={value => (value.trim().length < 2 ? invalid('Title must be at least 2 characters.') : save(expense, { title: value.trim() }))}
+              />
+            )}
+          >
+            <span className="truncate font-medium">{expense.title}</span>
+            {expense.split && <Badge variant="secondary" className="ml-2">Split</Badge>}
+          </EditableCell>
+        ),
+      },
+      {
+        id: 'category',
+        size: 180,
+        header: columnLabels.category,
+        cell: ({ row: { original: expense } }) => (
+          <EditableCell
+            editor={done => (
+              <SelectEditor initial={expense.category} onDone={done} onSave={category => save(expense, { category })}>
+                <CategorySelectItems categories={categories} current={expense.category} />
+              </SelectEditor>
+            )}
+          >
+            <CategoryBadge name={expense.category} categories={categories} className="truncate" />
+          </EditableCell>
+        ),
+      },
+      {
+        id: 'amount',
+        size: 130,
+        sortDescFirst: true,
+        header: columnLabels.amount,
+        cell: ({ row: { original: expense } }) => (
+          <EditableCell
+            editor={done => (
+              <InputEditor
+                type="number"
+                initial={String(expense.amount)}
+                onDone={done}
+                onSave={value => saveAmount(expense, value)}
+              />
+            )}
+          >
+            <span className="ml-auto font-mono">{formatCurrency(expense.amount)}</span>
+          </EditableCell>
+        ),
+      },
+      {
+        id: 'paymentMode',
+        size: 130,
+        enableSorting: false,
+        header: columnLabels.paymentMode,
+        cell: ({ row: { original: expense } }) => {
+          const PaymentIcon = paymentModeIcons[expense.paymentMode];
+          return (
+            <EditableCell
+              editor={done => (
+                <SelectEditor initial={expense.paymentMode} onDone={done} onSave={mode => save(expense, withPaymentMode(expense, mode as PaymentMode))}>
+                  {paymentModes.map(mode => <SelectItem key={mode} value={mode}>{mode}</SelectItem>)}
+                </SelectEditor>
+              )}
+            >
+              <PaymentIcon className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+              {expense.paymentMode}
+            </EditableCell>
+          );
+        },
+      },
+      {
+        id: 'account',
+        size: 140,
+        enableSorting: false,
+        header: columnLabels.account,
+        cell: ({ row: { original: expense } }) => (
+          <span className="block truncate">{accounts.find(a => a.id === resolveAccountId(expense))?.name ?? '—'}</span>
+        ),
+      },
+      {
+        id: 'tags',
+        size: 180,
+        enableSorting: false,
+        header: columnLabels.tags,
+        cell: ({ row: { original: expense } }) => <TagChips tags={expense.tags} className="flex-nowrap overflow-hidden" />,
+      },
+      {
+        id: 'notes',
+        size: 220,
+        enableSorting: false,
+        header: columnLabels.notes,
+        cell: ({ row: { original: expense } }) => <span className="block truncate text-muted-foreground">{expense.notes}</span>,
+      },
+      {
+        id: 'details',
+        size: 48,
+        enableResizing: false,
+        enableHiding: false,
+        enableSorting: false,
+        header: () => <span className="sr-only">Details</span>,
+        cell: ({ row: { original: expense } }) => (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setOpenExpenseId(expense.id!)} aria-label="Show details">
+            <PanelRightOpen className="h-4 w-4" />
+          </Button>
+        ),
+      },
+    ];
+  }, [categories, accounts, toast]);
+
+  const sorting: SortingState = [{ id: sort, desc: direction === 'desc' }];
+
+  const table = useReactTable({
+    data: expenses,
+    columns,
+    getRowId: expense => String(expense.id),
+    getCoreRowModel: getCoreRowModel(),
+    manualSorting: true,
+    enableSortingRemoval: false,
+    columnResizeMode: 'onChange',
+    state: { sorting, rowSelection, columnVisibility },
+    onRowSelectionChange: setRowSelection,
+    onColumnVisibilityChange: setColumnVisibility,
+    onSortingChange: (updater: Updater<SortingState>) => {
+      const [next] = typeof updater === 'function' ? updater(sorting) : updater;
+      if (next && sortableColumns.includes(next.id as ExpenseSortField)) {
+        onSortChange(next.id as ExpenseSortField, next.desc ? 'desc' : 'asc');
+      }
+    },
+    defaultColumn: { minSize: 60, enableSorting: true },
+  });
+
+  const { rows } = table.getRowModel();
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  const selected = table.getSelectedRowModel().rows.map(row => row.original);
+  const openExpense = expenses.find(expense => expense.id === openExpenseId) ?? null;
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex min-h-9 items-center justify-between gap-2">
+        {selected.length > 0 ? (
+          <BulkActions selected={selected} categories={categories} accounts={accounts} onDone={() => setRowSelection({})} />
+        ) : (
+          <span className="text-sm text-muted-foreground">Click a cell to edit it. Select rows for bulk actions.</span>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 shrink-0">
+              <Columns3 className="h-4 w-4" />
+              <span className="hidden sm:inline-block sm:ml-2">Columns</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show Columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {table.getAllLeafColumns().filter(column => column.getCanHide()).map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={column.getIsVisible()}
+                onCheckedChange={(checked) => column.toggleVisibility(!!checked)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {columnLabels[column.id]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div ref={scrollRef} className="relative max-h-[70vh] overflow-auto rounded-md border">
+        <table className="caption-bottom text-sm table-fixed" style={{ width: table.getTotalSize(), minWidth: '100%' }}>
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id} className="hover:bg-transparent">
+                {headerGroup.headers.map(header => {
+                  const sorted = header.column.getIsSorted();
+                  const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown;
+                  return (
+                    <TableHead key={header.id} className="relative px-3" style={{ width: header.getSize() }}>
+                      {header.column.getCanSort() ? (
+                        <button
+                          type="button"
+                          className={cn('flex items-center gap-1 hover:text-foreground', header.column.id === 'amount' && 'ml-auto')}
+                          onClick={header.column.getToggleSortingHandler()}
+                        >
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          <SortIcon className={cn('h-3.5 w-3.5', !sorted && 'opacity-40')} />
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                      {header.column.getCanResize() && (
+                        <div
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onDoubleClick={() => header.column.resetSize()}
+                          className={cn(
+                            'absolute right-0 top-0 h-full w-1 cursor-col-resize touch-none select-none hover:bg-primary/50',
+                            header.column.getIsResizing() && 'bg-primary'
+                          )}
+                        />
+                      )}
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && (
+              <tr><td colSpan={visibleColumnCount} style={{ height: paddingTop }} /></tr>
+            )}
+            {virtualRows.map(virtualRow => {
+              const row = rows[virtualRow.index];
+              return (
+                <TableRow key={row.id} data-state={row.getIsSelected() ? 'selected' : undefined} style={{ height: ROW_HEIGHT }}>
+                  {row.getVisibleCells().map(cell => (
+                    <TableCell key={cell.id} className="px-3 py-1.5 overflow-hidden whitespace-nowrap" style={{ width: cell.column.getSize() }}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+            {paddingBottom > 0 && (
+              <tr><td colSpan={visibleColumnCount} style={{ height: paddingBottom }} /></tr>
+            )}
+          </TableBody>
+        </table>
+      </div>
+      <ExpenseSheet
+        expense={openExpense}
+        group={groups.find(g => g.id === openExpense?.split?.groupId)}
+        categories={categories}
+        accounts={accounts}
+        onOpenChange={(open) => !open && setOpenExpenseId(null)}
+      />
+    </div>
+  );
+}
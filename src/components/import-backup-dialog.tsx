@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OperationProgressBar } from '@/components/operation-progress';
+import { importData } from '@/lib/db';
+import type { OperationProgress } from '@/lib/types';
+import { summarizeDiff, type BackupData, type BackupDiff, type ConflictStrategy, type DiffStatus, type ImportMode } from '@/lib/backup';
+import { useToast } from '@/hooks/use-toast';
+
+const statusVariants: Record<DiffStatus, 'default' | 'secondary' | 'outline'> = {
+  new: 'default',
+  changed: 'secondary',
+  duplicate: 'outline',
+};
+
+type ImportBackupDialogProps = {
+  data: BackupData | null;
+  diff: BackupDiff | null;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+};
+
+export function ImportBackupDialog({ data, diff, onOpenChange, onImported }: ImportBackupDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('keep');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<OperationProgress | null>(null);
+
+  const open = !!data && !!diff;
+
+  const handleImport = async () => {
+    if (!data) return;
+    setIsImporting(true);
+    try {
+      await importData(data, { mode, conflictStrategy }, setProgress);
+      toast({ title: mode === 'replace' ? 'Backup restored successfully!' : 'Backup merged successfully!' });
+      onOpenChange(false);
+      onImported?.();
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast({ title: 'Failed to import backup.', variant: 'destructive' });
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const summaryRows = diff
+    ? [
+        { label: 'Expenses', ...summarizeDiff(diff.expenses) },
+        { label: 'Categories', ...summarizeDiff(diff.categories) },
+        { label: 'Reminders', ...summarizeDiff(diff.reminders) },
+        { label: 'Income', ...summarizeDiff(diff.income) },
+      ]
+    : [];
+  const hasChangedRows = summaryRows.some(row => row.changed > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Restore from Backup</DialogTitle>
+          <DialogDescription>Review what this backup contains before importing it.</DialogDescription>
+        </DialogHeader>
+
+        {diff && (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Changed</TableHead>
+                  <TableHead className="text-right">Duplicate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaryRows.map(row => (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="text-right">{row.new}</TableCell>
+                    <TableCell className="text-right">{row.changed}</TableCell>
+                    <TableCell className="text-right">{row.duplicate}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {diff.settingsChanged && (
+              <p className="text-sm text-muted-foreground">The backup contains a different monthly budget.</p>
+            )}
+            {!!data?.attachments?.length && (
+              <p className="text-sm text-muted-foreground">
+                Includes {data.attachments.length} receipt {data.attachments.length === 1 ? 'attachment' : 'attachments'}.
+              </p>
+            )}
+
+            {diff.expenses.length > 0 && (
+              <ScrollArea className="h-48 rounded-md border">
+                <ul className="divide-y">
+                  {diff.expenses.map((row, index) => (
+                    <li key={index} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{row.incoming.title}</p>
+                        <p className="text-muted-foreground">
+                          {format(new Date(row.incoming.date), 'MMM d, yyyy')} · {row.incoming.category}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="font-mono">
+                          {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(row.incoming.amount)}
+                        </span>
+                        <Badge variant={statusVariants[row.status]} className="capitalize">{row.status}</Badge>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-3">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                <Label htmlFor="import-merge" className="font-normal">
+                  <span className="font-medium">Merge</span> — add new rows, skip duplicates and resolve changed rows.
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                <Label htmlFor="import-replace" className="font-normal">
+                  <span className="font-medium">Replace all</span> — delete current data and restore the backup.
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {mode === 'merge' && (hasChangedRows || diff.settingsChanged) && (
+              <div className="space-y-2">
+                <Label>When a row or the monthly budget has changed</Label>
+                <Select value={conflictStrategy} onValueChange={(value) => setConflictStrategy(value as ConflictStrategy)}>
+                  <SelectTrigger className="sm:w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">Keep my current version</SelectItem>
+                    <SelectItem value="overwrite">Use the backup&apos;s version</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isImporting && <OperationProgressBar progress={progress} label="Imported" />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>Cancel</Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+          >
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { dbEvents, type BudgetThresholdCrossed } from '@/lib/db';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+// Shows a toast when spending crosses a budget threshold and, if the user has granted
+// permission, a system notification through the service worker.
+export function BudgetAlerts() {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const handleCrossed = async (event: Event) => {
+      const { status: { budget, spent, available }, threshold } = (event as CustomEvent<BudgetThresholdCrossed>).detail;
+      const title = threshold >= 100 ? `${budget.category} budget exceeded` : `${budget.category} budget at ${threshold}%`;
+      const body = `You've spent ${formatCurrency(spent)} of ${formatCurrency(available)} this month.`;
+      const tag = `budget-${budget.category}-${threshold}`;
+
+      toast({ tag, title, description: body, variant: threshold >= 100 ? 'destructive' : 'default' });
+
+      if ('serviceWorker' in navigator && 'Notification' in window && Notification.permission === 'granted') {
+        try {
+          const registration = await navigator.serviceWorker.ready;
+          await registration.showNotification(title, { body, tag });
+        } catch (error) {
+          console.error('Failed to show budget alert:', error);
+        }
+      }
+    };
+
+    dbEvents.addEventListener('budgetThresholdCrossed', handleCrossed);
+    return () => dbEvents.removeEventListener('budgetThresholdCrossed', handleCrossed);
+  }, [toast]);
+
+  return null;
+}
@@ -1,5 +1,6 @@
 import Link from 'next/link';
-import { Leaf } from 'lucide-react';
+import { Leaf, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { MainNav } from '@/components/layout/main-nav';
 import { MobileNav } from '@/components/layout/mobile-nav';
 import { ThemeToggle } from '@/components/layout/theme-toggle';
@@ -14,6 +15,12 @@ export function Header() {
         </Link>
         <MainNav />
         <div className="flex flex-1 items-center justify-end space-x-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/trash">
+              <Trash2 className="h-[1.2rem] w-[1.2rem]" />
+              <span className="sr-only">Trash</span>
+            </Link>
+          </Button>
           <ThemeToggle />
           <MobileNav />
         </div>
@@ -7,6 +7,10 @@ import { cn } from '@/lib/utils';
 const navLinks = [
   { href: '/', label: 'Dashboard' },
   { href: '/expenses', label: 'Expenses' },
+  { href: '/income', label: 'Income' },
+  { href: '/accounts', label: 'Accounts' },
+  { href: '/groups', label: 'Groups' },
+  { href: '/recurring', label: 'Recurring' },
   { href: '/scan', label: 'Scan' },
   { href: '/reminders', label: 'Reminders' },
   { href: '/settings', label: 'Settings' },
@@ -10,6 +10,10 @@ import { Menu, Leaf } from 'lucide-react';
 const navLinks = [
   { href: '/', label: 'Dashboard' },
   { href: '/expenses', label: 'Expenses' },
+  { href: '/income', label: 'Income' },
+  { href: '/accounts', label: 'Accounts' },
+  { href: '/groups', label: 'Groups' },
+  { href: '/recurring', label: 'Recurring' },
   { href: '/scan', label: 'Scan' },
   { href: '/reminders', label: 'Reminders' },
   { href: '/settings', label: 'Settings' },
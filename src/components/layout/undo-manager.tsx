@@ -0,0 +1,77 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { dbEvents, redoLastChange, undoLastChange } from '@/lib/db';
+import type { JournalEntry } from '@/lib/types';
+
+// Typing fields keep their own undo history for Ctrl+Z
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const JOURNAL_TOAST = 'journal';
+
+// Offers Undo on a toast after every change to the data, and handles Ctrl+Z to undo
+// and Ctrl+Shift+Z or Ctrl+Y to redo. Only the latest change can be undone, so each of
+// these toasts replaces the previous one, leaving the page's own messages in place.
+export function UndoManager() {
+  const { toast } = useToast();
+  const isBusy = useRef(false);
+
+  const replay = useCallback(async (direction: 'undo' | 'redo', expectedId?: number) => {
+    if (isBusy.current) return;
+    isBusy.current = true;
+    try {
+      const entry = direction === 'undo' ? await undoLastChange(expectedId) : await redoLastChange();
+      if (!entry) {
+        toast({ tag: JOURNAL_TOAST, title: direction === 'undo' ? 'Nothing to undo.' : 'Nothing to redo.' });
+      } else if (direction === 'undo') {
+        toast({
+          tag: JOURNAL_TOAST,
+          title: `Undone: ${entry.label}`,
+          action: <ToastAction altText="Redo" onClick={() => replay('redo')}>Redo</ToastAction>,
+        });
+      } else {
+        toast({
+          tag: JOURNAL_TOAST,
+          title: `Redone: ${entry.label}`,
+          action: <ToastAction altText="Undo" onClick={() => replay('undo', entry.id)}>Undo</ToastAction>,
+        });
+      }
+    } catch (error: any) {
+      toast({ tag: JOURNAL_TOAST, title: `Couldn't ${direction}.`, description: error.message, variant: 'destructive' });
+    } finally {
+      isBusy.current = false;
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const handleRecorded = (event: Event) => {
+      const entry = (event as CustomEvent<JournalEntry>).detail;
+      toast({
+        tag: JOURNAL_TOAST,
+        title: entry.label,
+        action: <ToastAction altText="Undo" onClick={() => replay('undo', entry.id)}>Undo</ToastAction>,
+      });
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditable(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        replay(key === 'y' || event.shiftKey ? 'redo' : 'undo');
+      }
+    };
+
+    dbEvents.addEventListener('journalRecorded', handleRecorded);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      dbEvents.removeEventListener('journalRecorded', handleRecorded);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [replay, toast]);
+
+  return null;
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import type { OperationProgress } from '@/lib/types';
+
+// A progress bar for a long database operation, such as "Imported 120 of 500 records"
+export function OperationProgressBar({ progress, label }: { progress: OperationProgress | null; label: string }) {
+  if (!progress || progress.total === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <Progress value={(progress.done / progress.total) * 100} />
+      <p className="text-xs text-muted-foreground">
+        {label} {progress.done} of {progress.total} records
+      </p>
+    </div>
+  );
+}
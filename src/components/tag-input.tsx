@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { normalizeTag } from '@/lib/tags';
+
+const MAX_SUGGESTIONS = 6;
+
+export function TagChips({ tags, className }: { tags?: string[]; className?: string }) {
+  if (!tags || tags.length === 0) return null;
+  return (
+    <span className={cn('flex flex-wrap gap-1', className)}>
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-0.5 px-1.5 font-normal">
+          <Hash className="h-3 w-3" />{tag}
+        </Badge>
+      ))}
+    </span>
+  );
+}
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already in use, offered as the user types
+}
+
+// Chips for the current tags followed by a text input. Enter, comma or Tab adds the
+// typed tag, and Backspace in an empty input removes the last one.
+export function TagInput({ id, value, onChange, suggestions }: TagInputProps) {
+  const [text, setText] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = normalizeTag(text);
+  const matches = suggestions
+    .filter(tag => !value.includes(tag) && (query === '' || tag.includes(query)))
+    .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setText('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(current => (matches.length === 0 ? 0 : (current + step + matches.length) % matches.length));
+    } else if (event.key === 'Enter' || event.key === ',' || (event.key === 'Tab' && text)) {
+      event.preventDefault();
+      const picked = text === '' || event.key === 'Enter' ? matches[highlighted] : undefined;
+      addTag(picked && (text === '' || picked.startsWith(query)) ? picked : text);
+    } else if (event.key === 'Backspace' && text === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex min-h-10 flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1.5 text-sm ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-0.5 pr-1 font-normal">
+            <Hash className="h-3 w-3" />{tag}
+            <button type="button" className="ml-0.5 rounded-full p-0.5 hover:bg-muted-foreground/20" onClick={() => onChange(value.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          id={id}
+          value={text}
+          onChange={event => {
+            setText(event.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (text) addTag(text);
+          }}
+          placeholder={value.length === 0 ? 'e.g., reimbursable, trip-goa-2026' : ''}
+          className="min-w-[8rem] flex-1 bg-transparent py-0.5 outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border bg-popover p-1 text-sm text-popover-foreground shadow-md">
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep focus in the input so the blur handler doesn't run first
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => addTag(tag)}
+                className={cn('flex w-full items-center gap-1 rounded-sm px-2 py-1.5 text-left', index === highlighted && 'bg-accent text-accent-foreground')}
+              >
+                <Hash className="h-3 w-3" />{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ export function Toaster() {
 
   return (
     <ToastProvider>
-      {toasts.map(function ({ id, title, description, action, ...props }) {
+      {toasts.map(function ({ id, title, description, action, tag: _tag, ...props }) {
         return (
           <Toast key={id} {...props}>
             <div className="grid gap-1">
@@ -1,45 +1,141 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { getExpenses, getReminders, getSettings, getCategories, addExpense, dbEvents } from '@/lib/db';
-import type { Expense, Reminder, AppSettings, Category } from '@/lib/types';
-import { isWithinInterval, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, isToday } from 'date-fns';
+import { useState, useEffect, useMemo, useCallback, type Dispatch, type SetStateAction } from 'react';
+import { getExpenses, getIncome, getBudgets, getAccounts, getTransfers, getGroups, getSettlements, getReminders, getSettings, getCategories, getRecords, addExpenses, sumExpenses, generateRecurringExpenses, dbEvents } from '@/lib/db';
+import type { DataChange, Expense, ExpenseChangeSource, OperationProgress, Income, Reminder, AppSettings, Category, CategoryBudget, Account, Transfer, Group, Settlement } from '@/lib/types';
+import { getBudgetStatus } from '@/lib/budgets';
+import { patchRecords } from '@/lib/records';
+import { isWithinInterval, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, type Interval } from 'date-fns';
+
+// The stores this hook reads. Changes to any other store don't need a refetch.
+const watchedStores = ['expenses', 'income', 'categories', 'reminders', 'settings', 'budgets', 'accounts', 'transfers', 'groups', 'settlements'];
+
+// Dates are stored as ISO strings, which sort the same as the dates they hold
+const byNewest = (a: { date: string }, b: { date: string }) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0);
+
+type PeriodTotals = { today: number; week: number; month: number; year: number };
+type Period = keyof PeriodTotals;
+
+const periods: Period[] = ['today', 'week', 'month', 'year'];
+const noTotals: PeriodTotals = { today: 0, week: 0, month: 0, year: 0 };
+
+function periodIntervals(now: Date): Record<Period, Interval> {
+  return {
+    today: { start: startOfDay(now), end: endOfDay(now) },
+    week: { start: startOfWeek(now), end: endOfWeek(now) },
+    month: { start: startOfMonth(now), end: endOfMonth(now) },
+    year: { start: startOfYear(now), end: endOfYear(now) },
+  };
+}
+
+function totalsByPeriod(items: { amount: number; date: string }[]): PeriodTotals {
+  const intervals = periodIntervals(new Date());
+  const sumWithin = (interval: Interval) =>
+    items.filter(item => isWithinInterval(new Date(item.date), interval)).reduce((sum, item) => sum + item.amount, 0);
+
+  return { today: sumWithin(intervals.today), week: sumWithin(intervals.week), month: sumWithin(intervals.month), year: sumWithin(intervals.year) };
+}
+
+// Sums spending with indexed date range queries instead of going through every expense.
+// Only the user's own share of a split expense counts as their spending.
+async function loadSpending(): Promise<PeriodTotals> {
+  const intervals = periodIntervals(new Date());
+  const totals = await Promise.all(periods.map(period => sumExpenses({
+    from: new Date(intervals[period].start).toISOString(),
+    to: new Date(intervals[period].end).toISOString(),
+  })));
+  return Object.fromEntries(periods.map((period, index) => [period, totals[index].ownTotal])) as PeriodTotals;
+}
 
 export function useExpenses() {
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [income, setIncome] = useState<Income[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [budgets, setBudgets] = useState<CategoryBudget[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
   const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [spent, setSpent] = useState<PeriodTotals>(noTotals);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Reads a whole store. Used for the first load and for changes that don't say which records they wrote.
+  const loadStore = useCallback(async (store: string) => {
+    switch (store) {
+      case 'expenses': return setExpenses((await getExpenses()).sort(byNewest));
+      case 'income': return setIncome((await getIncome()).sort(byNewest));
+      case 'categories': return setCategories(await getCategories());
+      case 'reminders': return setReminders(await getReminders());
+      case 'settings': return setSettings(await getSettings());
+      case 'budgets': return setBudgets(await getBudgets());
+      case 'accounts': return setAccounts(await getAccounts());
+      case 'transfers': return setTransfers(await getTransfers());
+      case 'groups': return setGroups(await getGroups());
+      case 'settlements': return setSettlements(await getSettlements());
+    }
+  }, []);
+
+  // Reads only the records that changed and patches them into the current state.
+  // Records moved to the Trash are dropped like deleted ones.
+  const patchStore = useCallback(async (store: string, keys: number[]) => {
+    const records = await getRecords<{ id?: number; deletedAt?: string }>(store, keys);
+    const updates = new Map(keys.map((key, index) => [key, records[index]?.deletedAt ? undefined : records[index]]));
+    const patch = <T extends { id?: number }>(setState: Dispatch<SetStateAction<T[]>>, compare?: (a: T, b: T) => number) =>
+      setState(current => patchRecords(current, updates as Map<number, T | undefined>, compare));
+
+    switch (store) {
+      case 'expenses': return patch(setExpenses, byNewest);
+      case 'income': return patch(setIncome, byNewest);
+      case 'categories': return patch(setCategories);
+      case 'reminders': return patch(setReminders);
+      case 'budgets': return patch(setBudgets);
+      case 'accounts': return patch(setAccounts);
+      case 'transfers': return patch(setTransfers);
+      case 'groups': return patch(setGroups);
+      case 'settlements': return patch(setSettlements);
+      default: return loadStore(store);
+    }
+  }, [loadStore]);
+
+  const refreshSpending = useCallback(
+    () => loadSpending().then(setSpent).catch(err => console.error('Failed to sum spending:', err)),
+    []
+  );
+
   const fetchData = useCallback(async () => {
+    // Only the first load shows the loading state; later changes are patched in so lists
+    // don't lose their scroll position or selection
     try {
-      setLoading(true);
       setError(null);
-      const [fetchedExpenses, fetchedCategories, fetchedReminders, fetchedSettings] = await Promise.all([
-        getExpenses(),
-        getCategories(),
-        getReminders(),
-        getSettings(),
-      ]);
-      setExpenses(fetchedExpenses.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-      setCategories(fetchedCategories);
-      setReminders(fetchedReminders);
-      setSettings(fetchedSettings);
+      await Promise.all([...watchedStores.map(loadStore), refreshSpending()]);
     } catch (err: any) {
       console.error('Failed to fetch data from IndexedDB:', err);
       setError(err.message || 'An unknown error occurred while loading data.');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [loadStore, refreshSpending]);
 
   useEffect(() => {
+    // Catch up on any recurring expenses that came due since the app was last opened.
+    // This emits dataChanged when it creates anything, which patches them in.
+    generateRecurringExpenses().catch(err => console.error('Failed to generate recurring expenses:', err));
     fetchData();
 
-    // Listen for the custom data changed event
-    const handleDataChanged = () => {
-      console.log('Data changed event received, refetching data...');
-      fetchData();
+    // Listen for the custom data changed event, which also relays changes made in other tabs.
+    // Only the stores it names are updated, and only the records it names when it has keys.
+    const handleDataChanged = (event: Event) => {
+      const { stores, keys } = (event as CustomEvent<DataChange>).detail;
+      if (stores.includes('expenses') && keys?.expenses?.length !== 0) refreshSpending();
+      stores
+        .filter(store => watchedStores.includes(store))
+        .forEach(store => {
+          const storeKeys = keys?.[store] as number[] | undefined;
+          if (storeKeys?.length === 0) return;
+          const update = storeKeys ? patchStore(store, storeKeys) : loadStore(store);
+          update.catch(err => console.error(`Failed to update ${store}:`, err));
+        });
     };
     
     dbEvents.addEventListener('dataChanged', handleDataChanged);
@@ -49,34 +145,38 @@ export function useExpenses() {
       dbEvents.removeEventListener('dataChanged', handleDataChanged);
     };
 
-  }, [fetchData]);
-
-  const addMultipleExpenses = useCallback(async (newExpenses: Omit<Expense, 'id'>[]) => {
-    // We can't use a single transaction in Dexie without bulkAdd, so we do it one by one
-    // This is less efficient but works with the current DB setup.
-    for (const expense of newExpenses) {
-      await addExpense(expense);
-    }
-    // Refresh local state after adding
-    await fetchData();
-  }, [fetchData]);
+  }, [fetchData, loadStore, patchStore, refreshSpending]);
 
+  // Resolves with the ids of the new expenses, in the same order. The batch is added in
+  // one transaction, so it emits a single change and is undone together.
+  const addMultipleExpenses = useCallback(
+    (newExpenses: Omit<Expense, 'id'>[], source: ExpenseChangeSource, onProgress?: (progress: OperationProgress) => void): Promise<number[]> =>
+      addExpenses(newExpenses, source, onProgress),
+    []
+  );
 
   const summaries = useMemo(() => {
-    const now = new Date();
-    
-    const todayExpenses = expenses.filter(e => isToday(new Date(e.date)));
-    const weekExpenses = expenses.filter(e => isWithinInterval(new Date(e.date), { start: startOfWeek(now), end: endOfWeek(now) }));
-    const monthExpenses = expenses.filter(e => isWithinInterval(new Date(e.date), { start: startOfMonth(now), end: endOfMonth(now) }));
-    const yearExpenses = expenses.filter(e => isWithinInterval(new Date(e.date), { start: startOfYear(now), end: endOfYear(now) }));
+    const earned = totalsByPeriod(income);
+    const net: PeriodTotals = {
+      today: earned.today - spent.today,
+      week: earned.week - spent.week,
+      month: earned.month - spent.month,
+      year: earned.year - spent.year,
+    };
 
     return {
-      today: todayExpenses.reduce((sum, e) => sum + e.amount, 0),
-      week: weekExpenses.reduce((sum, e) => sum + e.amount, 0),
-      month: monthExpenses.reduce((sum, e) => sum + e.amount, 0),
-      year: yearExpenses.reduce((sum, e) => sum + e.amount, 0),
+      ...spent,
+      income: earned,
+      net,
+      // Share of this month's income that was not spent; null when there is no income to compare against.
+      savingsRate: earned.month > 0 ? (net.month / earned.month) * 100 : null,
     };
-  }, [expenses]);
+  }, [spent, income]);
+
+  const budgetStatuses = useMemo(
+    () => budgets.map(budget => getBudgetStatus(budget, expenses)).sort((a, b) => b.percent - a.percent),
+    [budgets, expenses]
+  );
 
-  return { expenses, categories, reminders, settings, summaries, loading, error, refresh: fetchData, addMultipleExpenses };
+  return { expenses, income, categories, reminders, settings, budgets, budgetStatuses, accounts, transfers, groups, settlements, summaries, loading, error, refresh: fetchData, addMultipleExpenses };
 }
@@ -8,7 +8,7 @@ import type {
   ToastProps,
 } from "@/components/ui/toast"
 
-const TOAST_LIMIT = 1
+const TOAST_LIMIT = 3
 const TOAST_REMOVE_DELAY = 1000000
 
 type ToasterToast = ToastProps & {
@@ -16,6 +16,8 @@ type ToasterToast = ToastProps & {
   title?: React.ReactNode
   description?: React.ReactNode
   action?: ToastActionElement
+  // Like a notification tag: a new toast replaces any open toast with the same tag
+  tag?: string
 }
 
 const actionTypes = {
@@ -79,7 +81,10 @@ export const reducer = (state: State, action: Action): State => {
     case "ADD_TOAST":
       return {
         ...state,
-        toasts: [action.toast, ...state.toasts].slice(0, TOAST_LIMIT),
+        toasts: [
+          action.toast,
+          ...state.toasts.filter((t) => !action.toast.tag || t.tag !== action.toast.tag),
+        ].slice(0, TOAST_LIMIT),
       }
 
     case "UPDATE_TOAST":
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Category } from '@/lib/types';
+import { loadDb, makeExpense, type Db } from '@/test/helpers';
+
+const budgetFor = (category: string, amount = 500) => ({ category, amount, rollover: false, thresholds: [80], startDate: '2024-01-01T00:00:00.000Z' });
+
+async function categoryNamed(db: Db, name: string): Promise<Category> {
+  return (await db.getCategories()).find(c => c.name === name)!;
+}
+
+describe('categories', () => {
+  it('adds and updates categories', async () => {
+    const db = await loadDb();
+    const groceries = await categoryNamed(db, 'Groceries');
+    const id = (await db.addCategory({ name: 'Produce', parentId: groceries.id })) as number;
+    await db.updateCategory({ ...(await categoryNamed(db, 'Produce')), archived: true });
+
+    expect(await categoryNamed(db, 'Produce')).toEqual({ id, name: 'Produce', parentId: groceries.id, archived: true });
+  });
+
+  it('rejects a category name that is already taken', async () => {
+    const db = await loadDb();
+    await expect(db.addCategory({ name: 'Dining' })).rejects.toThrow();
+  });
+
+  it('renames a category everywhere it is used', async () => {
+    const db = await loadDb();
+    const expenseId = (await db.addExpense(makeExpense({ category: 'Dining' }))) as number;
+    await db.saveBudget(budgetFor('Dining'));
+    await db.addRule({ name: 'Cafes', enabled: true, conditions: [{ field: 'title', operator: 'contains', value: 'cafe' }], actions: { category: 'Dining' } });
+    await db.addRecurringExpense({ title: 'Lunch club', amount: 40, category: 'Dining', paymentMode: 'Card', frequency: 'weekly', interval: 1, startDate: '2024-01-01T00:00:00.000Z', active: true });
+
+    const dining = await categoryNamed(db, 'Dining');
+    await db.renameCategory(dining.id!, 'Eating out');
+
+    expect((await categoryNamed(db, 'Eating out')).id).toBe(dining.id);
+    expect((await db.getExpenses())[0].category).toBe('Eating out');
+    expect(await db.getBudgetForCategory('Eating out')).toMatchObject({ amount: 500 });
+    expect((await db.getRules())[0].actions.category).toBe('Eating out');
+    expect((await db.getRecurringExpenses())[0].category).toBe('Eating out');
+    // Renaming is part of each expense's history
+    const history = await db.getExpenseHistory(expenseId);
+    expect(history[history.length - 1].changes).toEqual([{ field: 'category', from: 'Dining', to: 'Eating out' }]);
+  });
+
+  it('refuses to rename a category to a name that is already taken', async () => {
+    const db = await loadDb();
+    await db.addExpense(makeExpense({ category: 'Dining' }));
+    const dining = await categoryNamed(db, 'Dining');
+
+    await expect(db.renameCategory(dining.id!, 'Food')).rejects.toThrow('A category named Food already exists.');
+    expect((await db.getExpenses())[0].category).toBe('Dining');
+  });
+
+  it('merges a category into another, keeping the target’s budget', async () => {
+    const db = await loadDb();
+    await db.addExpenses([makeExpense({ category: 'Dining' }), makeExpense({ category: 'Food' })]);
+    await db.saveBudget(budgetFor('Dining', 200));
+    await db.saveBudget(budgetFor('Food', 300));
+    const dining = await categoryNamed(db, 'Dining');
+    const food = await categoryNamed(db, 'Food');
+
+    await db.mergeCategories(dining.id!, food.id!);
+
+    expect((await db.getCategories()).some(c => c.name === 'Dining')).toBe(false);
+    expect((await db.getExpenses()).map(e => e.category)).toEqual(['Food', 'Food']);
+    expect(await db.getBudgets()).toEqual([expect.objectContaining({ category: 'Food', amount: 300 })]);
+  });
+
+  it('moves the source’s budget and subcategories to the target', async () => {
+    const db = await loadDb();
+    const dining = await categoryNamed(db, 'Dining');
+    const food = await categoryNamed(db, 'Food');
+    await db.addCategory({ name: 'Takeaway', parentId: dining.id });
+    await db.saveBudget(budgetFor('Dining', 200));
+
+    await db.mergeCategories(dining.id!, food.id!);
+
+    expect((await categoryNamed(db, 'Takeaway')).parentId).toBe(food.id);
+    expect(await db.getBudgetForCategory('Food')).toMatchObject({ amount: 200 });
+  });
+
+  it('refuses to merge a category into itself or into one that doesn’t exist', async () => {
+    const db = await loadDb();
+    const dining = await categoryNamed(db, 'Dining');
+    await expect(db.mergeCategories(dining.id!, dining.id!)).rejects.toThrow('Cannot merge a category into itself.');
+    await expect(db.mergeCategories(dining.id!, 999)).rejects.toThrow('Category not found.');
+    expect(await categoryNamed(db, 'Dining')).toBeDefined();
+  });
+});
+
+describe('budgets', () => {
+  it('keeps one budget per category', async () => {
+    const db = await loadDb();
+    const id = await db.saveBudget(budgetFor('Dining', 200));
+    expect(await db.saveBudget(budgetFor('Dining', 350))).toBe(id);
+
+    expect(await db.getBudgets()).toEqual([{ ...budgetFor('Dining', 350), id }]);
+    expect(await db.getBudgetForCategory('Travel')).toBeUndefined();
+  });
+
+  it('deletes a budget', async () => {
+    const db = await loadDb();
+    const id = (await db.saveBudget(budgetFor('Dining'))) as number;
+    await db.deleteBudget(id);
+    expect(await db.getBudgets()).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import type { BackupData } from '@/lib/backup';
+import { DB_VERSION } from '@/lib/migrations';
+import type { DataChange, OperationProgress } from '@/lib/types';
+import { loadDb, makeExpense, nextEvent, type Db } from '@/test/helpers';
+
+const defaultCategoryNames = ['Groceries', 'Dining', 'Travel', 'Utilities', 'Shopping', 'Food', 'Medicine', 'Other'];
+const defaultIncomeCategoryNames = ['Salary', 'Refund', 'Reimbursement', 'Other Income'];
+
+// A backup from another device, where ids don't line up with this database
+const backup = (): BackupData => ({
+  schemaVersion: DB_VERSION,
+  expenses: [
+    { id: 40, ...makeExpense({ title: 'Rent', amount: 1200, date: '2024-03-01T09:00:00.000Z', category: 'Housing' }) },
+    { id: 41, ...makeExpense({ title: 'Taxi', amount: 30, date: '2024-03-02T22:00:00.000Z', category: 'Travel' }) },
+  ],
+  categories: [{ id: 7, name: 'Housing', color: '#336699', icon: 'Home' }],
+  reminders: [{ id: 9, title: 'Pay rent', date: '2024-04-01T00:00:00.000Z' }],
+  settings: { id: 1, monthlyBudget: 2500 },
+  income: [{ id: 3, title: 'Salary', amount: 4000, date: '2024-03-01T00:00:00.000Z', category: 'Salary' }],
+  incomeCategories: [{ id: 5, name: 'Dividends' }],
+  attachments: [{ id: 2, expenseIds: [40], name: 'lease.txt', type: 'text/plain', size: 5, data: 'data:text/plain;base64,aGVsbG8=', createdAt: '2024-03-01T00:00:00.000Z' }],
+});
+
+const names = async (read: () => Promise<{ name: string }[]>) => (await read()).map(c => c.name).sort();
+
+async function seed(db: Db) {
+  await db.addExpense(makeExpense({ title: 'Taxi', amount: 30, date: '2024-03-02T22:00:00.000Z', category: 'Travel' }));
+  await db.addReminder({ title: 'Dentist', date: '2024-04-10T00:00:00.000Z' });
+  await db.addIncomeCategory({ name: 'Freelance' });
+}
+
+describe('exportData', () => {
+  it('exports every store along with the schema version', async () => {
+    const db = await loadDb();
+    await seed(db);
+    await db.saveBudget({ category: 'Dining', amount: 300, rollover: false, thresholds: [], startDate: '2024-01-01T00:00:00.000Z' });
+
+    const data = await db.exportData();
+    expect(data.schemaVersion).toBe(DB_VERSION);
+    expect(data.expenses.map(e => e.title)).toEqual(['Taxi']);
+    expect(data.reminders.map(r => r.title)).toEqual(['Dentist']);
+    expect(data.budgets.map(b => b.category)).toEqual(['Dining']);
+    expect(data.settings).toEqual({ id: 1, monthlyBudget: 1000 });
+    expect(data.incomeCategories.map(c => c.name)).toContain('Freelance');
+    expect(data.attachments).toEqual([]);
+  });
+
+  it('leaves the Trash out', async () => {
+    const db = await loadDb();
+    const id = (await db.addExpense(makeExpense())) as number;
+    await db.deleteExpense(id);
+    expect((await db.exportData()).expenses).toEqual([]);
+  });
+});
+
+describe('previewImport', () => {
+  it('compares a backup against the stored data without writing anything', async () => {
+    const db = await loadDb();
+    await seed(db);
+
+    const diff = await db.previewImport(backup());
+    expect(diff.expenses.map(row => [row.incoming.title, row.status])).toEqual([['Rent', 'new'], ['Taxi', 'duplicate']]);
+    expect(diff.categories.map(row => row.status)).toEqual(['new']);
+    expect(diff.settingsChanged).toBe(true);
+    expect(await db.getExpenses()).toHaveLength(1);
+  });
+});
+
+describe('importData', () => {
+  it('replaces the stored data, giving imported rows new ids', async () => {
+    const db = await loadDb();
+    await seed(db);
+
+    await db.importData(backup());
+
+    const expenses = await db.getExpenses();
+    expect(expenses.map(e => e.title)).toEqual(['Rent', 'Taxi']);
+    expect(expenses.map(e => e.id)).not.toContain(40);
+    const [reminder] = await db.getReminders();
+    expect(reminder).toMatchObject({ title: 'Pay rent' });
+    expect(reminder.id).not.toBe(9);
+    expect((await db.getIncome())[0].id).not.toBe(3);
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 2500 });
+  });
+
+  it('keeps category ids and adds back any default categories the backup lacks', async () => {
+    const db = await loadDb();
+    await seed(db);
+
+    await db.importData(backup());
+
+    const categories = await db.getCategories();
+    expect(categories.find(c => c.name === 'Housing')).toEqual({ id: 7, name: 'Housing', color: '#336699', icon: 'Home' });
+    expect(categories.map(c => c.name).sort()).toEqual([...defaultCategoryNames, 'Housing'].sort());
+    // Income categories that were stored but aren't in the backup are replaced
+    expect(await names(db.getIncomeCategories)).toEqual([...defaultIncomeCategoryNames, 'Dividends'].sort());
+  });
+
+  it('points imported attachments at the new ids of their expenses', async () => {
+    const db = await loadDb();
+    await db.importData(backup());
+
+    const rent = (await db.getExpenses()).find(e => e.title === 'Rent')!;
+    const [attachment] = await db.getAttachmentsForExpense(rent.id!);
+    expect(attachment).toMatchObject({ name: 'lease.txt', expenseIds: [rent.id] });
+    expect(await attachment.blob.text()).toBe('hello');
+  });
+
+  it('reports progress and announces the changes to every store', async () => {
+    const db = await loadDb();
+    const progress: OperationProgress[] = [];
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+
+    await db.importData(backup(), { mode: 'replace' }, p => progress.push(p));
+
+    expect(progress.length).toBeGreaterThan(0);
+    const last = progress[progress.length - 1];
+    expect(last.done).toBe(last.total);
+    const { stores, keys } = await changed;
+    expect(stores).toEqual(expect.arrayContaining(['expenses', 'categories', 'reminders', 'settings', 'attachments']));
+    const expenseIds = (await db.getExpenses()).map(e => e.id);
+    expect(keys?.expenses).toEqual(expect.arrayContaining(expenseIds));
+  });
+
+  it('merges a backup, adding only what is new', async () => {
+    const db = await loadDb();
+    await seed(db);
+
+    await db.importData(backup(), { mode: 'merge', conflictStrategy: 'keep' });
+
+    expect((await db.getExpenses()).map(e => e.title).sort()).toEqual(['Rent', 'Taxi']);
+    expect((await db.getReminders()).map(r => r.title).sort()).toEqual(['Dentist', 'Pay rent']);
+    expect(await names(db.getIncomeCategories)).toEqual([...defaultIncomeCategoryNames, 'Dividends', 'Freelance'].sort());
+    expect((await db.getCategories()).some(c => c.name === 'Housing')).toBe(true);
+    // Keeping the stored settings
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 1000 });
+  });
+
+  it('points merged rows at the ids their accounts have in this database', async () => {
+    const db = await loadDb();
+    const savings = (await db.addAccount({ name: 'Savings', type: 'bank', openingBalance: 0 })) as number;
+
+    await db.importData({
+      schemaVersion: DB_VERSION,
+      accounts: [
+        { id: 2, name: 'Joint', type: 'bank', openingBalance: 0 },
+        { id: 3, name: 'Savings', type: 'bank', openingBalance: 0 },
+      ],
+      expenses: [
+        { id: 1, ...makeExpense({ title: 'Rent', accountId: 2 }) },
+        { id: 2, ...makeExpense({ title: 'Deposit', accountId: 3 }) },
+        { id: 3, ...makeExpense({ title: 'Gift', accountId: 9 }) },
+      ],
+      income: [{ id: 1, title: 'Interest', amount: 20, date: '2024-03-01T00:00:00.000Z', category: 'Other Income', accountId: 3 }],
+    }, { mode: 'merge', conflictStrategy: 'keep' });
+
+    const joint = (await db.getAccounts()).find(a => a.name === 'Joint')!;
+    const accountOf = async (title: string) => (await db.getExpenses()).find(e => e.title === title)!.accountId;
+    expect(await accountOf('Rent')).toBe(joint.id);
+    expect(await accountOf('Deposit')).toBe(savings);
+    // An account the backup doesn't include falls back to the payment mode's default
+    expect(await accountOf('Gift')).toBeUndefined();
+    expect((await db.getIncome())[0].accountId).toBe(savings);
+  });
+
+  it('points merged expenses at the ids their groups and recurring expenses have in this database', async () => {
+    const db = await loadDb();
+    const flat = (await db.addGroup({ name: 'Flat', members: ['You', 'Sam'] })) as number;
+    const split = (groupId: number) => ({ groupId, paidBy: 'You', method: 'equal' as const, shares: [{ member: 'You', value: 1 }, { member: 'Sam', value: 1 }] });
+
+    await db.importData({
+      schemaVersion: DB_VERSION,
+      groups: [{ id: 4, name: 'Trip', members: ['You', 'Alex'] }, { id: 5, name: 'Flat', members: ['You', 'Sam'] }],
+      recurringExpenses: [{ id: 8, title: 'Gym', amount: 40, category: 'Other', paymentMode: 'Card', frequency: 'monthly', interval: 1, startDate: '2024-01-01T00:00:00.000Z', active: false }],
+      expenses: [
+        { id: 1, ...makeExpense({ title: 'Hotel', split: split(4) }) },
+        { id: 2, ...makeExpense({ title: 'Groceries', split: split(5) }) },
+        { id: 3, ...makeExpense({ title: 'Boat', split: split(9) }) },
+        { id: 4, ...makeExpense({ title: 'Gym', recurringId: 8 }) },
+      ],
+    }, { mode: 'merge', conflictStrategy: 'keep' });
+
+    const trip = (await db.getGroups()).find(g => g.name === 'Trip')!;
+    const [gym] = await db.getRecurringExpenses();
+    const expense = async (title: string) => (await db.getExpenses()).find(e => e.title === title)!;
+    expect((await expense('Hotel')).split?.groupId).toBe(trip.id);
+    expect((await expense('Groceries')).split?.groupId).toBe(flat);
+    // A group the backup doesn't include can't be balanced, so the split is dropped
+    expect((await expense('Boat')).split).toBeUndefined();
+    expect((await expense('Gym')).recurringId).toBe(gym.id);
+  });
+
+  it('adds backup rows whose ids collide with unrelated local rows, keeping both', async () => {
+    const db = await loadDb();
+    const id = (await db.addExpense(makeExpense({ title: 'Local lunch', amount: 20, date: '2024-03-05T12:00:00.000Z' }))) as number;
+    const remote = { id, ...makeExpense({ title: 'Remote taxi', amount: 80, date: '2024-03-06T12:00:00.000Z' }) };
+
+    expect((await db.previewImport({ expenses: [remote] })).expenses.map(row => row.status)).toEqual(['new']);
+    await db.importData({ expenses: [remote] }, { mode: 'merge', conflictStrategy: 'overwrite' });
+    // Merging again finds the copy added by the first merge, so it adds nothing
+    await db.importData({ expenses: [remote] }, { mode: 'merge', conflictStrategy: 'keep' });
+
+    const expenses = await db.getExpenses();
+    expect(expenses.map(e => e.title).sort()).toEqual(['Local lunch', 'Remote taxi']);
+    expect(expenses.find(e => e.title === 'Local lunch')).toMatchObject({ id, amount: 20 });
+  });
+
+  it('keeps or overwrites rows that match but whose other fields changed, as asked', async () => {
+    const db = await loadDb();
+    const taxi = makeExpense({ title: 'Taxi', amount: 30, date: '2024-03-02T22:00:00.000Z', category: 'Travel' });
+    const id = (await db.addExpense(taxi)) as number;
+    const edited = { id: 40, ...taxi, category: 'Transport', notes: 'Airport', tags: ['work'] };
+
+    const diff = await db.previewImport({ expenses: [edited] });
+    expect(diff.expenses.map(row => [row.status, row.existing?.id])).toEqual([['changed', id]]);
+
+    await db.importData({ expenses: [edited] }, { mode: 'merge', conflictStrategy: 'keep' });
+    expect((await db.getExpenses())[0]).toMatchObject({ id, category: 'Travel' });
+
+    await db.importData({ expenses: [edited] }, { mode: 'merge', conflictStrategy: 'overwrite' });
+    expect(await db.getExpenses()).toEqual([expect.objectContaining({ id, category: 'Transport', notes: 'Airport', tags: ['work'] })]);
+    expect((await db.getExpenseHistory(id)).map(entry => entry.source)).toEqual(['manual', 'import']);
+  });
+
+  it('adds back the default accounts a replaced backup lacks, keeping their ids', async () => {
+    const db = await loadDb();
+    await db.importData({ ...backup(), accounts: [{ id: 2, name: 'Travel card', type: 'credit', openingBalance: 0 }, { id: 7, name: 'Savings', type: 'bank', openingBalance: 500 }] });
+
+    expect((await db.getAccounts()).map(a => [a.id, a.name])).toEqual([[1, 'Cash Wallet'], [2, 'Travel card'], [3, 'UPI Wallet'], [4, 'Other'], [7, 'Savings']]);
+  });
+
+  it('only replaces differing settings when merging with overwrite', async () => {
+    const db = await loadDb();
+    await db.importData({ settings: { id: 1, monthlyBudget: 2500 } }, { mode: 'merge', conflictStrategy: 'keep' });
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 1000 });
+
+    await db.importData({ settings: { id: 1, monthlyBudget: 2500 } }, { mode: 'merge', conflictStrategy: 'overwrite' });
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 2500 });
+  });
+});
+
+describe('clearAllData', () => {
+  it('clears every store, adds the defaults back with their ids and reports progress', async () => {
+    const db = await loadDb();
+    await seed(db);
+    await db.updateSettings({ monthlyBudget: 4000 });
+    await db.addAccount({ name: 'Savings', type: 'bank', openingBalance: 0 });
+    const progress: OperationProgress[] = [];
+
+    await db.clearAllData(p => progress.push(p));
+
+    expect(await db.getExpenses()).toEqual([]);
+    expect(await db.getReminders()).toEqual([]);
+    expect(await names(db.getCategories)).toEqual([...defaultCategoryNames].sort());
+    expect(await names(db.getIncomeCategories)).toEqual([...defaultIncomeCategoryNames].sort());
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 1000 });
+    expect((await db.getAccounts()).map(a => a.id)).toEqual([1, 2, 3, 4]);
+    expect(progress[progress.length - 1]).toMatchObject({ done: expect.any(Number), total: expect.any(Number) });
+  });
+});
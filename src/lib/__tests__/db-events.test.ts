@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { DataChange } from '@/lib/types';
+import { journaled, loadDb, makeExpense, nextEvent } from '@/test/helpers';
+
+const channels: BroadcastChannel[] = [];
+
+// Stands in for another tab of the app
+function otherTab(): BroadcastChannel {
+  const channel = new BroadcastChannel('verdantview-data');
+  channels.push(channel);
+  return channel;
+}
+
+afterEach(() => {
+  channels.splice(0).forEach(channel => channel.close());
+});
+
+describe('dataChanged', () => {
+  it('lists the stores and keys of a single write', async () => {
+    const db = await loadDb();
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    const id = await db.addIncome({ title: 'Salary', amount: 5000, date: new Date().toISOString(), category: 'Salary' });
+    expect(await changed).toEqual({ stores: ['income'], keys: { income: [id] } });
+  });
+
+  it('lists scheduled notifications as changed without keys when a reminder is added', async () => {
+    const db = await loadDb();
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    const id = await db.addReminder({ title: 'Rent', date: new Date().toISOString() });
+    expect(await changed).toEqual({ stores: ['reminders', 'scheduledNotifications'], keys: { reminders: [id] } });
+  });
+
+  it('lists expense history as changed without keys, because it is written untracked', async () => {
+    const db = await loadDb();
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    const id = await db.addExpense(makeExpense());
+    expect(await changed).toEqual({ stores: ['expenses', 'expenseHistory'], keys: { expenses: [id] } });
+  });
+
+  it('lists the keys of every record in a batch', async () => {
+    const db = await loadDb();
+    const ids = await db.addExpenses([makeExpense(), makeExpense()]);
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    await db.deleteExpenses(ids);
+    expect((await changed).keys).toEqual({ expenses: ids });
+  });
+
+  it('lists the stores an undo wrote to', async () => {
+    const db = await loadDb();
+    const id = await journaled(db, () => db.addReminder({ title: 'Rent', date: new Date().toISOString() }));
+
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    await db.undoLastChange();
+    expect(await changed).toEqual({ stores: ['reminders'], keys: { reminders: [id] } });
+  });
+
+  it('is not emitted for reads', async () => {
+    const db = await loadDb();
+    await db.getSettings();
+    let emitted = false;
+    db.dbEvents.addEventListener('dataChanged', () => (emitted = true));
+
+    await Promise.all([db.getExpenses(), db.getCategories(), db.queryExpenses(), db.exportData()]);
+    expect(emitted).toBe(false);
+  });
+});
+
+describe('cross-tab changes', () => {
+  it('posts each change to the other tabs', async () => {
+    const db = await loadDb();
+    const tab = otherTab();
+    const received = new Promise<DataChange>(resolve => tab.addEventListener('message', event => resolve(event.data), { once: true }));
+
+    const id = await db.addReminder({ title: 'Rent', date: new Date().toISOString() });
+    expect(await received).toEqual({ stores: ['reminders', 'scheduledNotifications'], keys: { reminders: [id] } });
+  });
+
+  it('re-emits changes made in another tab, marked as remote', async () => {
+    const db = await loadDb();
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+
+    otherTab().postMessage({ stores: ['expenses'], keys: { expenses: [3] } });
+    expect(await changed).toEqual({ stores: ['expenses'], keys: { expenses: [3] }, remote: true });
+  });
+});
+
+describe('db client', () => {
+  it('runs calls on the main thread where workers are unavailable, relaying events', async () => {
+    const db = await import('@/lib/db');
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+
+    const id = await db.addExpense(makeExpense({ title: 'Lunch' }));
+    expect(await changed).toEqual({ stores: ['expenses', 'expenseHistory'], keys: { expenses: [id] } });
+    expect((await db.getExpenses()).map(e => e.title)).toEqual(['Lunch']);
+  });
+
+  it('reports progress and rejects with the original error message', async () => {
+    const db = await import('@/lib/db');
+    const progress: unknown[] = [];
+    await db.addExpenses([makeExpense()], 'import', p => progress.push(p));
+    expect(progress).not.toHaveLength(0);
+
+    await expect(db.addTransfer({ fromAccountId: 1, toAccountId: 1, amount: 5, date: new Date().toISOString() })).rejects.toThrow('Cannot transfer to the same account.');
+  });
+});
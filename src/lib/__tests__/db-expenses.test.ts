@@ -0,0 +1,282 @@
+import { describe, expect, it } from 'vitest';
+import { subMonths } from 'date-fns';
+import type { BudgetThresholdCrossed } from '@/lib/db-core';
+import type { Expense, OperationProgress } from '@/lib/types';
+import { loadDb, makeExpense, recordEvents } from '@/test/helpers';
+
+describe('expenses', () => {
+  it('adds, reads and updates expenses', async () => {
+    const db = await loadDb();
+    const id = await db.addExpense(makeExpense({ title: 'Lunch' }));
+    const [expense] = await db.getExpenses();
+    expect(expense).toEqual({ ...makeExpense({ title: 'Lunch', date: expense.date }), id });
+
+    await db.updateExpense({ ...expense, amount: 250 });
+    expect((await db.getExpenses())[0].amount).toBe(250);
+  });
+
+  it('adds a batch in one transaction and resolves with the ids in order', async () => {
+    const db = await loadDb();
+    const progress: OperationProgress[] = [];
+    const ids = await db.addExpenses([makeExpense({ title: 'A' }), makeExpense({ title: 'B' }), makeExpense({ title: 'C' })], 'import', p => progress.push(p));
+
+    const expenses = await db.getExpenses();
+    expect(ids.map(id => expenses.find(e => e.id === id)!.title)).toEqual(['A', 'B', 'C']);
+    // Each expense and its history entry count as a write
+    expect(progress[progress.length - 1]).toEqual({ done: 6, total: 6 });
+  });
+
+  it('updates several expenses at once', async () => {
+    const db = await loadDb();
+    await db.addExpenses([makeExpense({ title: 'A' }), makeExpense({ title: 'B' })]);
+    const expenses = await db.getExpenses();
+    await db.updateExpenses(expenses.map(e => ({ ...e, category: 'Travel' })));
+    expect((await db.getExpenses()).map(e => e.category)).toEqual(['Travel', 'Travel']);
+  });
+
+  it('moves deleted expenses to the Trash', async () => {
+    const db = await loadDb();
+    const [a, b, c] = await db.addExpenses([makeExpense({ title: 'A' }), makeExpense({ title: 'B' }), makeExpense({ title: 'C' })]);
+    await db.deleteExpense(a);
+    await db.deleteExpenses([b]);
+
+    expect((await db.getExpenses()).map(e => e.id)).toEqual([c]);
+    const trashed = await db.getTrashedExpenses();
+    expect(trashed.map(e => e.id).sort()).toEqual([a, b]);
+    trashed.forEach(expense => expect(expense.deletedAt).toBeTruthy());
+  });
+
+  it('reads records by key, with undefined for missing keys', async () => {
+    const db = await loadDb();
+    const id = await db.addExpense(makeExpense());
+    const [found, missing] = await db.getRecords<Expense>('expenses', [id, 999]);
+    expect(found?.id).toBe(id);
+    expect(missing).toBeUndefined();
+  });
+
+  it('finds the external ids that were already imported', async () => {
+    const db = await loadDb();
+    await db.addExpenses([makeExpense({ externalId: 'tx-1' }), makeExpense({ externalId: 'tx-2' })]);
+    expect(await db.findImportedExternalIds(['tx-1', 'tx-3'])).toEqual(new Set(['tx-1']));
+  });
+
+  it('keeps the external id of an imported expense when it is edited', async () => {
+    const db = await loadDb();
+    const id = await db.addExpense(makeExpense({ title: 'Coffee', externalId: 'tx-1' }), 'import');
+    // The expense form only sends the fields it edits
+    const { externalId: _externalId, ...edited } = (await db.getExpenses())[0];
+    await db.updateExpense({ ...edited, title: 'Espresso' });
+
+    expect((await db.getRecords<Expense>('expenses', [id]))[0]).toMatchObject({ title: 'Espresso', externalId: 'tx-1' });
+    expect(await db.findImportedExternalIds(['tx-1'])).toEqual(new Set(['tx-1']));
+  });
+
+  it('lists every tag once, in alphabetical order', async () => {
+    const db = await loadDb();
+    await db.addExpenses([makeExpense({ tags: ['work', 'travel'] }), makeExpense({ tags: ['reimbursable', 'work'] }), makeExpense()]);
+    expect(await db.getTags()).toEqual(['reimbursable', 'travel', 'work']);
+  });
+});
+
+describe('expense history', () => {
+  it('records how each expense was created, changed and deleted', async () => {
+    const db = await loadDb();
+    const id = (await db.addExpense(makeExpense({ title: 'Coffee' }), 'scan')) as number;
+    const [expense] = await db.getExpenses();
+    await db.updateExpense({ ...expense, title: 'Flat white', amount: 180 });
+    // Saving without changes doesn't add an entry
+    await db.updateExpense({ ...expense, title: 'Flat white', amount: 180 });
+    await db.deleteExpense(id);
+    await db.restoreExpenses([id]);
+
+    const history = await db.getExpenseHistory(id);
+    expect(history.map(entry => [entry.action, entry.source])).toEqual([
+      ['created', 'scan'],
+      ['updated', 'manual'],
+      ['deleted', 'manual'],
+      ['restored', 'manual'],
+    ]);
+    expect(history[1].changes).toEqual([
+      { field: 'title', from: 'Coffee', to: 'Flat white' },
+      { field: 'amount', from: 100, to: 180 },
+    ]);
+  });
+
+  it('reverts an expense to an earlier version', async () => {
+    const db = await loadDb();
+    const id = (await db.addExpense(makeExpense({ title: 'Coffee' }))) as number;
+    const [expense] = await db.getExpenses();
+    await db.updateExpense({ ...expense, title: 'Tea' });
+
+    const [created] = await db.getExpenseHistory(id);
+    await db.revertExpense(created.id!);
+
+    expect((await db.getExpenses())[0].title).toBe('Coffee');
+    const history = await db.getExpenseHistory(id);
+    expect(history[history.length - 1]).toMatchObject({ action: 'updated', source: 'revert' });
+  });
+
+  it('keeps a reverted expense in the Trash', async () => {
+    const db = await loadDb();
+    const id = (await db.addExpense(makeExpense({ title: 'Coffee' }))) as number;
+    const [expense] = await db.getExpenses();
+    await db.updateExpense({ ...expense, title: 'Tea' });
+    await db.deleteExpense(id);
+
+    const [created] = await db.getExpenseHistory(id);
+    await db.revertExpense(created.id!);
+    const [trashed] = await db.getTrashedExpenses();
+    expect(trashed).toMatchObject({ title: 'Coffee', deletedAt: expect.any(String) });
+  });
+});
+
+describe('budget alerts', () => {
+  it('emits budgetThresholdCrossed for each threshold an expense pushes spending past', async () => {
+    const db = await loadDb();
+    await db.saveBudget({ category: 'Dining', amount: 1000, rollover: false, thresholds: [50, 80, 100], startDate: new Date().toISOString() });
+    const alerts = recordEvents<BudgetThresholdCrossed>(db.dbEvents, 'budgetThresholdCrossed');
+
+    await db.addExpense(makeExpense({ amount: 400 }));
+    await db.addExpense(makeExpense({ amount: 450 }));
+    // Expenses from another month don't count towards this month's budget
+    await db.addExpense(makeExpense({ amount: 5000, date: subMonths(new Date(), 1).toISOString() }));
+
+    expect(alerts().map(alert => alert.threshold)).toEqual([50, 80]);
+  });
+
+  it('checks a batch against spending before the whole batch was added', async () => {
+    const db = await loadDb();
+    await db.saveBudget({ category: 'Dining', amount: 1000, rollover: false, thresholds: [50, 80, 100], startDate: new Date().toISOString() });
+    await db.saveBudget({ category: 'Travel', amount: 1000, rollover: false, thresholds: [50], startDate: new Date().toISOString() });
+    const alerts = recordEvents<BudgetThresholdCrossed>(db.dbEvents, 'budgetThresholdCrossed');
+
+    await db.addExpenses([
+      makeExpense({ amount: 300 }),
+      makeExpense({ amount: 300 }),
+      makeExpense({ amount: 300, category: 'Travel' }),
+      makeExpense({ amount: 300 }),
+    ]);
+
+    expect(alerts().map(alert => [alert.status.budget.category, alert.threshold])).toEqual([['Dining', 50], ['Dining', 80]]);
+  });
+
+  it('alerts once for a budget with nothing available', async () => {
+    const db = await loadDb();
+    await db.saveBudget({ category: 'Dining', amount: 0, rollover: false, thresholds: [80, 100], startDate: new Date().toISOString() });
+    const alerts = recordEvents<BudgetThresholdCrossed>(db.dbEvents, 'budgetThresholdCrossed');
+
+    await db.addExpense(makeExpense({ amount: 50 }));
+    await db.addExpense(makeExpense({ amount: 70 }));
+
+    expect(alerts().map(alert => alert.threshold)).toEqual([80, 100]);
+  });
+
+  it('counts only the user’s own share of split expenses', async () => {
+    const db = await loadDb();
+    await db.saveBudget({ category: 'Dining', amount: 1000, rollover: false, thresholds: [50, 100], startDate: new Date().toISOString() });
+    const alerts = recordEvents<BudgetThresholdCrossed>(db.dbEvents, 'budgetThresholdCrossed');
+
+    await db.addExpense(makeExpense({
+      amount: 1200,
+      split: { groupId: 1, paidBy: 'You', method: 'equal', shares: [{ member: 'You', value: 1 }, { member: 'Sam', value: 1 }] },
+    }));
+
+    expect(alerts().map(alert => [alert.threshold, alert.status.spent])).toEqual([[50, 600]]);
+  });
+});
+
+describe('expense queries', () => {
+  const days = ['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-04', '2024-03-05'];
+
+  async function seed() {
+    const db = await loadDb();
+    await db.addExpenses(days.flatMap((day, i) => [
+      makeExpense({ title: `Dining ${i}`, date: `${day}T12:00:00.000Z`, amount: 100, category: 'Dining', paymentMode: i % 2 === 0 ? 'Cash' : 'Card' }),
+      makeExpense({ title: `Travel ${i}`, date: `${day}T18:00:00.000Z`, amount: 50, category: 'Travel', paymentMode: 'Online' }),
+    ]));
+    return db;
+  }
+
+  it('pages through results newest first without skipping or repeating any', async () => {
+    const db = await seed();
+    const titles: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await db.queryExpenses({}, { limit: 3, cursor });
+      titles.push(...page.expenses.map(e => e.title));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(titles).toEqual(['Travel 4', 'Dining 4', 'Travel 3', 'Dining 3', 'Travel 2', 'Dining 2', 'Travel 1', 'Dining 1', 'Travel 0', 'Dining 0']);
+  });
+
+  it('pages oldest first within a category and date range', async () => {
+    const db = await seed();
+    const query = { category: 'Dining', from: '2024-03-02T00:00:00.000Z', to: '2024-03-04T23:59:59.999Z', direction: 'asc' as const };
+    const first = await db.queryExpenses(query, { limit: 2 });
+    expect(first.expenses.map(e => e.title)).toEqual(['Dining 1', 'Dining 2']);
+    const second = await db.queryExpenses(query, { limit: 2, cursor: first.nextCursor });
+    expect(second.expenses.map(e => e.title)).toEqual(['Dining 3']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('keeps paging from the same place after the last expense of a page is deleted', async () => {
+    const db = await seed();
+    const first = await db.queryExpenses({ paymentMode: 'Online' }, { limit: 2 });
+    await db.deleteExpense(first.expenses[1].id!);
+    const second = await db.queryExpenses({ paymentMode: 'Online' }, { limit: 2, cursor: first.nextCursor });
+    expect(second.expenses.map(e => e.title)).toEqual(['Travel 2', 'Travel 1']);
+  });
+
+  it('filters by payment mode and category together', async () => {
+    const db = await seed();
+    const { expenses } = await db.queryExpenses({ category: 'Dining', paymentMode: 'Card' });
+    expect(expenses.map(e => e.title)).toEqual(['Dining 3', 'Dining 1']);
+    expect(await db.countExpenses({ category: 'Dining', paymentMode: 'Card' })).toBe(2);
+  });
+
+  it('counts matching expenses, leaving out the Trash', async () => {
+    const db = await seed();
+    const [trashed] = (await db.queryExpenses({ category: 'Travel' }, { limit: 1 })).expenses;
+    await db.deleteExpense(trashed.id!);
+
+    expect(await db.countExpenses()).toBe(9);
+    expect(await db.countExpenses({ category: 'Travel' })).toBe(4);
+    expect(await db.countExpenses({ from: '2024-03-05T00:00:00.000Z' })).toBe(1);
+    expect((await db.queryExpenses({ category: 'Travel' })).expenses).toHaveLength(4);
+  });
+
+  it('sums amounts and the user’s own share of split expenses', async () => {
+    const db = await loadDb();
+    await db.addExpenses([
+      makeExpense({ amount: 300, date: '2024-03-01T10:00:00.000Z' }),
+      makeExpense({
+        amount: 200,
+        date: '2024-03-01T11:00:00.000Z',
+        split: { groupId: 1, paidBy: 'You', method: 'equal', shares: [{ member: 'You', value: 1 }, { member: 'Sam', value: 1 }] },
+      }),
+    ]);
+    expect(await db.sumExpenses({ from: '2024-03-01T00:00:00.000Z' })).toEqual({ count: 2, total: 500, ownTotal: 400 });
+  });
+
+  it('sums expenses by category and payment mode', async () => {
+    const db = await seed();
+    expect(await db.sumExpensesBy({}, 'category')).toEqual({
+      Dining: { count: 5, total: 500, ownTotal: 500 },
+      Travel: { count: 5, total: 250, ownTotal: 250 },
+    });
+    expect(await db.sumExpensesBy({ category: 'Dining' }, 'paymentMode')).toEqual({
+      Cash: { count: 3, total: 300, ownTotal: 300 },
+      Card: { count: 2, total: 200, ownTotal: 200 },
+    });
+    expect(Object.keys(await db.sumExpensesBy({}, 'month'))).toEqual(['2024-03']);
+  });
+
+  it('sums expenses by local day', async () => {
+    const db = await loadDb();
+    const morning = new Date(2024, 2, 10, 9);
+    const evening = new Date(2024, 2, 10, 21);
+    await db.addExpenses([makeExpense({ date: morning.toISOString() }), makeExpense({ date: evening.toISOString() })]);
+    expect(await db.sumExpensesBy({}, 'day')).toEqual({ '2024-03-10': { count: 2, total: 200, ownTotal: 200 } });
+  });
+});
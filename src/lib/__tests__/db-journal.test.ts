@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalEntry } from '@/lib/types';
+import { DB_VERSION } from '@/lib/migrations';
+import { journaled, loadDb, makeExpense, nextEvent } from '@/test/helpers';
+
+describe('undo journal', () => {
+  it('undoes and redoes the last change', async () => {
+    const db = await loadDb();
+    const id = (await journaled(db, () => db.addExpense(makeExpense({ title: 'Lunch' })))) as number;
+
+    const undone = await db.undoLastChange();
+    expect(undone).toMatchObject({ label: 'Added expense', undoneAt: expect.any(String) });
+    expect(await db.getExpenses()).toEqual([]);
+    // Nothing is left to undo
+    expect(await db.undoLastChange()).toBeNull();
+
+    const redone = await db.redoLastChange();
+    expect(redone?.undoneAt).toBeUndefined();
+    expect((await db.getExpenses()).map(e => [e.id, e.title])).toEqual([[id, 'Lunch']]);
+    expect(await db.redoLastChange()).toBeNull();
+  });
+
+  it('emits journalRecorded with each entry', async () => {
+    const db = await loadDb();
+    const recorded = nextEvent<JournalEntry>(db.dbEvents, 'journalRecorded');
+    const id = (await db.addExpense(makeExpense())) as number;
+
+    const entry = await recorded;
+    expect(entry).toMatchObject({ id: expect.any(Number), label: 'Added expense' });
+    expect(entry.changes).toEqual([{ store: 'expenses', key: id, after: expect.objectContaining({ id, title: 'Coffee' }) }]);
+  });
+
+  it('undoes changes in order, newest first', async () => {
+    const db = await loadDb();
+    const id = (await journaled(db, () => db.addExpense(makeExpense({ amount: 100 })))) as number;
+    const [expense] = await db.getExpenses();
+    await journaled(db, () => db.updateExpense({ ...expense, amount: 150 }));
+    await journaled(db, () => db.deleteExpense(id));
+
+    await db.undoLastChange();
+    expect((await db.getExpenses())[0].amount).toBe(150);
+    await db.undoLastChange();
+    expect((await db.getExpenses())[0].amount).toBe(100);
+    // Undo shows up in the expense's history rather than erasing it
+    expect((await db.getExpenseHistory(id)).map(entry => entry.source)).toEqual(['manual', 'manual', 'manual', 'undo', 'undo']);
+  });
+
+  it('refuses to undo an entry that isn’t the most recent change', async () => {
+    const db = await loadDb();
+    const recorded = nextEvent<JournalEntry>(db.dbEvents, 'journalRecorded');
+    await db.addExpense(makeExpense({ title: 'First' }));
+    const first = await recorded;
+    await journaled(db, () => db.addExpense(makeExpense({ title: 'Second' })));
+
+    await expect(db.undoLastChange(first.id)).rejects.toThrow('Undo the changes made after this one first.');
+    expect(await db.getExpenses()).toHaveLength(2);
+  });
+
+  it('drops the changes that were undone once something new is recorded', async () => {
+    const db = await loadDb();
+    await journaled(db, () => db.addExpense(makeExpense({ title: 'First' })));
+    await db.undoLastChange();
+    await journaled(db, () => db.addExpense(makeExpense({ title: 'Second' })));
+
+    expect(await db.redoLastChange()).toBeNull();
+    expect((await db.getExpenses()).map(e => e.title)).toEqual(['Second']);
+  });
+
+  it('brings back everything clearAllData removed', async () => {
+    const db = await loadDb();
+    await db.addExpense(makeExpense({ title: 'Lunch' }));
+    await db.addCategory({ name: 'Pets' });
+    await journaled(db, () => db.updateSettings({ monthlyBudget: 4000 }));
+
+    await journaled(db, () => db.clearAllData());
+    expect(await db.getExpenses()).toEqual([]);
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 1000 });
+
+    const undone = await db.undoLastChange();
+    expect(undone?.label).toBe('Cleared all data');
+    expect((await db.getExpenses()).map(e => e.title)).toEqual(['Lunch']);
+    expect((await db.getCategories()).some(c => c.name === 'Pets')).toBe(true);
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 4000 });
+  });
+
+  it('brings back the data a backup replaced', async () => {
+    const db = await loadDb();
+    await journaled(db, () => db.addExpense(makeExpense({ title: 'Lunch' })));
+    const [lunch] = await db.getExpenses();
+    await journaled(db, () => db.importData({ schemaVersion: DB_VERSION, expenses: [{ id: 1, ...makeExpense({ title: 'Rent' }) }] }));
+
+    const undone = await db.undoLastChange();
+    expect(undone?.label).toBe('Imported a backup');
+    expect((await db.getExpenses()).map(e => e.title)).toEqual(['Lunch']);
+    expect((await db.getExpenseHistory(lunch.id!)).length).toBeGreaterThan(0);
+  });
+
+  it('undoes a category rename everywhere it was used', async () => {
+    const db = await loadDb();
+    await journaled(db, () => db.addExpense(makeExpense({ category: 'Dining' })));
+    const dining = (await db.getCategories()).find(c => c.name === 'Dining')!;
+    await journaled(db, () => db.renameCategory(dining.id!, 'Eating out'));
+    expect((await db.getExpenses())[0].category).toBe('Eating out');
+
+    expect((await db.undoLastChange())?.label).toBe('Renamed category to Eating out');
+    expect((await db.getExpenses())[0].category).toBe('Dining');
+    expect((await db.getCategories()).some(c => c.name === 'Dining')).toBe(true);
+  });
+});
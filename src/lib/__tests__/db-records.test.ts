@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import type { CsvMapping, DataChange, ExpenseFilters } from '@/lib/types';
+import { loadDb, makeExpense, recordEvents } from '@/test/helpers';
+
+describe('income', () => {
+  it('adds, updates and deletes income', async () => {
+    const db = await loadDb();
+    const id = (await db.addIncome({ title: 'Salary', amount: 5000, date: '2024-03-01T00:00:00.000Z', category: 'Salary' })) as number;
+    await db.updateIncome({ id, title: 'Salary', amount: 5200, date: '2024-03-01T00:00:00.000Z', category: 'Salary' });
+    expect((await db.getIncome())[0].amount).toBe(5200);
+
+    await db.deleteIncome(id);
+    expect(await db.getIncome()).toEqual([]);
+  });
+
+  it('deletes income categories, but not the defaults', async () => {
+    const db = await loadDb();
+    const id = (await db.addIncomeCategory({ name: 'Freelance' })) as number;
+    await db.deleteIncomeCategory(id);
+    expect((await db.getIncomeCategories()).some(c => c.name === 'Freelance')).toBe(false);
+
+    const salary = (await db.getIncomeCategories()).find(c => c.name === 'Salary')!;
+    const changes = recordEvents<DataChange>(db.dbEvents, 'dataChanged');
+    await expect(db.deleteIncomeCategory(salary.id!)).rejects.toThrow('Cannot delete a default income category.');
+    expect((await db.getIncomeCategories()).some(c => c.name === 'Salary')).toBe(true);
+    expect(changes()).toEqual([]);
+  });
+});
+
+describe('accounts and transfers', () => {
+  it('adds and updates accounts', async () => {
+    const db = await loadDb();
+    const id = (await db.addAccount({ name: 'Savings', type: 'bank', openingBalance: 1000 })) as number;
+    await db.updateAccount({ id, name: 'Savings', type: 'bank', openingBalance: 1000, archived: true });
+    expect((await db.getAccounts()).find(a => a.id === id)).toEqual({ id, name: 'Savings', type: 'bank', openingBalance: 1000, archived: true });
+  });
+
+  it('adds and deletes transfers between two accounts', async () => {
+    const db = await loadDb();
+    const id = (await db.addTransfer({ fromAccountId: 2, toAccountId: 1, amount: 200, date: '2024-03-01T00:00:00.000Z' })) as number;
+    expect(await db.getTransfers()).toEqual([{ id, fromAccountId: 2, toAccountId: 1, amount: 200, date: '2024-03-01T00:00:00.000Z' }]);
+
+    await db.deleteTransfer(id);
+    expect(await db.getTransfers()).toEqual([]);
+  });
+
+  it('refuses a transfer to the same account', async () => {
+    const db = await loadDb();
+    await expect(db.addTransfer({ fromAccountId: 1, toAccountId: 1, amount: 200, date: '2024-03-01T00:00:00.000Z' })).rejects.toThrow('Cannot transfer to the same account.');
+    expect(await db.getTransfers()).toEqual([]);
+  });
+});
+
+describe('groups and settlements', () => {
+  const settlement = (groupId: number) => ({ groupId, from: 'Sam', to: 'You', amount: 25, date: '2024-03-01T00:00:00.000Z' });
+
+  it('adds and updates groups and settlements', async () => {
+    const db = await loadDb();
+    const groupId = (await db.addGroup({ name: 'Flat', members: ['You', 'Sam'] })) as number;
+    await db.updateGroup({ id: groupId, name: 'Flat', members: ['You', 'Sam', 'Alex'] });
+    expect((await db.getGroups())[0].members).toEqual(['You', 'Sam', 'Alex']);
+
+    const settlementId = (await db.addSettlement(settlement(groupId))) as number;
+    expect(await db.getSettlements()).toEqual([{ ...settlement(groupId), id: settlementId }]);
+    await db.deleteSettlement(settlementId);
+    expect(await db.getSettlements()).toEqual([]);
+  });
+
+  it('deletes a group along with its settlements', async () => {
+    const db = await loadDb();
+    const flat = (await db.addGroup({ name: 'Flat', members: ['You', 'Sam'] })) as number;
+    const trip = (await db.addGroup({ name: 'Trip', members: ['You', 'Sam'] })) as number;
+    await db.addSettlement(settlement(flat));
+    await db.addSettlement(settlement(trip));
+
+    await db.deleteGroup(flat);
+    expect((await db.getGroups()).map(g => g.name)).toEqual(['Trip']);
+    expect((await db.getSettlements()).map(s => s.groupId)).toEqual([trip]);
+  });
+
+  it('keeps a group that still has shared expenses', async () => {
+    const db = await loadDb();
+    const groupId = (await db.addGroup({ name: 'Flat', members: ['You', 'Sam'] })) as number;
+    await db.addExpense(makeExpense({ split: { groupId, paidBy: 'You', method: 'equal', shares: [{ member: 'You', value: 1 }, { member: 'Sam', value: 1 }] } }));
+
+    const changes = recordEvents<DataChange>(db.dbEvents, 'dataChanged');
+    await expect(db.deleteGroup(groupId)).rejects.toThrow('Cannot delete a group that has shared expenses.');
+    expect(await db.getGroups()).toHaveLength(1);
+    expect(changes()).toEqual([]);
+  });
+});
+
+describe('CSV mappings', () => {
+  const mapping = (dateFormat: string): Omit<CsvMapping, 'id'> => ({
+    name: 'Acme Bank',
+    delimiter: ',',
+    hasHeader: true,
+    dateFormat,
+    amountColumns: 'single',
+    debitsAreNegative: true,
+    defaultPaymentMode: 'Card',
+    columns: { date: 0, title: 1, amount: 2 },
+  });
+
+  it('replaces the mapping with the same name', async () => {
+    const db = await loadDb();
+    const id = await db.saveCsvMapping(mapping('dd/MM/yyyy'));
+    expect(await db.saveCsvMapping(mapping('yyyy-MM-dd'))).toBe(id);
+    expect(await db.getCsvMappings()).toEqual([{ ...mapping('yyyy-MM-dd'), id }]);
+
+    await db.deleteCsvMapping(id as number);
+    expect(await db.getCsvMappings()).toEqual([]);
+  });
+});
+
+describe('rules', () => {
+  const rule = (name: string, match: string, category: string) => ({
+    name,
+    enabled: true,
+    conditions: [{ field: 'title' as const, operator: 'contains' as const, value: match }],
+    actions: { category },
+  });
+
+  it('adds each rule after the existing ones and saves a new order', async () => {
+    const db = await loadDb();
+    const first = (await db.addRule(rule('Cafes', 'cafe', 'Dining'))) as number;
+    const second = (await db.addRule(rule('Trains', 'rail', 'Travel'))) as number;
+    expect((await db.getRules()).map(r => [r.id, r.priority])).toEqual([[first, 0], [second, 1]]);
+
+    await db.reorderRules([second, first]);
+    expect((await db.getRules()).map(r => r.id)).toEqual([second, first]);
+  });
+
+  it('updates and deletes rules', async () => {
+    const db = await loadDb();
+    const id = (await db.addRule(rule('Cafes', 'cafe', 'Dining'))) as number;
+    await db.updateRule({ ...(await db.getRules())[0], enabled: false });
+    expect((await db.getRules())[0].enabled).toBe(false);
+
+    await db.deleteRule(id);
+    expect(await db.getRules()).toEqual([]);
+  });
+
+  it('applies the rules to stored expenses, leaving out the Trash', async () => {
+    const db = await loadDb();
+    const [cafe, train, trashed] = await db.addExpenses([
+      makeExpense({ title: 'Corner cafe', category: 'Other' }),
+      makeExpense({ title: 'National rail', category: 'Other' }),
+      makeExpense({ title: 'Old cafe', category: 'Other' }),
+    ]);
+    await db.deleteExpense(trashed);
+    await db.addRule(rule('Cafes', 'cafe', 'Dining'));
+
+    const changes = recordEvents<DataChange>(db.dbEvents, 'dataChanged');
+    expect(await db.applyRulesToExpenses()).toBe(1);
+    expect(changes().filter(change => change.stores.includes('expenses')).map(change => change.keys)).toEqual([{ expenses: [cafe] }]);
+
+    const [expenses, inTrash] = await Promise.all([db.getExpenses(), db.getTrashedExpenses()]);
+    expect(expenses.find(e => e.id === cafe)!.category).toBe('Dining');
+    expect(expenses.find(e => e.id === train)!.category).toBe('Other');
+    expect(inTrash[0].category).toBe('Other');
+    expect((await db.getExpenseHistory(cafe)).map(entry => entry.source)).toEqual(['manual', 'rule']);
+  });
+});
+
+describe('saved views', () => {
+  const filters = (category: string): ExpenseFilters => ({ query: '', category, tags: [], sort: 'date', direction: 'desc' });
+
+  it('replaces the view with the same name', async () => {
+    const db = await loadDb();
+    const id = await db.saveView({ name: 'Dining', filters: filters('Dining'), createdAt: '2024-03-01T00:00:00.000Z' });
+    expect(await db.saveView({ name: 'Dining', filters: filters('Food'), createdAt: '2024-03-02T00:00:00.000Z' })).toBe(id);
+    expect((await db.getSavedViews()).map(v => [v.id, v.filters.category])).toEqual([[id, 'Food']]);
+
+    await db.deleteSavedView(id as number);
+    expect(await db.getSavedViews()).toEqual([]);
+  });
+});
+
+describe('attachments', () => {
+  const attachment = (expenseIds: number[]) => ({
+    expenseIds,
+    name: 'receipt.txt',
+    type: 'text/plain',
+    size: 5,
+    blob: new Blob(['hello'], { type: 'text/plain' }),
+    createdAt: '2024-03-01T00:00:00.000Z',
+  });
+
+  it('finds the attachments of an expense', async () => {
+    const db = await loadDb();
+    const [a, b] = await db.addExpenses([makeExpense(), makeExpense()]);
+    const shared = await db.addAttachment(attachment([a, b]));
+    await db.addAttachment(attachment([b]));
+
+    expect((await db.getAttachmentsForExpense(a)).map(x => x.id)).toEqual([shared]);
+    expect(await db.getAttachmentsForExpense(b)).toHaveLength(2);
+    expect(await db.getAttachments()).toHaveLength(2);
+  });
+
+  it('detaches an attachment from one expense and deletes it once no expense uses it', async () => {
+    const db = await loadDb();
+    const [a, b] = await db.addExpenses([makeExpense(), makeExpense()]);
+    const id = (await db.addAttachment(attachment([a, b]))) as number;
+
+    await db.detachAttachment(id, a);
+    expect((await db.getAttachments())[0].expenseIds).toEqual([b]);
+    await db.detachAttachment(id, b);
+    expect(await db.getAttachments()).toEqual([]);
+  });
+});
+
+describe('settings', () => {
+  it('always saves settings under id 1', async () => {
+    const db = await loadDb();
+    await db.updateSettings({ id: 7, monthlyBudget: 3000 });
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 3000 });
+  });
+
+  it('keeps the settings that weren’t changed', async () => {
+    const db = await loadDb();
+    await db.updateSettings({ quietHours: { start: '22:00', end: '07:00' } });
+    await db.updateSettings({ monthlyBudget: 3000 });
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 3000, quietHours: { start: '22:00', end: '07:00' } });
+  });
+});
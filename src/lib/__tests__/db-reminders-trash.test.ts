@@ -0,0 +1,355 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, startOfDay, subDays, subHours } from 'date-fns';
+import { TRASH_RETENTION_DAYS } from '@/lib/journal';
+import { DEFAULT_DUE_TIME, afterQuietHours, atTimeOfDay, billStatus, describeLeadTime, leadTimeOptions, nextDueDate } from '@/lib/reminders';
+import type { DataChange, RecurringExpense, Reminder } from '@/lib/types';
+import { journaled, loadDb, makeExpense, nextEvent, openRaw, recordEvents, requestResult, type Db } from '@/test/helpers';
+
+const receipt = (expenseIds: number[]) => ({
+  expenseIds,
+  name: 'receipt.txt',
+  type: 'text/plain',
+  size: 5,
+  blob: new Blob(['hello'], { type: 'text/plain' }),
+  createdAt: '2024-03-01T00:00:00.000Z',
+});
+
+const DAY = 24 * 60;
+
+// Waits for the reminder's dataChanged event, so it isn't mistaken for a later one
+const addReminder = async (db: Db, title: string, date: Date, bill: Partial<Reminder> = {}) =>
+  (await journaled(db, () => db.addReminder({ title, date: date.toISOString(), ...bill }))) as number;
+
+describe('reminders', () => {
+  it('adds reminders and moves deleted ones to the Trash', async () => {
+    const db = await loadDb();
+    const id = (await db.addReminder({ title: 'Rent', date: addDays(new Date(), 3).toISOString() })) as number;
+    expect((await db.getReminders()).map(r => r.id)).toEqual([id]);
+
+    await db.deleteReminder(id);
+    expect(await db.getReminders()).toEqual([]);
+    expect((await db.getTrashedReminders()).map(r => r.id)).toEqual([id]);
+  });
+
+  it('clears paid reminders dated before today with a cursor, reporting each deleted key', async () => {
+    const db = await loadDb();
+    const today = startOfDay(new Date());
+    const lastWeek = await addReminder(db, 'Last week', subDays(today, 7));
+    await addReminder(db, 'Yesterday', subDays(today, 1));
+    const paidToday = await addReminder(db, 'Today', today);
+    await addReminder(db, 'Tomorrow', addDays(today, 1));
+    await db.markReminderPaid(lastWeek);
+    await db.markReminderPaid(paidToday);
+
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    await db.clearOldReminders();
+
+    expect(await changed).toEqual({ stores: ['reminders'], keys: { reminders: [lastWeek] } });
+    // Unpaid reminders stay, as overdue
+    expect((await db.getReminders()).map(r => [r.title, billStatus(r)])).toEqual([['Yesterday', 'overdue'], ['Today', 'paid'], ['Tomorrow', 'unpaid']]);
+    // Old reminders are deleted outright rather than moved to the Trash
+    expect(await db.getTrashedReminders()).toEqual([]);
+  });
+
+  it('emits nothing when there are no old reminders', async () => {
+    const db = await loadDb();
+    await addReminder(db, 'Tomorrow', addDays(new Date(), 1));
+
+    const changes = recordEvents<DataChange>(db.dbEvents, 'dataChanged');
+    await db.clearOldReminders();
+    expect(changes()).toEqual([]);
+  });
+});
+
+describe('bills', () => {
+  const electricity: Partial<Reminder> = { amount: 1200, category: 'Utilities', paymentMode: 'Online', accountId: 3 };
+
+  it('marks a bill paid, adding the matching expense', async () => {
+    const db = await loadDb();
+    const id = await addReminder(db, 'Electricity', addDays(new Date(), 3), electricity);
+    const paidAt = new Date();
+
+    const expenseId = await db.markReminderPaid(id, paidAt);
+
+    const [expense] = await db.getExpenses();
+    expect(expense).toEqual({ id: expenseId, title: 'Electricity', amount: 1200, date: paidAt.toISOString(), category: 'Utilities', paymentMode: 'Online', accountId: 3, reminderId: id });
+    expect((await db.getExpenseHistory(expenseId!))[0]).toMatchObject({ action: 'created', source: 'manual' });
+    const [reminder] = await db.getReminders();
+    expect(reminder.paidAt).toBe(paidAt.toISOString());
+    expect(billStatus(reminder)).toBe('paid');
+
+    // Paying it again does nothing
+    expect(await db.markReminderPaid(id)).toBeUndefined();
+    expect(await db.getExpenses()).toHaveLength(1);
+  });
+
+  it('marks a reminder without an amount paid without adding an expense', async () => {
+    const db = await loadDb();
+    const id = await addReminder(db, 'Renew passport', addDays(new Date(), 3));
+    expect(await db.markReminderPaid(id)).toBeUndefined();
+    expect(await db.getExpenses()).toEqual([]);
+    expect(billStatus((await db.getReminders())[0])).toBe('paid');
+  });
+
+  it('moves a recurring bill on to its next due date, keeping its day of the month', async () => {
+    const db = await loadDb();
+    const due = new Date(2030, 0, 31);
+    const id = await addReminder(db, 'Rent', due, { ...electricity, recurrence: { frequency: 'monthly', dayOfMonth: 31 } });
+
+    await db.markReminderPaid(id);
+    let [reminder] = await db.getReminders();
+    expect(new Date(reminder.date)).toEqual(new Date(2030, 1, 28));
+    expect(billStatus(reminder)).toBe('unpaid');
+
+    await db.markReminderPaid(id);
+    [reminder] = await db.getReminders();
+    expect(new Date(reminder.date)).toEqual(new Date(2030, 2, 31));
+    expect(await db.getExpenses()).toHaveLength(2);
+
+    // Notifications are scheduled for each new due date
+    const forDate = (date: string) => db.getScheduledNotifications().then(all => all.filter(n => n.dueDate === date).map(n => n.leadMinutes));
+    expect(await forDate(reminder.date)).toEqual([DAY, 0]);
+    expect(await db.syncReminderNotifications()).toBe(0);
+  });
+
+  it('rolls quarterly and yearly bills over to the last day of shorter months', () => {
+    expect(nextDueDate(new Date(2024, 10, 30, 9), { frequency: 'quarterly', dayOfMonth: 30 })).toEqual(new Date(2025, 1, 28, 9));
+    expect(nextDueDate(new Date(2024, 1, 29), { frequency: 'yearly', dayOfMonth: 29 })).toEqual(new Date(2025, 1, 28));
+  });
+
+  it('reports unpaid bills due before today as overdue', () => {
+    const today = startOfDay(new Date());
+    expect(billStatus({ title: 'Rent', date: subDays(today, 1).toISOString() })).toBe('overdue');
+    expect(billStatus({ title: 'Rent', date: today.toISOString() })).toBe('unpaid');
+    expect(billStatus({ title: 'Rent', date: subDays(today, 1).toISOString(), paidAt: today.toISOString() })).toBe('paid');
+  });
+
+  it('puts the bill back and removes the expense on undo', async () => {
+    const db = await loadDb();
+    const due = new Date(2030, 0, 15);
+    const id = await addReminder(db, 'Rent', due, { ...electricity, recurrence: { frequency: 'monthly', dayOfMonth: 15 } });
+    await journaled(db, () => db.markReminderPaid(id));
+
+    expect(await db.undoLastChange()).toMatchObject({ label: 'Marked bill as paid' });
+    expect(await db.getExpenses()).toEqual([]);
+    expect(await db.getReminders()).toEqual([expect.objectContaining({ id, date: due.toISOString() })]);
+    expect((await db.getReminders())[0].paidAt).toBeUndefined();
+  });
+});
+
+describe('scheduled notifications', () => {
+  it('by default, schedules a notification for the day before a reminder and one for the day it is due', async () => {
+    const db = await loadDb();
+    const due = addDays(startOfDay(new Date()), 5);
+    const id = await addReminder(db, 'Rent', due);
+
+    expect(await db.getScheduledNotifications()).toEqual([
+      expect.objectContaining({ reminderId: id, leadMinutes: DAY, title: 'Upcoming: Rent', at: subDays(due, 1).toISOString(), status: 'pending' }),
+      expect.objectContaining({ reminderId: id, leadMinutes: 0, title: 'Due Today: Rent', at: due.toISOString(), status: 'pending' }),
+    ]);
+  });
+
+  it('schedules a notification for each lead time the reminder picks, earliest first', async () => {
+    const db = await loadDb();
+    const due = addDays(startOfDay(new Date()), 10);
+    await addReminder(db, 'Insurance', due, { notifyBefore: [0, 2 * 60, 7 * DAY] });
+
+    expect((await db.getScheduledNotifications()).map(n => [n.leadMinutes, n.body, n.at])).toEqual([
+      [7 * DAY, 'Due in 7 days.', subDays(due, 7).toISOString()],
+      [2 * 60, 'Due in 2 hours.', subHours(due, 2).toISOString()],
+      [0, 'Payment is due today.', due.toISOString()],
+    ]);
+    expect(leadTimeOptions.map(describeLeadTime)).toEqual(['7 days before', '3 days before', '1 day before', '2 hours before', 'On the due date']);
+  });
+
+  it('counts lead times back from the time of day a reminder is due', async () => {
+    const db = await loadDb();
+    const due = atTimeOfDay(addDays(new Date(), 10), DEFAULT_DUE_TIME);
+    expect([due.getHours(), due.getMinutes()]).toEqual([9, 0]);
+    await addReminder(db, 'Insurance', due, { notifyBefore: [2 * 60, 0] });
+
+    expect((await db.getScheduledNotifications()).map(n => new Date(n.at).getHours())).toEqual([7, 9]);
+  });
+
+  it('holds notifications due in quiet hours until they end', () => {
+    const night = { start: '22:00', end: '07:00' };
+    expect(afterQuietHours(new Date(2030, 0, 1, 23, 30), night)).toEqual(new Date(2030, 0, 2, 7));
+    expect(afterQuietHours(new Date(2030, 0, 2, 0, 0), night)).toEqual(new Date(2030, 0, 2, 7));
+    expect(afterQuietHours(new Date(2030, 0, 2, 7, 0), night)).toEqual(new Date(2030, 0, 2, 7));
+    expect(afterQuietHours(new Date(2030, 0, 2, 12, 0), night)).toEqual(new Date(2030, 0, 2, 12));
+    expect(afterQuietHours(new Date(2030, 0, 2, 13, 30), { start: '13:00', end: '14:00' })).toEqual(new Date(2030, 0, 2, 14));
+    expect(afterQuietHours(new Date(2030, 0, 2, 13, 30))).toEqual(new Date(2030, 0, 2, 13, 30));
+  });
+
+  it('only schedules the due notification for a reminder due today', async () => {
+    const db = await loadDb();
+    await addReminder(db, 'Rent', startOfDay(new Date()));
+    expect((await db.getScheduledNotifications()).map(n => n.leadMinutes)).toEqual([0]);
+  });
+
+  it('schedules imported reminders on sync, leaving out the Trash and what is already scheduled', async () => {
+    const db = await loadDb();
+    const due = addDays(new Date(), 5);
+    const scheduled = await addReminder(db, 'Water bill', due);
+    await db.importData({
+      reminders: [
+        { title: 'Rent', date: due.toISOString() },
+        { title: 'Gym', date: due.toISOString(), deletedAt: new Date().toISOString() },
+      ],
+    }, { mode: 'merge' });
+    const rent = (await db.getReminders()).find(r => r.title === 'Rent')!;
+    const [trashed] = await db.getTrashedReminders();
+
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    expect(await db.syncReminderNotifications()).toBe(2);
+    expect((await changed).stores).toEqual(['scheduledNotifications']);
+
+    const byReminder = (id: number) => db.getScheduledNotifications().then(all => all.filter(n => n.reminderId === id).map(n => n.leadMinutes));
+    expect(await byReminder(rent.id!)).toEqual([DAY, 0]);
+    expect(await byReminder(scheduled)).toEqual([DAY, 0]);
+    expect(await byReminder(trashed.id!)).toEqual([]);
+    expect(await db.syncReminderNotifications()).toBe(0);
+  });
+
+  it('doesn’t schedule again what the service worker already delivered', async () => {
+    const db = await loadDb();
+    const id = await addReminder(db, 'Rent', addDays(new Date(), 5));
+    const raw = await openRaw();
+    const tx = raw.transaction('scheduledNotifications', 'readwrite');
+    const store = tx.objectStore('scheduledNotifications');
+    const [dayBefore] = await requestResult(store.index('reminderId').getAll(id));
+    await requestResult(store.put({ ...dayBefore, status: 'delivered', deliveredAt: new Date().toISOString() }));
+    raw.close();
+
+    expect(await db.syncReminderNotifications()).toBe(0);
+    expect((await db.getScheduledNotifications()).map(n => n.status)).toEqual(['delivered', 'pending']);
+  });
+});
+
+describe('Trash', () => {
+  it('restores expenses and reminders', async () => {
+    const db = await loadDb();
+    const expenseId = (await db.addExpense(makeExpense())) as number;
+    const reminderId = (await db.addReminder({ title: 'Rent', date: new Date().toISOString() })) as number;
+    await db.deleteExpense(expenseId);
+    await db.deleteReminder(reminderId);
+
+    await db.restoreExpenses([expenseId]);
+    await db.restoreReminders([reminderId]);
+
+    const [expense] = await db.getExpenses();
+    expect(expense.id).toBe(expenseId);
+    expect('deletedAt' in expense).toBe(false);
+    expect((await db.getReminders()).map(r => r.id)).toEqual([reminderId]);
+    expect(await db.getTrashedExpenses()).toEqual([]);
+  });
+
+  it('purges expenses along with their history and attachments no other expense uses', async () => {
+    const db = await loadDb();
+    const [a, b] = await db.addExpenses([makeExpense(), makeExpense()]);
+    const shared = (await db.addAttachment(receipt([a, b]))) as number;
+    await db.addAttachment(receipt([a]));
+    await db.deleteExpense(a);
+
+    await db.purgeExpenses([a]);
+
+    expect(await db.getTrashedExpenses()).toEqual([]);
+    expect(await db.getExpenseHistory(a)).toEqual([]);
+    expect(await db.getAttachments()).toEqual([expect.objectContaining({ id: shared, expenseIds: [b] })]);
+  });
+
+  it('purges reminders', async () => {
+    const db = await loadDb();
+    const id = (await db.addReminder({ title: 'Rent', date: new Date().toISOString() })) as number;
+    await db.deleteReminder(id);
+    await db.purgeReminders([id]);
+    expect(await db.getTrashedReminders()).toEqual([]);
+  });
+
+  it('empties the Trash without touching anything else', async () => {
+    const db = await loadDb();
+    const [kept, trashed] = await db.addExpenses([makeExpense({ title: 'Kept' }), makeExpense({ title: 'Trashed' })]);
+    await db.addAttachment(receipt([trashed]));
+    const reminderId = (await db.addReminder({ title: 'Rent', date: new Date().toISOString() })) as number;
+    await db.deleteExpense(trashed);
+    await db.deleteReminder(reminderId);
+
+    await db.emptyTrash();
+
+    expect((await db.getExpenses()).map(e => e.id)).toEqual([kept]);
+    expect(await db.getTrashedExpenses()).toEqual([]);
+    expect(await db.getTrashedReminders()).toEqual([]);
+    expect(await db.getAttachments()).toEqual([]);
+  });
+
+  it(`purges what has been in the Trash for more than ${TRASH_RETENTION_DAYS} days`, async () => {
+    const db = await loadDb();
+    const expenseId = (await db.addExpense(makeExpense())) as number;
+    const reminderId = (await db.addReminder({ title: 'Rent', date: new Date().toISOString() })) as number;
+    await db.deleteExpense(expenseId);
+    await db.deleteReminder(reminderId);
+
+    await db.purgeExpiredTrash(addDays(new Date(), TRASH_RETENTION_DAYS - 1));
+    expect(await db.getTrashedExpenses()).toHaveLength(1);
+    expect(await db.getTrashedReminders()).toHaveLength(1);
+
+    await db.purgeExpiredTrash(addDays(new Date(), TRASH_RETENTION_DAYS + 1));
+    expect(await db.getTrashedExpenses()).toEqual([]);
+    expect(await db.getTrashedReminders()).toEqual([]);
+  });
+});
+
+describe('recurring expenses', () => {
+  const rule = (overrides: Partial<RecurringExpense> = {}): Omit<RecurringExpense, 'id'> => ({
+    title: 'Gym',
+    amount: 40,
+    category: 'Other',
+    paymentMode: 'Card',
+    accountId: 2,
+    frequency: 'weekly',
+    interval: 1,
+    startDate: '2024-03-01T09:00:00.000Z',
+    active: true,
+    ...overrides,
+  });
+
+  it('adds, updates and deletes recurring expenses', async () => {
+    const db = await loadDb();
+    const id = (await db.addRecurringExpense(rule())) as number;
+    await db.updateRecurringExpense({ ...rule({ amount: 45 }), id });
+    expect(await db.getRecurringExpenses()).toEqual([{ ...rule({ amount: 45 }), id }]);
+
+    await db.deleteRecurringExpense(id);
+    expect(await db.getRecurringExpenses()).toEqual([]);
+  });
+
+  it('creates an expense for each occurrence that came due, once', async () => {
+    const db = await loadDb();
+    const id = (await db.addRecurringExpense(rule())) as number;
+    await journaled(db, () => db.addRecurringExpense(rule({ title: 'Paused', active: false })));
+    const now = new Date('2024-03-16T00:00:00.000Z');
+
+    const changed = nextEvent<DataChange>(db.dbEvents, 'dataChanged');
+    expect(await db.generateRecurringExpenses(now)).toBe(3);
+    const { keys } = await changed;
+    expect(keys!.recurringExpenses).toEqual([id]);
+    expect(keys!.expenses).toHaveLength(3);
+
+    const expenses = await db.getExpenses();
+    expect(expenses.map(e => e.date)).toEqual(['2024-03-01T09:00:00.000Z', '2024-03-08T09:00:00.000Z', '2024-03-15T09:00:00.000Z']);
+    expenses.forEach(expense => expect(expense).toMatchObject({ title: 'Gym', amount: 40, accountId: 2, recurringId: id }));
+    expect((await db.getExpenseHistory(expenses[0].id!))[0]).toMatchObject({ action: 'created', source: 'recurring' });
+
+    const [saved] = (await db.getRecurringExpenses()).filter(r => r.id === id);
+    expect(saved.lastGeneratedDate).toBe('2024-03-15T09:00:00.000Z');
+    expect(await db.generateRecurringExpenses(now)).toBe(0);
+  });
+
+  it('keeps generating a daily rule that started decades ago', async () => {
+    const db = await loadDb();
+    await db.addRecurringExpense(rule({ frequency: 'daily', startDate: '2004-03-01T09:00:00.000Z', lastGeneratedDate: '2024-03-14T09:00:00.000Z' }));
+
+    expect(await db.generateRecurringExpenses(new Date('2024-03-16T00:00:00.000Z'))).toBe(1);
+    expect((await db.getExpenses()).map(e => e.date)).toEqual(['2024-03-15T09:00:00.000Z']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DB_VERSION } from '@/lib/migrations';
+import { defaultAccounts } from '@/lib/accounts';
+import { loadDb, openRaw, requestResult } from '@/test/helpers';
+
+const defaultCategoryNames = ['Groceries', 'Dining', 'Travel', 'Utilities', 'Shopping', 'Food', 'Medicine', 'Other'];
+const defaultIncomeCategoryNames = ['Salary', 'Refund', 'Reimbursement', 'Other Income'];
+
+// Loads db-core again against the same database, like a page reload
+async function reopen() {
+  vi.resetModules();
+  return loadDb();
+}
+
+describe('populateInitialData', () => {
+  it('seeds default categories, income categories, settings and accounts on first open', async () => {
+    const db = await loadDb();
+
+    const categories = await db.getCategories();
+    expect(categories.map(c => c.name).sort()).toEqual([...defaultCategoryNames].sort());
+    // Defaults get a color and an icon like any other category
+    categories.forEach(category => {
+      expect(category.color).toMatch(/^#[0-9a-f]{6}$/i);
+      expect(category.icon).toBeTruthy();
+    });
+
+    expect((await db.getIncomeCategories()).map(c => c.name).sort()).toEqual([...defaultIncomeCategoryNames].sort());
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 1000 });
+    expect(await db.getAccounts()).toEqual(defaultAccounts);
+  });
+
+  it('leaves expense categories alone once the store has any, so defaults can be merged away', async () => {
+    const db = await loadDb();
+    const categories = await db.getCategories();
+    const dining = categories.find(c => c.name === 'Dining')!;
+    const food = categories.find(c => c.name === 'Food')!;
+    await db.mergeCategories(dining.id!, food.id!);
+
+    const reopened = await reopen();
+    const names = (await reopened.getCategories()).map(c => c.name);
+    expect(names).not.toContain('Dining');
+    expect(names).toHaveLength(defaultCategoryNames.length - 1);
+  });
+
+  it('adds back missing default income categories without duplicating the others', async () => {
+    const db = await loadDb();
+    await db.addIncomeCategory({ name: 'Freelance' });
+
+    const raw = await openRaw();
+    const tx = raw.transaction('incomeCategories', 'readwrite');
+    const store = tx.objectStore('incomeCategories');
+    const refund = (await requestResult(store.getAll())).find(c => c.name === 'Refund');
+    await requestResult(store.delete(refund.id));
+    raw.close();
+
+    const reopened = await reopen();
+    const names = (await reopened.getIncomeCategories()).map(c => c.name).sort();
+    expect(names).toEqual([...defaultIncomeCategoryNames, 'Freelance'].sort());
+  });
+
+  it('keeps the settings that were saved', async () => {
+    const db = await loadDb();
+    await db.updateSettings({ monthlyBudget: 2500 });
+
+    const reopened = await reopen();
+    expect(await reopened.getSettings()).toEqual({ id: 1, monthlyBudget: 2500 });
+  });
+});
+
+describe('getMigrationHistory', () => {
+  it('lists every migration applied to a new database', async () => {
+    const db = await loadDb();
+    const history = await db.getMigrationHistory();
+    expect(history.map(record => record.version)).toEqual(Array.from({ length: DB_VERSION }, (_, i) => i + 1));
+    history.forEach(record => {
+      expect(record.description).toBeTruthy();
+      expect(Number.isNaN(Date.parse(record.appliedAt))).toBe(false);
+    });
+  });
+});
+
+describe('getDB', () => {
+  it('closes the connection and emits versionChanged when another tab upgrades the schema', async () => {
+    const db = await loadDb();
+    await db.getSettings();
+    const versionChanged = new Promise<void>(resolve => db.dbEvents.addEventListener('versionChanged', () => resolve(), { once: true }));
+
+    const upgrade = indexedDB.open('VerdantViewDB', DB_VERSION + 1);
+    await requestResult(upgrade);
+    await versionChanged;
+    upgrade.result.close();
+  });
+});
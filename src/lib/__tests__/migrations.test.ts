@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { DB_VERSION, HISTORY_STORE, LEGACY_BACKUP_VERSION, migrations, runMigrations, upgradeBackup } from '@/lib/migrations';
+import { DB_NAME, loadDb, makeExpense, requestResult } from '@/test/helpers';
+
+// Creates the database as the first release of the app did, with some data in it
+async function createVersion1Database(seed: (tx: IDBTransaction) => void): Promise<void> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    migrations[0].migrate({ db: request.result, tx: request.transaction! });
+    seed(request.transaction!);
+  };
+  const db = await requestResult(request);
+  db.close();
+}
+
+function openAt(version: number, fromVersion: number): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, version);
+  request.onupgradeneeded = () => runMigrations(request.result, request.transaction!, fromVersion, version);
+  return requestResult(request);
+}
+
+describe('runMigrations', () => {
+  it('upgrades version 1 to 2 by indexing reminders by date', async () => {
+    await createVersion1Database(tx => {
+      tx.objectStore('reminders').add({ title: 'Rent', date: '2024-05-01T00:00:00.000Z' });
+    });
+
+    const db = await openAt(2, 1);
+    const tx = db.transaction('reminders');
+    const index = tx.objectStore('reminders').index('date');
+    expect(await requestResult(index.getAll(IDBKeyRange.lowerBound('2024-01-01')))).toEqual([
+      { id: 1, title: 'Rent', date: '2024-05-01T00:00:00.000Z' },
+    ]);
+    // Version 2 predates the history store, so nothing is recorded yet
+    expect(db.objectStoreNames.contains(HISTORY_STORE)).toBe(false);
+    db.close();
+  });
+
+  it('brings a version 1 database and its data up to date when the app opens it', async () => {
+    await createVersion1Database(tx => {
+      tx.objectStore('expenses').add(makeExpense({ title: 'Taxi', paymentMode: 'Card', date: '2024-05-02T10:00:00.000Z' }));
+      tx.objectStore('categories').add({ name: 'Groceries' });
+      tx.objectStore('settings').add({ id: 1, monthlyBudget: 500 });
+    });
+
+    const db = await loadDb();
+    // Version 7 assigns each expense to the default account for its payment mode
+    expect(await db.getExpenses()).toEqual([
+      expect.objectContaining({ id: 1, title: 'Taxi', paymentMode: 'Card', accountId: 2 }),
+    ]);
+    // Version 13 styles existing categories, and the store isn't re-seeded because it isn't empty
+    expect(await db.getCategories()).toEqual([expect.objectContaining({ name: 'Groceries', color: expect.any(String), icon: expect.any(String) })]);
+    expect(await db.getSettings()).toEqual({ id: 1, monthlyBudget: 500 });
+
+    // Version 1 ran before the history store existed
+    const history = await db.getMigrationHistory();
+    expect(history.map(record => record.version)).toEqual(Array.from({ length: DB_VERSION - 1 }, (_, i) => i + 2));
+
+    // Indexes added later cover the old records
+    expect(await db.countExpenses({ paymentMode: 'Card' })).toBe(1);
+    expect(await db.countExpenses({ category: 'Dining', from: '2024-05-01T00:00:00.000Z', to: '2024-05-31T00:00:00.000Z' })).toBe(1);
+  });
+
+  it('upgrades version 19 to 20 by recording the due date of each scheduled notification', async () => {
+    const v19 = await openAt(19, 0);
+    const seed = v19.transaction(['reminders', 'scheduledNotifications'], 'readwrite');
+    seed.objectStore('reminders').add({ id: 1, title: 'Rent', date: '2024-05-01T00:00:00.000Z' });
+    seed.objectStore('scheduledNotifications').add({ reminderId: 1, kind: 'due', title: 'Due Today: Rent', body: 'Payment is due today.', at: '2024-05-01T00:00:00.000Z', status: 'pending' });
+    seed.objectStore('scheduledNotifications').add({ reminderId: 2, kind: 'due', title: 'Due Today: Gym', body: 'Payment is due today.', at: '2024-06-01T00:00:00.000Z', status: 'pending' });
+    await new Promise(resolve => (seed.oncomplete = resolve));
+    v19.close();
+
+    const db = await openAt(20, 19);
+    const notifications = await requestResult(db.transaction('scheduledNotifications').objectStore('scheduledNotifications').getAll());
+    // Falls back to the notification's time when the reminder is gone
+    expect(notifications.map(n => n.dueDate)).toEqual(['2024-05-01T00:00:00.000Z', '2024-06-01T00:00:00.000Z']);
+    db.close();
+  });
+
+  it('upgrades version 20 to 21 by replacing the kind of each scheduled notification with its lead time', async () => {
+    const v20 = await openAt(20, 0);
+    const seed = v20.transaction('scheduledNotifications', 'readwrite');
+    const notification = { reminderId: 1, dueDate: '2024-05-01T00:00:00.000Z', title: 'Rent', body: '', status: 'pending' };
+    seed.objectStore('scheduledNotifications').add({ ...notification, kind: 'dayBefore', at: '2024-04-30T00:00:00.000Z', triggered: true });
+    seed.objectStore('scheduledNotifications').add({ ...notification, kind: 'due', at: '2024-05-01T00:00:00.000Z' });
+    await new Promise(resolve => (seed.oncomplete = resolve));
+    v20.close();
+
+    const db = await openAt(21, 20);
+    expect(await requestResult(db.transaction('scheduledNotifications').objectStore('scheduledNotifications').getAll())).toEqual([
+      { ...notification, id: 1, leadMinutes: 24 * 60, at: '2024-04-30T00:00:00.000Z', triggeredAt: '2024-04-30T00:00:00.000Z' },
+      { ...notification, id: 2, leadMinutes: 0, at: '2024-05-01T00:00:00.000Z' },
+    ]);
+    db.close();
+  });
+
+  it('only runs migrations newer than the current version', async () => {
+    const db = await loadDb();
+    await db.getSettings();
+
+    expect(migrations.map(m => m.version)).toEqual(Array.from({ length: DB_VERSION }, (_, i) => i + 1));
+    expect((await db.getMigrationHistory()).length).toBe(DB_VERSION);
+  });
+});
+
+describe('upgradeBackup', () => {
+  it('upgrades legacy backups, which have no schema version', () => {
+    const upgraded = upgradeBackup({ expenses: [{ id: 1, ...makeExpense({ paymentMode: 'Online' }) }] }, LEGACY_BACKUP_VERSION);
+    expect(upgraded.expenses![0].accountId).toBe(3);
+  });
+
+  it('keeps account ids that are already set', () => {
+    const upgraded = upgradeBackup({ expenses: [{ id: 1, ...makeExpense({ accountId: 9 }) }] });
+    expect(upgraded.expenses![0].accountId).toBe(9);
+  });
+
+  it('rejects backups from a newer version of the app', () => {
+    expect(() => upgradeBackup({}, DB_VERSION + 1)).toThrow(`schema v${DB_VERSION + 1}`);
+  });
+});
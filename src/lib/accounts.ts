@@ -0,0 +1,88 @@
+import type { Account, AccountType, Expense, Income, PaymentMode, Transfer } from './types';
+import { isPaidByYou } from './splits';
+
+// Accounts created for existing data when accounts were introduced. Expenses without
+// an accountId are treated as belonging to the account for their payment mode.
+export const defaultAccounts: Required<Pick<Account, 'id' | 'name' | 'type' | 'openingBalance'>>[] = [
+  { id: 1, name: 'Cash Wallet', type: 'cash', openingBalance: 0 },
+  { id: 2, name: 'Card', type: 'credit', openingBalance: 0 },
+  { id: 3, name: 'UPI Wallet', type: 'wallet', openingBalance: 0 },
+  { id: 4, name: 'Other', type: 'other', openingBalance: 0 },
+];
+
+const defaultAccountIdByPaymentMode: Record<PaymentMode, number> = {
+  Cash: 1,
+  Card: 2,
+  Online: 3,
+  Other: 4,
+};
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  cash: 'Cash',
+  bank: 'Bank Account',
+  credit: 'Credit Card',
+  wallet: 'UPI / Wallet',
+  other: 'Other',
+};
+
+export const defaultAccountIdFor = (paymentMode: PaymentMode) => defaultAccountIdByPaymentMode[paymentMode];
+
+export const resolveAccountId = (expense: Pick<Expense, 'accountId' | 'paymentMode'>) =>
+  expense.accountId ?? defaultAccountIdFor(expense.paymentMode);
+
+// Changes the payment mode of an expense. The account follows the new mode unless the
+// expense was paid from an account other than the old mode's default.
+export function withPaymentMode<T extends Pick<Expense, 'accountId' | 'paymentMode'>>(expense: T, paymentMode: PaymentMode): T {
+  if (paymentMode === expense.paymentMode) return expense;
+  const followsPaymentMode = expense.accountId === undefined || expense.accountId === defaultAccountIdFor(expense.paymentMode);
+  return { ...expense, paymentMode, accountId: followsPaymentMode ? defaultAccountIdFor(paymentMode) : expense.accountId };
+}
+
+export interface LedgerEntry {
+  date: string;
+  title: string;
+  amount: number; // Signed: positive for money in, negative for money out
+  balance: number; // Running balance after this entry
+}
+
+/**
+ * Builds the ledger for one account, oldest first, with a running balance that
+ * starts at the opening balance.
+ */
+export function getAccountLedger(account: Account, expenses: Expense[], income: Income[], transfers: Transfer[], accounts: Account[]): LedgerEntry[] {
+  const nameOf = (id: number) => accounts.find(a => a.id === id)?.name ?? 'Unknown account';
+  const entries = [
+    ...expenses.filter(e => isPaidByYou(e) && resolveAccountId(e) === account.id).map(e => ({ date: e.date, title: e.title, amount: -e.amount })),
+    ...income.filter(i => i.accountId === account.id).map(i => ({ date: i.date, title: i.title, amount: i.amount })),
+    ...transfers.filter(t => t.fromAccountId === account.id).map(t => ({ date: t.date, title: `Transfer to ${nameOf(t.toAccountId)}`, amount: -t.amount })),
+    ...transfers.filter(t => t.toAccountId === account.id).map(t => ({ date: t.date, title: `Transfer from ${nameOf(t.fromAccountId)}`, amount: t.amount })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = account.openingBalance;
+  return entries.map(entry => {
+    balance += entry.amount;
+    return { ...entry, balance };
+  });
+}
+
+/**
+ * Current balance of every account, keyed by account id.
+ */
+export function computeBalances(accounts: Account[], expenses: Expense[], income: Income[], transfers: Transfer[]): Map<number, number> {
+  const balances = new Map<number, number>();
+  accounts.forEach(a => a.id !== undefined && balances.set(a.id, a.openingBalance));
+  const adjust = (id: number | undefined, amount: number) => {
+    if (id !== undefined && balances.has(id)) {
+      balances.set(id, balances.get(id)! + amount);
+    }
+  };
+
+  // Shared expenses that another member paid never left any of the user's accounts
+  expenses.filter(isPaidByYou).forEach(e => adjust(resolveAccountId(e), -e.amount));
+  income.forEach(i => adjust(i.accountId, i.amount));
+  transfers.forEach(t => {
+    adjust(t.fromAccountId, -t.amount);
+    adjust(t.toAccountId, t.amount);
+  });
+  return balances;
+}
@@ -0,0 +1,82 @@
+import type { Attachment } from './types';
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+const THUMBNAIL_SIZE = 160;
+
+// How an attachment is stored in a JSON backup: the Blob becomes a base64 data URL.
+export type BackupAttachment = Omit<Attachment, 'blob'> & { data: string };
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'type'>) => attachment.type.startsWith('image/');
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Synchronous so that it can be used while an IndexedDB transaction is open.
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Renders a small JPEG preview of an image. Resolves with undefined for PDFs and
+ * anything the browser cannot decode.
+ */
+export async function createThumbnail(blob: Blob): Promise<string | undefined> {
+  if (!blob.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.error('Failed to create thumbnail:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Builds an attachment record for a file, ready to be stored for the given expenses.
+ */
+export async function buildAttachment(file: Blob, name: string, expenseIds: number[]): Promise<Omit<Attachment, 'id'>> {
+  return {
+    expenseIds,
+    name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    blob: file,
+    thumbnail: await createThumbnail(file),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export async function toBackupAttachment({ blob, ...attachment }: Attachment): Promise<BackupAttachment> {
+  return { ...attachment, data: await blobToDataUrl(blob) };
+}
+
+export function fromBackupAttachment({ data, ...attachment }: BackupAttachment): Attachment {
+  return { ...attachment, blob: dataUrlToBlob(data) };
+}
@@ -0,0 +1,371 @@
+import * as z from 'zod';
+import type { Expense, Income, Category, CategoryBudget, Reminder, AppSettings, RecurringExpense, Account, Transfer, Group, Settlement, CsvMapping, ExpenseRule, SavedView } from './types';
+import { LEGACY_BACKUP_VERSION, upgradeBackup } from './migrations';
+import type { BackupAttachment } from './attachments';
+
+const splitSchema = z.object({
+  groupId: z.number(),
+  paidBy: z.string(),
+  method: z.enum(['equal', 'exact', 'percentage', 'shares']),
+  shares: z.array(z.object({ member: z.string(), value: z.number() })),
+});
+
+const expenseSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  amount: z.number(),
+  date: z.string(),
+  category: z.string(),
+  paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+  recurringId: z.number().optional(),
+  reminderId: z.number().optional(),
+  accountId: z.number().optional(),
+  split: splitSchema.optional(),
+  externalId: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+});
+
+const categorySchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  parentId: z.number().optional(),
+  color: z.string().optional(),
+  icon: z.string().optional(),
+  archived: z.boolean().optional(),
+});
+
+const reminderSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  date: z.string(),
+  amount: z.number().optional(),
+  category: z.string().optional(),
+  paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']).optional(),
+  accountId: z.number().optional(),
+  recurrence: z.object({
+    frequency: z.enum(['monthly', 'quarterly', 'yearly']),
+    dayOfMonth: z.number().int().min(1).max(31),
+  }).optional(),
+  notifyBefore: z.array(z.number().int().nonnegative()).optional(),
+  paidAt: z.string().optional(),
+});
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const settingsSchema = z.object({
+  id: z.number().optional(),
+  monthlyBudget: z.number(),
+  quietHours: z.object({ start: timeSchema, end: timeSchema }).optional(),
+});
+
+const recurringExpenseSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  amount: z.number(),
+  category: z.string(),
+  paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+  accountId: z.number().optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly', 'custom']),
+  interval: z.number().int().positive(),
+  startDate: z.string(),
+  endDate: z.string().optional(),
+  lastGeneratedDate: z.string().optional(),
+  active: z.boolean(),
+});
+
+const incomeSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  amount: z.number(),
+  date: z.string(),
+  category: z.string(),
+  accountId: z.number().optional(),
+});
+
+const budgetSchema = z.object({
+  id: z.number().optional(),
+  category: z.string(),
+  amount: z.number(),
+  rollover: z.boolean(),
+  thresholds: z.array(z.number()),
+  startDate: z.string(),
+});
+
+const accountSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  type: z.enum(['cash', 'bank', 'credit', 'wallet', 'other']),
+  openingBalance: z.number(),
+  archived: z.boolean().optional(),
+});
+
+const transferSchema = z.object({
+  id: z.number().optional(),
+  fromAccountId: z.number(),
+  toAccountId: z.number(),
+  amount: z.number(),
+  date: z.string(),
+  note: z.string().optional(),
+});
+
+const groupSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  members: z.array(z.string()),
+});
+
+const settlementSchema = z.object({
+  id: z.number().optional(),
+  groupId: z.number(),
+  from: z.string(),
+  to: z.string(),
+  amount: z.number(),
+  date: z.string(),
+});
+
+const attachmentSchema = z.object({
+  id: z.number().optional(),
+  expenseIds: z.array(z.number()),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+  thumbnail: z.string().optional(),
+  createdAt: z.string(),
+  data: z.string().startsWith('data:'),
+});
+
+const csvMappingSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  headerSignature: z.string().optional(),
+  delimiter: z.string(),
+  hasHeader: z.boolean(),
+  dateFormat: z.string(),
+  amountColumns: z.enum(['single', 'split']),
+  debitsAreNegative: z.boolean(),
+  columns: z.object({
+    date: z.number(),
+    title: z.number(),
+    amount: z.number().optional(),
+    debit: z.number().optional(),
+    credit: z.number().optional(),
+    category: z.number().optional(),
+    paymentMode: z.number().optional(),
+  }),
+  defaultPaymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']),
+  accountId: z.number().optional(),
+});
+
+const ruleSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  priority: z.number(),
+  enabled: z.boolean(),
+  conditions: z.array(z.object({
+    field: z.enum(['title', 'amount', 'paymentMode']),
+    operator: z.enum(['contains', 'startsWith', 'equals', 'matches', 'gt', 'lt']),
+    value: z.string(),
+  })),
+  actions: z.object({
+    category: z.string().optional(),
+    paymentMode: z.enum(['Cash', 'Card', 'Online', 'Other']).optional(),
+  }),
+});
+
+const savedViewSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  filters: z.object({
+    query: z.string(),
+    category: z.string().optional(),
+    tags: z.array(z.string()),
+    dateFrom: z.string().optional(),
+    dateTo: z.string().optional(),
+    minAmount: z.number().optional(),
+    maxAmount: z.number().optional(),
+    sort: z.enum(['date', 'amount', 'title', 'category']),
+    direction: z.enum(['asc', 'desc']),
+  }),
+  createdAt: z.string(),
+});
+
+export const backupSchema = z.object({
+  schemaVersion: z.number().optional(),
+  expenses: z.array(expenseSchema).optional(),
+  categories: z.array(categorySchema).optional(),
+  reminders: z.array(reminderSchema).optional(),
+  settings: settingsSchema.nullish(),
+  recurringExpenses: z.array(recurringExpenseSchema).optional(),
+  income: z.array(incomeSchema).optional(),
+  incomeCategories: z.array(categorySchema).optional(),
+  budgets: z.array(budgetSchema).optional(),
+  accounts: z.array(accountSchema).optional(),
+  transfers: z.array(transferSchema).optional(),
+  groups: z.array(groupSchema).optional(),
+  settlements: z.array(settlementSchema).optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  csvMappings: z.array(csvMappingSchema).optional(),
+  rules: z.array(ruleSchema).optional(),
+  savedViews: z.array(savedViewSchema).optional(),
+});
+
+export type BackupData = {
+  schemaVersion?: number;
+  expenses?: Expense[];
+  categories?: Category[];
+  reminders?: Reminder[];
+  settings?: AppSettings | null;
+  recurringExpenses?: RecurringExpense[];
+  income?: Income[];
+  incomeCategories?: Category[];
+  budgets?: CategoryBudget[];
+  accounts?: Account[];
+  transfers?: Transfer[];
+  groups?: Group[];
+  settlements?: Settlement[];
+  attachments?: BackupAttachment[];
+  csvMappings?: CsvMapping[];
+  rules?: ExpenseRule[];
+  savedViews?: SavedView[];
+};
+
+// A snapshot of what is currently stored, used to diff a backup against.
+export interface CurrentData {
+  expenses: Expense[];
+  categories: Category[];
+  reminders: Reminder[];
+  settings?: AppSettings | null;
+  recurringExpenses: RecurringExpense[];
+  income: Income[];
+  incomeCategories: Category[];
+  budgets: CategoryBudget[];
+  accounts: Account[];
+  groups: Group[];
+  csvMappings: CsvMapping[];
+  rules: ExpenseRule[];
+  savedViews: SavedView[];
+}
+
+export type ImportMode = 'replace' | 'merge';
+export type ConflictStrategy = 'keep' | 'overwrite';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  // Only used when merging: whether changed rows and differing settings take the backup's version.
+  conflictStrategy?: ConflictStrategy;
+}
+
+export type DiffStatus = 'new' | 'changed' | 'duplicate';
+
+export interface DiffRow<T> {
+  status: DiffStatus;
+  incoming: T;
+  existing?: T; // The stored row with the same duplicate key, for changed and duplicate rows
+}
+
+export interface BackupDiff {
+  expenses: DiffRow<Expense>[];
+  categories: DiffRow<Category>[];
+  reminders: DiffRow<Reminder>[];
+  income: DiffRow<Income>[];
+  incomeCategories: DiffRow<Category>[];
+  settingsChanged: boolean;
+}
+
+export const expenseDuplicateKey = (e: Pick<Expense, 'title' | 'amount' | 'date'>) =>
+  `${e.title.trim().toLowerCase()}|${e.amount}|${e.date.slice(0, 10)}`;
+
+const reminderDuplicateKey = (r: Pick<Reminder, 'title' | 'date'>) =>
+  `${r.title.trim().toLowerCase()}|${r.date.slice(0, 10)}`;
+
+/**
+ * Upgrades parsed JSON from the schema version it was exported at, then validates
+ * it against the backup schema. Returns the typed data, or a human-readable error
+ * describing the first problem found.
+ */
+export function parseBackup(json: unknown): { data: BackupData } | { error: string } {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { error: 'Expected a VerdantView backup object.' };
+  }
+
+  const fromVersion = typeof (json as BackupData).schemaVersion === 'number'
+    ? (json as BackupData).schemaVersion!
+    : LEGACY_BACKUP_VERSION;
+
+  let upgraded: BackupData;
+  try {
+    upgraded = upgradeBackup(json as BackupData, fromVersion);
+  } catch (error: any) {
+    return { error: error.message };
+  }
+
+  const result = backupSchema.safeParse(upgraded);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return { error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+  return { data: result.data };
+}
+
+// Ids are local to each database, so rows are only ever matched by their duplicate key.
+// `isSame` compares the fields the key leaves out.
+function diffRows<T>(incoming: T[], existing: T[], duplicateKey: (row: T) => string, isSame: (a: T, b: T) => boolean): DiffRow<T>[] {
+  const existingByKey = new Map<string, T>();
+  existing.forEach(row => {
+    const key = duplicateKey(row);
+    if (!existingByKey.has(key)) existingByKey.set(key, row);
+  });
+
+  return incoming.map(row => {
+    const match = existingByKey.get(duplicateKey(row));
+    if (!match) return { status: 'new', incoming: row };
+    return { status: isSame(match, row) ? 'duplicate' : 'changed', incoming: row, existing: match };
+  });
+}
+
+const sameTags = (a: string[] = [], b: string[] = []) => [...a].sort().join('|') === [...b].sort().join('|');
+
+/**
+ * Compares a backup against the data currently in the database.
+ *
+ * - duplicate: an identical row already exists (expenses match on title + amount + date)
+ * - changed: a row with the same title, amount and date exists but other fields differ,
+ *   such as the category or notes
+ * - new: nothing in the database matches this row, whatever its id
+ */
+export function diffBackup(data: BackupData, current: CurrentData): BackupDiff {
+  const diffCategories = (incoming: Category[] = [], existing: Category[]): DiffRow<Category>[] => {
+    const existingNames = new Set(existing.map(c => c.name));
+    return incoming.map(c => ({ status: existingNames.has(c.name) ? 'duplicate' : 'new', incoming: c }));
+  };
+
+  return {
+    expenses: diffRows(
+      data.expenses ?? [],
+      current.expenses,
+      expenseDuplicateKey,
+      (a, b) => a.category === b.category && a.paymentMode === b.paymentMode && (a.notes ?? '') === (b.notes ?? '') && sameTags(a.tags, b.tags)
+    ),
+    categories: diffCategories(data.categories, current.categories),
+    reminders: diffRows(
+      data.reminders ?? [],
+      current.reminders,
+      reminderDuplicateKey,
+      (a, b) => a.amount === b.amount && a.category === b.category && a.paymentMode === b.paymentMode && JSON.stringify(a.recurrence) === JSON.stringify(b.recurrence)
+    ),
+    income: diffRows(data.income ?? [], current.income, expenseDuplicateKey, (a, b) => a.category === b.category),
+    incomeCategories: diffCategories(data.incomeCategories, current.incomeCategories),
+    settingsChanged: !!data.settings && data.settings.monthlyBudget !== current.settings?.monthlyBudget,
+  };
+}
+
+export const recurringRuleKey = (r: Pick<RecurringExpense, 'title' | 'amount' | 'frequency'>) =>
+  `${r.title.trim().toLowerCase()}|${r.amount}|${r.frequency}`;
+
+export const summarizeDiff = <T>(rows: DiffRow<T>[]) => ({
+  new: rows.filter(r => r.status === 'new').length,
+  changed: rows.filter(r => r.status === 'changed').length,
+  duplicate: rows.filter(r => r.status === 'duplicate').length,
+});
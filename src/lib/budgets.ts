@@ -0,0 +1,52 @@
+import { addMonths, endOfMonth, isBefore, isWithinInterval, startOfMonth } from 'date-fns';
+import { ownShare } from './splits';
+import type { CategoryBudget, Expense } from './types';
+
+export const DEFAULT_THRESHOLDS = [80, 100];
+
+export interface BudgetStatus {
+  budget: CategoryBudget;
+  spent: number;
+  carryOver: number; // Positive when unspent money rolled in, negative when overspending did
+  available: number; // amount + carryOver
+  percent: number; // spent as a percentage of available
+}
+
+const spentInMonth = (expenses: Expense[], month: Date) => {
+  const interval = { start: startOfMonth(month), end: endOfMonth(month) };
+  return expenses
+    .filter(e => isWithinInterval(new Date(e.date), interval))
+    .reduce((sum, e) => sum + ownShare(e), 0);
+};
+
+/**
+ * Works out how much of a category budget is used for the month containing `now`.
+ * `expenses` may contain any categories; only the budget's category is counted.
+ * Split expenses count only the user's own share, as the dashboard totals do.
+ */
+export function getBudgetStatus(budget: CategoryBudget, expenses: Expense[], now: Date = new Date()): BudgetStatus {
+  const categoryExpenses = expenses.filter(e => e.category === budget.category);
+  const currentMonth = startOfMonth(now);
+
+  let carryOver = 0;
+  if (budget.rollover) {
+    for (let month = startOfMonth(new Date(budget.startDate)); isBefore(month, currentMonth); month = addMonths(month, 1)) {
+      carryOver += budget.amount - spentInMonth(categoryExpenses, month);
+    }
+  }
+
+  const spent = spentInMonth(categoryExpenses, now);
+  const available = budget.amount + carryOver;
+  const percent = available > 0 ? (spent / available) * 100 : spent > 0 ? Infinity : 0;
+
+  return { budget, spent, carryOver, available, percent };
+}
+
+/**
+ * Returns the thresholds passed when usage moves from `before` to `after` percent.
+ */
+export const crossedThresholds = (budget: CategoryBudget, before: number, after: number) =>
+  [...budget.thresholds].sort((a, b) => a - b).filter(t => before < t && after >= t);
+
+export const parseThresholds = (value: string): number[] =>
+  Array.from(new Set(value.split(',').map(v => Number(v.trim())).filter(v => Number.isFinite(v) && v > 0))).sort((a, b) => a - b);
@@ -0,0 +1,122 @@
+import type { Category } from './types';
+
+export const CATEGORY_COLORS = [
+  '#16a34a',
+  '#0ea5e9',
+  '#f97316',
+  '#eab308',
+  '#ec4899',
+  '#8b5cf6',
+  '#ef4444',
+  '#14b8a6',
+  '#a16207',
+  '#64748b',
+];
+
+// Names of the lucide icons a category can use. The components are looked up in
+// `@/components/category-badge`.
+export const CATEGORY_ICON_NAMES = [
+  'Tag',
+  'ShoppingCart',
+  'Utensils',
+  'Coffee',
+  'Apple',
+  'Plane',
+  'Car',
+  'Fuel',
+  'Bus',
+  'Zap',
+  'Wifi',
+  'Smartphone',
+  'Home',
+  'ShoppingBag',
+  'Shirt',
+  'Gift',
+  'Pill',
+  'HeartPulse',
+  'Dumbbell',
+  'GraduationCap',
+  'Film',
+  'PawPrint',
+  'Baby',
+  'Briefcase',
+  'Receipt',
+  'RotateCcw',
+  'Wallet',
+] as const;
+
+export type CategoryIconName = (typeof CATEGORY_ICON_NAMES)[number];
+
+const defaultStyles: Record<string, Required<Pick<Category, 'color' | 'icon'>>> = {
+  Groceries: { color: '#16a34a', icon: 'ShoppingCart' },
+  Dining: { color: '#f97316', icon: 'Utensils' },
+  Travel: { color: '#0ea5e9', icon: 'Plane' },
+  Utilities: { color: '#eab308', icon: 'Zap' },
+  Shopping: { color: '#ec4899', icon: 'ShoppingBag' },
+  Food: { color: '#ef4444', icon: 'Apple' },
+  Medicine: { color: '#14b8a6', icon: 'Pill' },
+  Other: { color: '#64748b', icon: 'Tag' },
+  Salary: { color: '#16a34a', icon: 'Briefcase' },
+  Refund: { color: '#0ea5e9', icon: 'RotateCcw' },
+  Reimbursement: { color: '#8b5cf6', icon: 'Receipt' },
+  'Other Income': { color: '#64748b', icon: 'Wallet' },
+};
+
+// Picks a palette color from the name, so a category without a color always gets the same one
+export function fallbackColor(name: string): string {
+  const hash = Array.from(name).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) | 0, 0);
+  return CATEGORY_COLORS[Math.abs(hash) % CATEGORY_COLORS.length];
+}
+
+/**
+ * Fills in the color and icon of a category that has none, using the built-in style for
+ * default category names.
+ */
+export const withDefaultStyle = <T extends Omit<Category, 'id'>>(category: T): T => ({
+  ...category,
+  color: category.color ?? defaultStyles[category.name]?.color ?? fallbackColor(category.name),
+  icon: category.icon ?? defaultStyles[category.name]?.icon ?? 'Tag',
+});
+
+export const getCategoryColor = (name: string, categories: Category[]) =>
+  categories.find(c => c.name === name)?.color ?? fallbackColor(name);
+
+/**
+ * Orders categories for display: each top-level category, sorted by name, followed by
+ * its subcategories. Subcategories whose parent is missing are shown at the top level.
+ */
+export function categoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const ids = new Set(categories.map(c => c.id));
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const isTopLevel = (c: Category) => c.parentId === undefined || !ids.has(c.parentId);
+
+  return categories
+    .filter(isTopLevel)
+    .sort(byName)
+    .flatMap(parent => [
+      { category: parent, depth: 0 },
+      ...categories
+        .filter(child => !isTopLevel(child) && child.parentId === parent.id)
+        .sort(byName)
+        .map(child => ({ category: child, depth: 1 })),
+    ]);
+}
+
+const findParent = (name: string, categories: Category[]) => {
+  const category = categories.find(c => c.name === name);
+  return category?.parentId === undefined ? undefined : categories.find(c => c.id === category.parentId);
+};
+
+// "Food › Dining" for a subcategory, or just the name
+export const getCategoryPath = (name: string, categories: Category[]) => {
+  const parent = findParent(name, categories);
+  return parent ? `${parent.name} › ${name}` : name;
+};
+
+export const topLevelCategoryName = (name: string, categories: Category[]) => findParent(name, categories)?.name ?? name;
+
+// The category's name plus the names of its subcategories, for filtering by a parent
+export const categoryWithChildren = (name: string, categories: Category[]) => {
+  const category = categories.find(c => c.name === name);
+  return [name, ...categories.filter(c => category?.id !== undefined && c.parentId === category.id).map(c => c.name)];
+};
@@ -0,0 +1,256 @@
+import { format, isValid, parse } from 'date-fns';
+import type { Account, CsvMapping, Expense, PaymentMode } from './types';
+import { defaultAccountIdFor, resolveAccountId } from './accounts';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export const delimiterLabels: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+// Date formats seen in Indian bank and card statements, tried in order
+export const CSV_DATE_FORMATS = [
+  'dd/MM/yyyy',
+  'dd-MM-yyyy',
+  'dd.MM.yyyy',
+  'dd/MM/yy',
+  'dd-MMM-yyyy',
+  'dd MMM yyyy',
+  'dd-MMM-yy',
+  'yyyy-MM-dd',
+  'MM/dd/yyyy',
+  'MM-dd-yyyy',
+];
+
+const paymentModes: PaymentMode[] = ['Cash', 'Card', 'Online', 'Other'];
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing delimiters,
+ * escaped quotes and line breaks. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(r => r.map(c => c.trim()))
+    .filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the same, largest number of columns.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = parseCsv(lines.join('\n'), delimiter).map(row => row.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+export function parseCsvDate(value: string, dateFormat: string): Date | null {
+  const date = parse(value.trim(), dateFormat, new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Returns the first known date format that parses every sample value, or null.
+ */
+export function detectDateFormat(values: string[]): string | null {
+  const samples = values.filter(value => value.trim() !== '').slice(0, 20);
+  if (samples.length === 0) return null;
+  return CSV_DATE_FORMATS.find(format => samples.every(value => parseCsvDate(value, format))) ?? null;
+}
+
+/**
+ * Reads an amount written as "1,234.50", "₹ 1234.50", "(1234.50)" or "1234.50 Dr".
+ * "Cr" suffixes and parentheses are read as negative. Returns null when the cell is
+ * empty or not a number.
+ */
+export function parseCsvAmount(value: string): number | null {
+  let text = value.trim();
+  if (text === '') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  const suffix = text.match(/\s*(cr|dr)\.?$/i);
+  if (suffix) {
+    if (suffix[1].toLowerCase() === 'cr') sign = -sign;
+    text = text.slice(0, suffix.index);
+  }
+
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  return isNaN(amount) ? null : sign * amount;
+}
+
+/**
+ * Finds the column most likely to hold each field by matching common header names.
+ */
+export function guessColumns(header: string[]): CsvMapping['columns'] {
+  const find = (...patterns: RegExp[]) => {
+    const index = header.findIndex(cell => patterns.some(pattern => pattern.test(cell)));
+    return index === -1 ? undefined : index;
+  };
+  return {
+    date: find(/date/i) ?? 0,
+    title: find(/narration/i, /description/i, /particulars/i, /details/i, /remarks/i) ?? 1,
+    amount: find(/^amount/i, /amount$/i),
+    debit: find(/debit/i, /withdrawal/i, /^dr$/i),
+    credit: find(/credit/i, /deposit/i, /^cr$/i),
+    category: find(/category/i),
+    paymentMode: find(/mode/i, /type/i),
+  };
+}
+
+export const headerSignature = (header: string[]) => header.map(cell => cell.toLowerCase()).join('|');
+
+export interface StatementRowError {
+  row: number; // 1-based row or transaction number in the file
+  message: string;
+}
+
+// Expenses read from a statement file, in any of the supported formats
+export interface ParsedStatement {
+  expenses: Omit<Expense, 'id'>[];
+  skippedCredits: number;
+  errors: StatementRowError[];
+}
+
+/**
+ * Finds the category whose name matches the value, ignoring case. Falls back to
+ * 'Other', or the first category when there is no 'Other'.
+ */
+export function matchCategory(value: string, categoryNames: string[]): string {
+  const match = categoryNames.find(name => name.toLowerCase() === value.trim().toLowerCase());
+  return match ?? (categoryNames.includes('Other') ? 'Other' : categoryNames[0] ?? 'Other');
+}
+
+/**
+ * Turns statement rows into expenses using a column mapping. Credit rows (refunds,
+ * payments received) are skipped, and rows with an unreadable date or amount are
+ * reported as errors.
+ */
+export function mapCsvRows(rows: string[][], mapping: Omit<CsvMapping, 'id' | 'name'>, categoryNames: string[]): ParsedStatement {
+  const { columns } = mapping;
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const firstRowNumber = mapping.hasHeader ? 2 : 1;
+  const result: ParsedStatement = { expenses: [], skippedCredits: 0, errors: [] };
+
+  dataRows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    const cell = (column?: number) => (column === undefined ? '' : row[column] ?? '');
+
+    const date = parseCsvDate(cell(columns.date), mapping.dateFormat);
+    if (!date) {
+      result.errors.push({ row: rowNumber, message: `Unreadable date "${cell(columns.date)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amountColumns === 'split') {
+      const debit = parseCsvAmount(cell(columns.debit));
+      const credit = parseCsvAmount(cell(columns.credit));
+      if (!debit && credit) {
+        result.skippedCredits++;
+        return;
+      }
+      amount = debit === null ? null : Math.abs(debit);
+    } else {
+      const signed = parseCsvAmount(cell(columns.amount));
+      const debitSign = mapping.debitsAreNegative ? -1 : 1;
+      if (signed !== null && signed * debitSign < 0) {
+        result.skippedCredits++;
+        return;
+      }
+      amount = signed === null ? null : Math.abs(signed);
+    }
+    if (!amount) {
+      result.errors.push({ row: rowNumber, message: 'Missing amount' });
+      return;
+    }
+
+    const category = matchCategory(cell(columns.category), categoryNames);
+    const modeCell = cell(columns.paymentMode).toLowerCase();
+    const paymentMode = paymentModes.find(mode => mode.toLowerCase() === modeCell) ?? mapping.defaultPaymentMode;
+
+    result.expenses.push({
+      title: cell(columns.title) || 'Imported expense',
+      amount,
+      date: date.toISOString(),
+      category,
+      paymentMode,
+      accountId: mapping.accountId ?? defaultAccountIdFor(paymentMode),
+    });
+  });
+
+  return result;
+}
+
+const escapeCsvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]) => rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// Writes expenses as CSV with a header row that the statement import recognises
+export function expensesToCsv(expenses: Expense[], accounts: Account[]): string {
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+  return toCsv([
+    ['Date', 'Title', 'Amount', 'Category', 'Payment Mode', 'Account', 'Tags', 'Notes'],
+    ...expenses.map(expense => [
+      format(new Date(expense.date), 'yyyy-MM-dd'),
+      expense.title,
+      String(expense.amount),
+      expense.category,
+      expense.paymentMode,
+      accountNames.get(resolveAccountId(expense)) ?? '',
+      expense.tags?.join(' ') ?? '',
+      expense.notes ?? '',
+    ]),
+  ]);
+}
@@ -0,0 +1,1516 @@
+
+import type { Expense, Income, Category, CategoryBudget, Reminder, ScheduledNotification, AppSettings, RecurringExpense, Account, Transfer, Group, Settlement, Attachment, CsvMapping, ExpenseRule, SavedView, JournalChange, JournalEntry, ExpenseChangeSource, ExpenseHistoryEntry, DataChange, ExpenseQuery, ExpensePage, ExpenseTotals, ExpenseGroupBy, OperationProgress } from './types';
+import { DB_VERSION, HISTORY_STORE, JOURNAL_STORE, runMigrations, type MigrationRecord } from './migrations';
+import { diffBackup, recurringRuleKey, type BackupData, type BackupDiff, type ConflictStrategy, type CurrentData, type DiffRow, type ImportOptions } from './backup';
+import { getDueOccurrences } from './recurrence';
+import { fromBackupAttachment, toBackupAttachment } from './attachments';
+import { crossedThresholds, getBudgetStatus, type BudgetStatus } from './budgets';
+import { ownShare } from './splits';
+import { defaultAccounts } from './accounts';
+import { applyRules } from './rules';
+import { withDefaultStyle } from './categories';
+import { JOURNAL_LIMIT, TRASH_RETENTION_DAYS, applyChanges, describeChanges, describeRecords, recordWrites } from './journal';
+import { createHistoryEntry } from './expense-history';
+import { trackWrites } from './progress';
+import { addToTotals, emptyTotals, expenseIndexRange, groupKey, matchesExpenseQuery, needsFilter } from './expense-index';
+import { billExpense, billStatus, nextDueDate, reminderNotifications } from './reminders';
+import { isSameMonth, startOfDay, subDays } from 'date-fns';
+
+const DB_NAME = 'VerdantViewDB';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const defaultCategories = ['Groceries', 'Dining', 'Travel', 'Utilities', 'Shopping', 'Food', 'Medicine', 'Other'];
+const defaultIncomeCategories = ['Salary', 'Refund', 'Reimbursement', 'Other Income'];
+
+// Create a simple event emitter for database changes
+export const dbEvents = new EventTarget();
+
+// Relays changes between tabs and the installed app window, which each have their own dbEvents
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('verdantview-data') : null;
+
+channel?.addEventListener('message', (event: MessageEvent<DataChange>) => {
+    dbEvents.dispatchEvent(new CustomEvent<DataChange>('dataChanged', { detail: { ...event.data, remote: true } }));
+});
+
+// Tells this tab and every other open instance of the app that data was written
+function emitDataChanged(stores: string[], keys?: DataChange['keys']) {
+    const change: DataChange = { stores, keys };
+    dbEvents.dispatchEvent(new CustomEvent<DataChange>('dataChanged', { detail: change }));
+    channel?.postMessage(change);
+}
+
+// Groups the keys of journaled changes by store. Only `storeNames` are listed, because
+// other stores in the transaction may have been written without being journaled.
+function changedKeys(changes: JournalChange[], storeNames: string[]): Record<string, IDBValidKey[]> {
+    const keys: Record<string, IDBValidKey[]> = Object.fromEntries(storeNames.map(name => [name, []]));
+    changes.forEach(({ store, key }) => keys[store]?.push(key));
+    return keys;
+}
+
+function getDB(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    // Runs in the browser or its database worker, never on the server
+    return Promise.reject(new Error('IndexedDB not available on server-side.'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        console.error('IndexedDB error:', request.error);
+        reject('Error opening database');
+      };
+
+      request.onblocked = () => {
+        console.warn('Waiting for other tabs to close the database before upgrading it.');
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        runMigrations(db, transaction, event.oldVersion);
+      };
+
+      request.onsuccess = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        // A newer version of the app in another tab wants to upgrade the schema. Close so
+        // the upgrade isn't blocked; this tab has to reload before it can open the database again.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          dbEvents.dispatchEvent(new CustomEvent('versionChanged'));
+        };
+
+        // Use a separate function to handle initial data population
+        populateInitialData(db).then(() => resolve(db)).catch(reject);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function populateInitialData(db: IDBDatabase): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(['categories', 'incomeCategories', 'settings'], 'readwrite');
+        const categoryStore = transaction.objectStore('categories');
+        const incomeCategoryStore = transaction.objectStore('incomeCategories');
+        const settingsStore = transaction.objectStore('settings');
+        let checksCompleted = 0;
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+
+        const onCheckComplete = () => {
+            checksCompleted++;
+        };
+
+        // Defaults are only added to an empty store, so they can be renamed or merged away
+        const catRequest = categoryStore.count();
+        catRequest.onsuccess = () => {
+            if (catRequest.result === 0) {
+                defaultCategories.forEach(name => categoryStore.add(withDefaultStyle({ name })));
+            }
+            onCheckComplete();
+        };
+        catRequest.onerror = () => reject(catRequest.error);
+
+        const incomeCatRequest = incomeCategoryStore.getAll();
+        incomeCatRequest.onsuccess = () => {
+            const existingNames = new Set((incomeCatRequest.result as Category[]).map(c => c.name));
+            defaultIncomeCategories
+                .filter(name => !existingNames.has(name))
+                .forEach(name => incomeCategoryStore.add(withDefaultStyle({ name })));
+            onCheckComplete();
+        };
+        incomeCatRequest.onerror = () => reject(incomeCatRequest.error);
+        
+
+        const settingsRequest = settingsStore.count();
+        settingsRequest.onsuccess = (e) => {
+            const count = (e.target as IDBRequest).result;
+            if (count === 0) {
+                settingsStore.add({ id: 1, monthlyBudget: 1000 });
+            }
+            onCheckComplete();
+        };
+        settingsRequest.onerror = () => reject(settingsRequest.error);
+    });
+}
+
+
+// Generic CRUD operations. Writes are journaled so they can be undone; the label
+// defaults to a description of the records written, such as "Deleted expense".
+async function performDBOperation<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest | IDBRequest<any[]>, label?: string): Promise<T> {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const changes: JournalChange[] = [];
+    const store = mode === 'readwrite' ? recordWrites(transaction.objectStore(storeName), changes) : transaction.objectStore(storeName);
+    const request = operation(store);
+
+    transaction.oncomplete = () => {
+        if (mode === 'readwrite') {
+             emitDataChanged([storeName], changedKeys(changes, [storeName]));
+             recordJournalEntry(changes, label).catch(error => console.error('Failed to record change for undo:', error));
+        }
+    };
+    
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Reads records by key in one transaction. Keys without a record resolve to undefined.
+export const getRecords = async <T>(storeName: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> => {
+    const db = await getDB();
+    const tx = db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const requests = keys.map(key => store.get(key));
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve(requests.map(request => request.result));
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Runs writes across several stores in one transaction and journals them as a single
+// change. `body` must get its stores from the `store` function so the writes are recorded;
+// writes made through `tx` directly are not journaled. Calling `fail` aborts the
+// transaction, so nothing is written or announced, and rejects with the error.
+async function runJournaledTransaction(storeNames: string[], body: (store: (name: string) => IDBObjectStore, tx: IDBTransaction, fail: (error: Error) => void) => void, label?: string, onProgress?: (progress: OperationProgress) => void): Promise<void> {
+    const db = await getDB();
+    const tx = trackWrites(db.transaction(storeNames, 'readwrite'), onProgress);
+    const changes: JournalChange[] = [];
+    const stores = new Map<string, IDBObjectStore>();
+    const store = (name: string) => {
+        if (!stores.has(name)) stores.set(name, recordWrites(tx.objectStore(name), changes));
+        return stores.get(name)!;
+    };
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+            emitDataChanged(storeNames, changedKeys(changes, [...stores.keys()]));
+            recordJournalEntry(changes, label).catch(error => console.error('Failed to record change for undo:', error));
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+
+        body(store, tx, error => {
+            tx.abort();
+            reject(error);
+        });
+    });
+}
+
+// Undo Journal
+
+// Saves a change so it can be undone. Changes that were undone can no longer be redone
+// once something new is recorded. Emits journalRecorded with the entry.
+async function recordJournalEntry(changes: JournalChange[], label?: string): Promise<void> {
+    if (changes.length === 0) return;
+    const db = await getDB();
+    const tx = db.transaction(JOURNAL_STORE, 'readwrite');
+    const store = tx.objectStore(JOURNAL_STORE);
+    const entry: JournalEntry = { label: label ?? describeChanges(changes), createdAt: new Date().toISOString(), changes };
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+            dbEvents.dispatchEvent(new CustomEvent<JournalEntry>('journalRecorded', { detail: entry }));
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+
+        const undoneRequest = store.index('undoneAt').getAllKeys();
+        const keysRequest = store.getAllKeys();
+        keysRequest.onsuccess = () => {
+            const undone = new Set(undoneRequest.result);
+            const kept = keysRequest.result.filter(key => !undone.has(key));
+            [...undone, ...kept.slice(0, Math.max(0, kept.length - JOURNAL_LIMIT + 1))].forEach(key => store.delete(key));
+
+            const addRequest = store.add(entry);
+            addRequest.onsuccess = () => {
+                entry.id = addRequest.result as number;
+            };
+        };
+    });
+}
+
+// Undoes the most recent change that hasn't been undone, or redoes the last change that
+// was undone. Resolves with the entry, or null when there is nothing to undo or redo.
+async function replayJournal(direction: 'undo' | 'redo', expectedId?: number): Promise<JournalEntry | null> {
+    const [keys, undoneKeys] = await Promise.all([
+        performDBOperation<number[]>(JOURNAL_STORE, 'readonly', store => store.getAllKeys()),
+        performDBOperation<number[]>(JOURNAL_STORE, 'readonly', store => store.index('undoneAt').getAllKeys()),
+    ]);
+    const id = direction === 'undo'
+        ? keys.filter(key => !undoneKeys.includes(key)).pop()
+        : (undoneKeys.length > 0 ? Math.min(...undoneKeys) : undefined);
+    if (id === undefined) return null;
+    if (expectedId !== undefined && id !== expectedId) {
+        throw new Error('Undo the changes made after this one first.');
+    }
+
+    const entry = await performDBOperation<JournalEntry>(JOURNAL_STORE, 'readonly', store => store.get(id));
+    const { undoneAt, ...rest } = entry;
+    const updated: JournalEntry = direction === 'undo' ? { ...rest, undoneAt: new Date().toISOString() } : rest;
+    const storeNames = new Set(entry.changes.map(change => change.store));
+    if (storeNames.has('expenses')) storeNames.add('expenseHistory');
+    const db = await getDB();
+    const tx = db.transaction([...storeNames, JOURNAL_STORE], 'readwrite');
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+            // Expense history is also written directly, so its keys aren't all known
+            emitDataChanged([...storeNames], changedKeys(entry.changes, [...storeNames].filter(name => name !== 'expenseHistory')));
+            resolve(updated);
+        };
+        tx.onerror = () => reject(tx.error);
+
+        applyChanges(tx, entry.changes, direction);
+        tx.objectStore(JOURNAL_STORE).put(updated);
+
+        // An expense that no longer exists takes its history with it
+        entry.changes
+            .filter(change => change.store === 'expenses')
+            .forEach(change => {
+                const [from, to] = (direction === 'undo' ? [change.after, change.before] : [change.before, change.after]) as [Expense?, Expense?];
+                if (to) {
+                    recordExpenseHistory(tx, from, to, direction);
+                } else {
+                    deleteExpenseHistory(name => tx.objectStore(name), change.key as number);
+                }
+            });
+    });
+}
+
+// Pass the id of the entry being undone to make sure no newer change is undone instead
+export const undoLastChange = (expectedId?: number): Promise<JournalEntry | null> => replayJournal('undo', expectedId);
+export const redoLastChange = (): Promise<JournalEntry | null> => replayJournal('redo');
+
+// Expenses
+// Expenses in the Trash are left out
+export const getExpenses = async (): Promise<Expense[]> => {
+    const expenses = await performDBOperation<Expense[]>('expenses', 'readonly', store => store.getAll());
+    return expenses.filter(expense => !expense.deletedAt);
+};
+export const addExpense = async (expense: Omit<Expense, 'id'>, source: ExpenseChangeSource = 'manual'): Promise<IDBValidKey> => {
+    const [id] = await addExpenses([expense], source);
+    return id;
+};
+export const updateExpense = (expense: Expense, source: ExpenseChangeSource = 'manual'): Promise<void> => updateExpenses([expense], source);
+
+// Adds several expenses in one transaction, so they are undone together.
+// Resolves with the ids of the new expenses, in the same order.
+export const addExpenses = async (expenses: Omit<Expense, 'id'>[], source: ExpenseChangeSource = 'manual', onProgress?: (progress: OperationProgress) => void): Promise<number[]> => {
+    const ids: number[] = [];
+    await runJournaledTransaction(['expenses', 'expenseHistory'], (store, tx) => {
+        expenses.forEach((expense, index) => {
+            const request = store('expenses').add(expense);
+            request.onsuccess = () => {
+                ids[index] = request.result as number;
+                recordExpenseHistory(tx, undefined, { ...expense, id: ids[index] }, source);
+            };
+        });
+    }, undefined, onProgress);
+    await checkBudgetAlerts(expenses).catch(error => console.error('Failed to check budget alerts:', error));
+    return ids;
+};
+
+// Saves several edited expenses in one transaction. Edits are merged onto the stored
+// records, so fields the caller doesn't know about (externalId, recurringId, ...) are kept.
+export const updateExpenses = (expenses: Expense[], source: ExpenseChangeSource = 'manual'): Promise<void> =>
+    runJournaledTransaction(['expenses', 'expenseHistory'], (store, tx) => {
+        const records = store('expenses');
+        expenses.forEach(expense => {
+            const request = records.get(expense.id!);
+            request.onsuccess = () => {
+                const updated: Expense = { ...request.result, ...expense };
+                records.put(updated);
+                recordExpenseHistory(tx, request.result, updated, source);
+            };
+        });
+    });
+
+// Moves expenses to the Trash. They keep their attachments until they are purged.
+export const deleteExpenses = (ids: number[]): Promise<void> =>
+    setDeletedAt('expenses', ids, new Date().toISOString(), `Moved ${describeRecords('expenses', ids.length)} to the Trash`);
+export const deleteExpense = (id: number): Promise<void> => deleteExpenses([id]);
+
+// Expense History
+
+// Appends an entry to the expense's history, unless nothing changed. History is written
+// straight to the transaction, so undoing a change adds to the history instead of erasing it.
+function recordExpenseHistory(tx: IDBTransaction, before: Expense | undefined, after: Expense, source: ExpenseChangeSource) {
+    const entry = createHistoryEntry(before, after, source);
+    if (entry) tx.objectStore('expenseHistory').add(entry);
+}
+
+function deleteExpenseHistory(store: (name: string) => IDBObjectStore, expenseId: number) {
+    const history = store('expenseHistory');
+    const request = history.index('expenseId').getAllKeys(expenseId);
+    request.onsuccess = () => request.result.forEach(key => history.delete(key));
+}
+
+// Resolves with the expense's history, oldest first
+export const getExpenseHistory = (expenseId: number): Promise<ExpenseHistoryEntry[]> =>
+    performDBOperation('expenseHistory', 'readonly', store => store.index('expenseId').getAll(expenseId));
+
+// Puts the expense back the way it was after a history entry. An expense in the Trash stays there.
+export const revertExpense = (historyId: number): Promise<void> =>
+    runJournaledTransaction(['expenses', 'expenseHistory'], (store, tx) => {
+        const entryRequest = tx.objectStore('expenseHistory').get(historyId);
+        entryRequest.onsuccess = () => {
+            const entry: ExpenseHistoryEntry | undefined = entryRequest.result;
+            if (!entry) return;
+            const records = store('expenses');
+            const currentRequest = records.get(entry.expenseId);
+            currentRequest.onsuccess = () => {
+                const current: Expense | undefined = currentRequest.result;
+                if (!current) return;
+                const { deletedAt, ...version } = entry.snapshot;
+                const reverted: Expense = current.deletedAt ? { ...version, deletedAt: current.deletedAt } : version;
+                records.put(reverted);
+                recordExpenseHistory(tx, current, reverted, 'revert');
+            };
+        };
+    }, 'Reverted expense');
+
+// Resolves with the external ids that already belong to a stored expense
+export const findImportedExternalIds = async (externalIds: string[]): Promise<Set<string>> => {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction('expenses', 'readonly');
+        const index = tx.objectStore('expenses').index('externalId');
+        const found = new Set<string>();
+
+        externalIds.forEach(externalId => {
+            const request = index.count(externalId);
+            request.onsuccess = () => {
+                if (request.result > 0) found.add(externalId);
+            };
+        });
+
+        tx.oncomplete = () => resolve(found);
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Resolves with every tag used by an expense, in alphabetical order
+export const getTags = async (): Promise<string[]> => {
+    const db = await getDB();
+    const tx = db.transaction('expenses', 'readonly');
+
+    return new Promise((resolve, reject) => {
+        const tags: string[] = [];
+        const request = tx.objectStore('expenses').index('tags').openKeyCursor(null, 'nextunique');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                tags.push(cursor.key as string);
+                cursor.continue();
+            } else {
+                resolve(tags);
+            }
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Expense Queries
+
+// Where a page of query results ended: the index key and primary key of its last expense
+type ExpenseCursor = { key: IDBValidKey; primaryKey: IDBValidKey };
+
+// Walks the expenses matching a query in date order, until `visit` returns false.
+// With `resumeAfter`, starts with the first expense past that position.
+async function scanExpenses(query: ExpenseQuery, visit: (expense: Expense, cursor: IDBCursorWithValue) => boolean | void, resumeAfter?: ExpenseCursor): Promise<void> {
+    const { index, range } = expenseIndexRange(query);
+    const direction = query.direction === 'asc' ? 1 : -1;
+    const db = await getDB();
+    const tx = db.transaction('expenses', 'readonly');
+    const request = tx.objectStore('expenses').index(index).openCursor(range, direction === 1 ? 'next' : 'prev');
+    let resumed = !resumeAfter;
+
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if (!resumed) {
+                // Negative while the cursor hasn't reached the resume position yet
+                const position = direction * (indexedDB.cmp(cursor.key, resumeAfter!.key) || indexedDB.cmp(cursor.primaryKey, resumeAfter!.primaryKey));
+                if (position < 0) return cursor.continuePrimaryKey(resumeAfter!.key, resumeAfter!.primaryKey);
+                resumed = true;
+                if (position === 0) return cursor.continue();
+            }
+            const expense: Expense = cursor.value;
+            if (matchesExpenseQuery(expense, query) && visit(expense, cursor) === false) return;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// Reads one page of the expenses matching a query. Pass the page's `nextCursor` back
+// as `cursor` to read the next one; pages stay in step while expenses are added.
+export const queryExpenses = async (query: ExpenseQuery = {}, { limit = 50, cursor }: { limit?: number; cursor?: string } = {}): Promise<ExpensePage> => {
+    const expenses: Expense[] = [];
+    let last: ExpenseCursor | undefined;
+    let hasMore = false;
+    await scanExpenses(query, (expense, position) => {
+        if (expenses.length === limit) {
+            hasMore = true;
+            return false;
+        }
+        expenses.push(expense);
+        last = { key: position.key, primaryKey: position.primaryKey };
+    }, cursor ? JSON.parse(cursor) : undefined);
+    return { expenses, nextCursor: hasMore && last ? JSON.stringify(last) : undefined };
+};
+
+export const countExpenses = async (query: ExpenseQuery = {}): Promise<number> => {
+    if (needsFilter(query)) return (await sumExpenses(query)).count;
+    // The index also counts expenses in the Trash, which are few enough to read and subtract
+    const { index, range } = expenseIndexRange(query);
+    const [indexed, trashed] = await Promise.all([
+        performDBOperation<number>('expenses', 'readonly', store => store.index(index).count(range)),
+        getTrashedExpenses(),
+    ]);
+    return indexed - trashed.filter(({ deletedAt, ...expense }) => matchesExpenseQuery(expense, query)).length;
+};
+
+export const sumExpenses = async (query: ExpenseQuery = {}): Promise<ExpenseTotals> => {
+    const totals = emptyTotals();
+    await scanExpenses(query, expense => {
+        addToTotals(totals, expense);
+    });
+    return totals;
+};
+
+// Resolves with the totals for each day, month, category or payment mode that has expenses
+export const sumExpensesBy = async (query: ExpenseQuery, groupBy: ExpenseGroupBy): Promise<Record<string, ExpenseTotals>> => {
+    const groups: Record<string, ExpenseTotals> = {};
+    await scanExpenses(query, expense => {
+        addToTotals(groups[groupKey(expense, groupBy)] ??= emptyTotals(), expense);
+    });
+    return groups;
+};
+
+// Attachments
+export const getAttachments = (): Promise<Attachment[]> => performDBOperation('attachments', 'readonly', store => store.getAll());
+export const getAttachmentsForExpense = (expenseId: number): Promise<Attachment[]> => performDBOperation('attachments', 'readonly', store => store.index('expenseIds').getAll(expenseId));
+export const addAttachment = (attachment: Omit<Attachment, 'id'>): Promise<IDBValidKey> => performDBOperation('attachments', 'readwrite', store => store.add(attachment));
+
+// Removes an attachment from one expense, deleting it once no expense uses it
+export const detachAttachment = (id: number, expenseId: number): Promise<void> =>
+    runJournaledTransaction(['attachments'], store => {
+        const attachments = store('attachments');
+        const getRequest = attachments.get(id);
+        getRequest.onsuccess = () => {
+            const attachment = getRequest.result as Attachment | undefined;
+            if (!attachment) return;
+            const expenseIds = attachment.expenseIds.filter(existing => existing !== expenseId);
+            if (expenseIds.length === 0) {
+                attachments.delete(id);
+            } else {
+                attachments.put({ ...attachment, expenseIds });
+            }
+        };
+    }, 'Removed receipt');
+
+// Categories
+export const getCategories = (): Promise<Category[]> => performDBOperation('categories', 'readonly', store => store.getAll());
+export const addCategory = (category: Omit<Category, 'id'>): Promise<IDBValidKey> => performDBOperation('categories', 'readwrite', store => store.add(category));
+export const updateCategory = (category: Category): Promise<IDBValidKey> => performDBOperation('categories', 'readwrite', store => store.put(category));
+
+const categoryStoreNames = ['categories', 'expenses', 'expenseHistory', 'budgets', 'rules', 'recurringExpenses'];
+
+// Puts back every record of the store that `transform` changes. Pass a journaled store
+// to make the writes undoable.
+function updateRecords<T>(store: IDBObjectStore, transform: (record: T) => T | undefined) {
+    const request = store.getAll();
+    request.onsuccess = () => {
+        (request.result as T[]).forEach(record => {
+            const updated = transform(record);
+            if (updated !== undefined) store.put(updated);
+        });
+    };
+}
+
+// Points every expense, rule and recurring expense filed under one category name at
+// another. A budget moves with them unless the other category already has one.
+function moveCategoryReferences(store: (name: string) => IDBObjectStore, tx: IDBTransaction, from: string, to: string) {
+    const expenses = store('expenses');
+    const expensesRequest = expenses.index('category').getAll(from);
+    expensesRequest.onsuccess = () => {
+        (expensesRequest.result as Expense[]).forEach(expense => {
+            const updated = { ...expense, category: to };
+            expenses.put(updated);
+            recordExpenseHistory(tx, expense, updated, 'manual');
+        });
+    };
+
+    updateRecords<RecurringExpense>(store('recurringExpenses'), rule => (rule.category === from ? { ...rule, category: to } : undefined));
+    updateRecords<ExpenseRule>(store('rules'), rule => (
+        rule.actions.category === from ? { ...rule, actions: { ...rule.actions, category: to } } : undefined
+    ));
+
+    const budgets = store('budgets');
+    const budgetRequest = budgets.index('category').get(from);
+    const targetCount = budgets.index('category').count(to);
+    targetCount.onsuccess = () => {
+        const budget = budgetRequest.result as CategoryBudget | undefined;
+        if (!budget) return;
+        if (targetCount.result > 0) {
+            budgets.delete(budget.id!);
+        } else {
+            budgets.put({ ...budget, category: to });
+        }
+    };
+}
+
+// Renames a category along with every expense, budget, rule and recurring expense that uses it
+export const renameCategory = (id: number, name: string): Promise<void> =>
+    runJournaledTransaction(categoryStoreNames, (store, tx, fail) => {
+        const categories = store('categories');
+        const getRequest = categories.get(id);
+        const existingRequest = categories.index('name').count(name);
+        existingRequest.onsuccess = () => {
+            const category: Category | undefined = getRequest.result;
+            if (!category || category.name === name) return;
+            if (existingRequest.result > 0) {
+                fail(new Error(`A category named ${name} already exists.`));
+                return;
+            }
+            categories.put({ ...category, name });
+            moveCategoryReferences(store, tx, category.name, name);
+        };
+    }, `Renamed category to ${name}`);
+
+// Moves everything filed under the source category into the target, then deletes the
+// source. Subcategories of the source become subcategories of the target's top level.
+export const mergeCategories = async (sourceId: number, targetId: number): Promise<void> => {
+    if (sourceId === targetId) {
+        throw new Error('Cannot merge a category into itself.');
+    }
+    return runJournaledTransaction(categoryStoreNames, (store, tx, fail) => {
+        const categoryStore = store('categories');
+        const request = categoryStore.getAll();
+        request.onsuccess = () => {
+            const categories: Category[] = request.result;
+            const source = categories.find(c => c.id === sourceId);
+            const target = categories.find(c => c.id === targetId);
+            if (!source || !target) {
+                fail(new Error('Category not found.'));
+                return;
+            }
+
+            // A subcategory merged into its own parent's child takes the parent's place
+            const updatedTarget = target.parentId === sourceId ? { ...target, parentId: source.parentId } : target;
+            categoryStore.put(updatedTarget);
+            const newParentId = updatedTarget.parentId ?? targetId;
+            categories
+                .filter(c => c.parentId === sourceId && c.id !== targetId)
+                .forEach(child => categoryStore.put({ ...child, parentId: newParentId }));
+
+            categoryStore.delete(sourceId);
+            moveCategoryReferences(store, tx, source.name, target.name);
+        };
+    }, 'Merged categories');
+};
+
+// Budgets
+export const getBudgets = (): Promise<CategoryBudget[]> => performDBOperation('budgets', 'readonly', store => store.getAll());
+export const getBudgetForCategory = (category: string): Promise<CategoryBudget | undefined> => performDBOperation('budgets', 'readonly', store => store.index('category').get(category));
+export const deleteBudget = (id: number): Promise<void> => performDBOperation('budgets', 'readwrite', store => store.delete(id));
+
+// Creates the budget for a category, or replaces the existing one
+export const saveBudget = async (budget: Omit<CategoryBudget, 'id'>): Promise<IDBValidKey> => {
+    const existing = await getBudgetForCategory(budget.category);
+    return performDBOperation('budgets', 'readwrite', store => store.put(existing ? { ...budget, id: existing.id } : budget));
+};
+
+// Sent with budgetThresholdCrossed events
+export interface BudgetThresholdCrossed {
+    status: BudgetStatus;
+    threshold: number;
+}
+
+// Fires an alert for every threshold of a category budget that the newly added expenses
+// pushed usage past. A batch is compared against spending before the whole batch, so
+// thresholds crossed partway through an import aren't missed.
+async function checkBudgetAlerts(expenses: Omit<Expense, 'id'>[]) {
+    const added = new Map<string, number>();
+    expenses
+        .filter(expense => isSameMonth(new Date(expense.date), new Date()))
+        .forEach(expense => added.set(expense.category, (added.get(expense.category) ?? 0) + ownShare(expense)));
+    if (added.size === 0) return;
+
+    const budgets = (await getBudgets()).filter(budget => added.has(budget.category) && budget.thresholds.length > 0);
+    if (budgets.length === 0) return;
+
+    const stored = await getExpenses();
+    budgets.forEach(budget => {
+        const status = getBudgetStatus(budget, stored);
+        // Worked out like BudgetStatus.percent, so a budget with nothing available only alerts once
+        const spentBefore = status.spent - added.get(budget.category)!;
+        const before = status.available > 0 ? (spentBefore / status.available) * 100 : spentBefore > 0 ? Infinity : 0;
+        // Alerts are shown by the page, which may be on another thread
+        crossedThresholds(budget, before, status.percent).forEach(threshold => {
+            dbEvents.dispatchEvent(new CustomEvent<BudgetThresholdCrossed>('budgetThresholdCrossed', { detail: { status, threshold } }));
+        });
+    });
+}
+
+// Income
+export const getIncome = (): Promise<Income[]> => performDBOperation('income', 'readonly', store => store.getAll());
+export const addIncome = (income: Omit<Income, 'id'>): Promise<IDBValidKey> => performDBOperation('income', 'readwrite', store => store.add(income));
+export const updateIncome = (income: Income): Promise<IDBValidKey> => performDBOperation('income', 'readwrite', store => store.put(income));
+export const deleteIncome = (id: number): Promise<void> => performDBOperation('income', 'readwrite', store => store.delete(id));
+
+export const getIncomeCategories = (): Promise<Category[]> => performDBOperation('incomeCategories', 'readonly', store => store.getAll());
+export const addIncomeCategory = (category: Omit<Category, 'id'>): Promise<IDBValidKey> => performDBOperation('incomeCategories', 'readwrite', store => store.add(category));
+export const deleteIncomeCategory = (id: number): Promise<void> =>
+    runJournaledTransaction(['incomeCategories'], (store, _tx, fail) => {
+        const categories = store('incomeCategories');
+        const getRequest = categories.get(id);
+        getRequest.onsuccess = () => {
+            const categoryToDelete = getRequest.result;
+            if (categoryToDelete && defaultIncomeCategories.includes(categoryToDelete.name)) {
+                fail(new Error('Cannot delete a default income category.'));
+                return;
+            }
+            categories.delete(id);
+        };
+    });
+
+// Accounts
+export const getAccounts = (): Promise<Account[]> => performDBOperation('accounts', 'readonly', store => store.getAll());
+export const addAccount = (account: Omit<Account, 'id'>): Promise<IDBValidKey> => performDBOperation('accounts', 'readwrite', store => store.add(account));
+export const updateAccount = (account: Account): Promise<IDBValidKey> => performDBOperation('accounts', 'readwrite', store => store.put(account));
+
+// Transfers
+export const getTransfers = (): Promise<Transfer[]> => performDBOperation('transfers', 'readonly', store => store.getAll());
+export const addTransfer = (transfer: Omit<Transfer, 'id'>): Promise<IDBValidKey> => {
+    if (transfer.fromAccountId === transfer.toAccountId) {
+        return Promise.reject(new Error('Cannot transfer to the same account.'));
+    }
+    return performDBOperation('transfers', 'readwrite', store => store.add(transfer));
+};
+export const deleteTransfer = (id: number): Promise<void> => performDBOperation('transfers', 'readwrite', store => store.delete(id));
+
+// Groups
+export const getGroups = (): Promise<Group[]> => performDBOperation('groups', 'readonly', store => store.getAll());
+export const addGroup = (group: Omit<Group, 'id'>): Promise<IDBValidKey> => performDBOperation('groups', 'readwrite', store => store.add(group));
+export const updateGroup = (group: Group): Promise<IDBValidKey> => performDBOperation('groups', 'readwrite', store => store.put(group));
+
+// Deletes a group and its settlements. Groups that still have shared expenses are kept.
+export const deleteGroup = (id: number): Promise<void> =>
+    runJournaledTransaction(['groups', 'settlements', 'expenses'], (store, _tx, fail) => {
+        const countRequest = store('expenses').index('groupId').count(id);
+        countRequest.onsuccess = () => {
+            if (countRequest.result > 0) {
+                fail(new Error('Cannot delete a group that has shared expenses.'));
+                return;
+            }
+            store('groups').delete(id);
+            const settlements = store('settlements');
+            const keysRequest = settlements.index('groupId').getAllKeys(id);
+            keysRequest.onsuccess = () => keysRequest.result.forEach(key => settlements.delete(key));
+        };
+    }, 'Deleted group');
+
+// Settlements
+export const getSettlements = (): Promise<Settlement[]> => performDBOperation('settlements', 'readonly', store => store.getAll());
+export const addSettlement = (settlement: Omit<Settlement, 'id'>): Promise<IDBValidKey> => performDBOperation('settlements', 'readwrite', store => store.add(settlement));
+export const deleteSettlement = (id: number): Promise<void> => performDBOperation('settlements', 'readwrite', store => store.delete(id));
+
+// CSV Mappings
+export const getCsvMappings = (): Promise<CsvMapping[]> => performDBOperation('csvMappings', 'readonly', store => store.getAll());
+export const deleteCsvMapping = (id: number): Promise<void> => performDBOperation('csvMappings', 'readwrite', store => store.delete(id));
+
+// Creates the mapping for a bank, or replaces the existing one with the same name
+export const saveCsvMapping = async (mapping: Omit<CsvMapping, 'id'>): Promise<IDBValidKey> => {
+    const existing = await performDBOperation<CsvMapping | undefined>('csvMappings', 'readonly', store => store.index('name').get(mapping.name));
+    return performDBOperation('csvMappings', 'readwrite', store => store.put(existing ? { ...mapping, id: existing.id } : mapping));
+};
+
+// Rules
+export const getRules = (): Promise<ExpenseRule[]> => performDBOperation('rules', 'readonly', store => store.index('priority').getAll());
+export const updateRule = (rule: ExpenseRule): Promise<IDBValidKey> => performDBOperation('rules', 'readwrite', store => store.put(rule));
+export const deleteRule = (id: number): Promise<void> => performDBOperation('rules', 'readwrite', store => store.delete(id));
+
+// Adds a rule after every existing rule
+export const addRule = async (rule: Omit<ExpenseRule, 'id' | 'priority'>): Promise<IDBValidKey> => {
+    const rules = await getRules();
+    const priority = rules.length > 0 ? rules[rules.length - 1].priority + 1 : 0;
+    return performDBOperation('rules', 'readwrite', store => store.add({ ...rule, priority }));
+};
+
+// Saves the order of the given rule ids as their priorities
+export const reorderRules = (ids: number[]): Promise<void> =>
+    runJournaledTransaction(['rules'], store => {
+        const rules = store('rules');
+        ids.forEach((id, priority) => {
+            const request = rules.get(id);
+            request.onsuccess = () => {
+                if (request.result) rules.put({ ...request.result, priority });
+            };
+        });
+    }, 'Reordered rules');
+
+// Runs the rules over every stored expense. Resolves with the number of expenses changed.
+export const applyRulesToExpenses = async (): Promise<number> => {
+    let updatedCount = 0;
+    await runJournaledTransaction(['rules', 'expenses', 'expenseHistory'], (store, tx) => {
+        const expenses = store('expenses');
+        // Rules are only read, so they don't need to go through the journal
+        const rulesRequest = tx.objectStore('rules').getAll();
+        const expensesRequest = expenses.getAll();
+        expensesRequest.onsuccess = () => {
+            const rules: ExpenseRule[] = rulesRequest.result;
+            (expensesRequest.result as Expense[])
+                .filter(expense => !expense.deletedAt)
+                .forEach(expense => {
+                    const updated = applyRules<Expense>(expense, rules);
+                    if (updated === expense) return;
+                    expenses.put(updated);
+                    recordExpenseHistory(tx, expense, updated, 'rule');
+                    updatedCount++;
+                });
+        };
+    }, 'Applied rules to expenses');
+    return updatedCount;
+};
+
+// Saved Views
+export const getSavedViews = (): Promise<SavedView[]> => performDBOperation('savedViews', 'readonly', store => store.getAll());
+export const deleteSavedView = (id: number): Promise<void> => performDBOperation('savedViews', 'readwrite', store => store.delete(id));
+
+// Creates the view, or replaces the existing one with the same name
+export const saveView = async (view: Omit<SavedView, 'id'>): Promise<IDBValidKey> => {
+    const existing = await performDBOperation<SavedView | undefined>('savedViews', 'readonly', store => store.index('name').get(view.name));
+    return performDBOperation('savedViews', 'readwrite', store => store.put(existing ? { ...view, id: existing.id } : view));
+};
+
+// Reminders
+// Reminders in the Trash are left out
+export const getReminders = async (): Promise<Reminder[]> => {
+    const reminders = await performDBOperation<Reminder[]>('reminders', 'readonly', store => store.getAll());
+    return reminders.filter(reminder => !reminder.deletedAt);
+};
+
+// Adds the reminder and schedules its notifications. Like expense history, notifications
+// are written straight to the transaction, so undo leaves them to the service worker,
+// which drops notifications whose reminder is gone.
+export const addReminder = async (reminder: Omit<Reminder, 'id'>): Promise<IDBValidKey> => {
+    let id: IDBValidKey = 0;
+    await runJournaledTransaction(['reminders', 'scheduledNotifications'], (store, tx) => {
+        const request = store('reminders').add(reminder);
+        request.onsuccess = () => {
+            id = request.result;
+            const notifications = tx.objectStore('scheduledNotifications');
+            reminderNotifications({ ...reminder, id: id as number }).forEach(notification => notifications.add(notification));
+        };
+    });
+    return id;
+};
+export const deleteReminder = (id: number): Promise<void> => setDeletedAt('reminders', [id], new Date().toISOString(), 'Moved reminder to the Trash');
+
+// Pays a bill. A bill with an amount gets a matching expense, and a recurring bill moves on
+// to its next due date, with notifications for it. Resolves with the new expense's id.
+export const markReminderPaid = async (id: number, paidAt: Date = new Date()): Promise<number | undefined> => {
+    let expenseId: number | undefined;
+    let expense: Omit<Expense, 'id'> | undefined;
+    await runJournaledTransaction(['reminders', 'expenses', 'expenseHistory', 'scheduledNotifications'], (store, tx) => {
+        const request = store('reminders').get(id);
+        request.onsuccess = () => {
+            const reminder: Reminder | undefined = request.result;
+            if (!reminder || reminder.deletedAt || billStatus(reminder) === 'paid') return;
+
+            const paid: Reminder = reminder.recurrence
+                ? { ...reminder, date: nextDueDate(new Date(reminder.date), reminder.recurrence).toISOString(), paidAt: paidAt.toISOString() }
+                : { ...reminder, paidAt: paidAt.toISOString() };
+            store('reminders').put(paid);
+            if (paid.date !== reminder.date) {
+                const notifications = tx.objectStore('scheduledNotifications');
+                reminderNotifications(paid).forEach(notification => notifications.add(notification));
+            }
+
+            if (reminder.amount === undefined) return;
+            expense = billExpense({ ...reminder, amount: reminder.amount }, paidAt);
+            const expenseRequest = store('expenses').add(expense);
+            expenseRequest.onsuccess = () => {
+                expenseId = expenseRequest.result as number;
+                recordExpenseHistory(tx, undefined, { ...expense!, id: expenseId }, 'manual');
+            };
+        };
+    }, 'Marked bill as paid');
+    if (expense) {
+        await checkBudgetAlerts([expense]).catch(error => console.error('Failed to check budget alerts:', error));
+    }
+    return expenseId;
+};
+
+// Deletes paid one-off bills that were due before today. Unpaid ones are kept, as overdue.
+export const clearOldReminders = async (): Promise<void> => {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction('reminders', 'readwrite');
+        const store = transaction.objectStore('reminders');
+        const index = store.index('date');
+        
+        const yesterday = startOfDay(new Date());
+        const range = IDBKeyRange.upperBound(yesterday.toISOString(), true);
+        
+        const request = index.openCursor(range);
+        const deletedKeys: IDBValidKey[] = [];
+
+        request.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+            if (cursor) {
+                if (billStatus(cursor.value) === 'paid') {
+                    cursor.delete();
+                    deletedKeys.push(cursor.primaryKey);
+                }
+                cursor.continue();
+            }
+        };
+
+        transaction.oncomplete = () => {
+            if (deletedKeys.length > 0) {
+                console.log(`Cleared ${deletedKeys.length} old reminders.`);
+                emitDataChanged(['reminders'], { reminders: deletedKeys });
+            }
+            resolve();
+        };
+
+        transaction.onerror = () => {
+            reject(transaction.error);
+        };
+    });
+};
+
+export const getScheduledNotifications = (): Promise<ScheduledNotification[]> => performDBOperation('scheduledNotifications', 'readonly', store => store.getAll());
+
+// Schedules the notifications of reminders that have none yet for their due date, such as
+// reminders that were imported, restored from the Trash or brought back by undo. Runs on app load, so it isn't
+// journaled. Resolves with the number of notifications scheduled.
+export const syncReminderNotifications = async (now: Date = new Date()): Promise<number> => {
+    const db = await getDB();
+    const tx = db.transaction(['reminders', 'scheduledNotifications'], 'readwrite');
+    const addedKeys: IDBValidKey[] = [];
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+            if (addedKeys.length > 0) {
+                emitDataChanged(['scheduledNotifications'], { scheduledNotifications: addedKeys });
+            }
+            resolve(addedKeys.length);
+        };
+        tx.onerror = () => reject(tx.error);
+
+        const store = tx.objectStore('scheduledNotifications');
+        const remindersRequest = tx.objectStore('reminders').getAll();
+        const notificationsRequest = store.getAll();
+        notificationsRequest.onsuccess = () => {
+            // Delivered notifications count too, so they aren't shown twice
+            const scheduled = new Set((notificationsRequest.result as ScheduledNotification[]).map(n => `${n.reminderId}|${n.dueDate}|${n.leadMinutes}`));
+            (remindersRequest.result as Reminder[])
+                .filter(reminder => !reminder.deletedAt)
+                .flatMap(reminder => reminderNotifications(reminder, now))
+                .filter(notification => !scheduled.has(`${notification.reminderId}|${notification.dueDate}|${notification.leadMinutes}`))
+                .forEach(notification => {
+                    const request = store.add(notification);
+                    request.onsuccess = () => addedKeys.push(request.result);
+                });
+        };
+    });
+};
+
+// Trash
+
+type TrashStoreName = 'expenses' | 'reminders';
+
+export const getTrashedExpenses = (): Promise<Expense[]> => performDBOperation('expenses', 'readonly', store => store.index('deletedAt').getAll());
+export const getTrashedReminders = (): Promise<Reminder[]> => performDBOperation('reminders', 'readonly', store => store.index('deletedAt').getAll());
+
+// Sets deletedAt on each record, or removes it when `deletedAt` is undefined
+function setDeletedAt(storeName: TrashStoreName, ids: number[], deletedAt: string | undefined, label: string): Promise<void> {
+    const storeNames = storeName === 'expenses' ? ['expenses', 'expenseHistory'] : [storeName];
+    return runJournaledTransaction(storeNames, (store, tx) => {
+        const records = store(storeName);
+        ids.forEach(id => {
+            const request = records.get(id);
+            request.onsuccess = () => {
+                if (!request.result) return;
+                const record = { ...request.result, deletedAt };
+                if (!deletedAt) delete record.deletedAt;
+                records.put(record);
+                if (storeName === 'expenses') recordExpenseHistory(tx, request.result, record, 'manual');
+            };
+        });
+    }, label);
+}
+
+export const restoreExpenses = (ids: number[]): Promise<void> =>
+    setDeletedAt('expenses', ids, undefined, `Restored ${describeRecords('expenses', ids.length)}`);
+export const restoreReminders = (ids: number[]): Promise<void> =>
+    setDeletedAt('reminders', ids, undefined, `Restored ${describeRecords('reminders', ids.length)}`);
+
+// Deletes expenses and their history for good, and detaches them from their attachments.
+// Attachments that no longer belong to any expense are deleted too.
+function removeExpenses(store: (name: string) => IDBObjectStore, ids: number[]) {
+    ids.forEach(id => {
+        store('expenses').delete(id);
+        deleteExpenseHistory(store, id);
+    });
+
+    // One expense at a time, so an attachment shared by several is updated in turn
+    const detach = (index: number) => {
+        if (index >= ids.length) return;
+        const id = ids[index];
+        const attachments = store('attachments');
+        const request = attachments.index('expenseIds').getAll(id);
+        request.onsuccess = () => {
+            (request.result as Attachment[]).forEach(attachment => {
+                const expenseIds = attachment.expenseIds.filter(expenseId => expenseId !== id);
+                if (expenseIds.length === 0) {
+                    attachments.delete(attachment.id!);
+                } else {
+                    attachments.put({ ...attachment, expenseIds });
+                }
+            });
+            detach(index + 1);
+        };
+    };
+    detach(0);
+}
+
+export const purgeExpenses = (ids: number[]): Promise<void> =>
+    runJournaledTransaction(['expenses', 'attachments', 'expenseHistory'], store => removeExpenses(store, ids), `Deleted ${describeRecords('expenses', ids.length)} forever`);
+export const purgeReminders = (ids: number[]): Promise<void> =>
+    runJournaledTransaction(['reminders'], store => ids.forEach(id => store('reminders').delete(id)), `Deleted ${describeRecords('reminders', ids.length)} forever`);
+
+export const emptyTrash = async (): Promise<void> => {
+    const [expenses, reminders] = await Promise.all([getTrashedExpenses(), getTrashedReminders()]);
+    return runJournaledTransaction(['expenses', 'attachments', 'expenseHistory', 'reminders'], store => {
+        removeExpenses(store, expenses.map(expense => expense.id!));
+        reminders.forEach(reminder => store('reminders').delete(reminder.id!));
+    }, 'Emptied the Trash');
+};
+
+// Deletes everything that has been in the Trash for longer than TRASH_RETENTION_DAYS.
+// Runs on app load, so it isn't journaled.
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<void> => {
+    const expired = IDBKeyRange.upperBound(subDays(now, TRASH_RETENTION_DAYS).toISOString());
+    const db = await getDB();
+    const tx = db.transaction(['expenses', 'attachments', 'expenseHistory', 'reminders'], 'readwrite');
+    let purgedCount = 0;
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+            if (purgedCount > 0) {
+                emitDataChanged(['expenses', 'attachments', 'expenseHistory', 'reminders']);
+            }
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+
+        const expenseKeys = tx.objectStore('expenses').index('deletedAt').getAllKeys(expired);
+        expenseKeys.onsuccess = () => {
+            purgedCount += expenseKeys.result.length;
+            removeExpenses(name => tx.objectStore(name), expenseKeys.result as number[]);
+        };
+        const reminderKeys = tx.objectStore('reminders').index('deletedAt').getAllKeys(expired);
+        reminderKeys.onsuccess = () => {
+            purgedCount += reminderKeys.result.length;
+            reminderKeys.result.forEach(key => tx.objectStore('reminders').delete(key));
+        };
+    });
+};
+
+// Recurring Expenses
+export const getRecurringExpenses = (): Promise<RecurringExpense[]> => performDBOperation('recurringExpenses', 'readonly', store => store.getAll());
+export const addRecurringExpense = (rule: Omit<RecurringExpense, 'id'>): Promise<IDBValidKey> => performDBOperation('recurringExpenses', 'readwrite', store => store.add(rule));
+export const updateRecurringExpense = (rule: RecurringExpense): Promise<IDBValidKey> => performDBOperation('recurringExpenses', 'readwrite', store => store.put(rule));
+export const deleteRecurringExpense = (id: number): Promise<void> => performDBOperation('recurringExpenses', 'readwrite', store => store.delete(id));
+
+/**
+ * Creates an expense for every occurrence of an active rule that has come due since
+ * the rule last ran. Resolves with the number of expenses created.
+ */
+export const generateRecurringExpenses = async (now: Date = new Date()): Promise<number> => {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(['recurringExpenses', 'expenses', 'expenseHistory'], 'readwrite');
+        const ruleStore = transaction.objectStore('recurringExpenses');
+        const expenseStore = transaction.objectStore('expenses');
+        const expenseKeys: IDBValidKey[] = [];
+        const ruleKeys: IDBValidKey[] = [];
+
+        const request = ruleStore.getAll();
+        request.onsuccess = () => {
+            (request.result as RecurringExpense[])
+                .filter(rule => rule.active)
+                .forEach(rule => {
+                    const due = getDueOccurrences(rule, now);
+                    if (due.length === 0) return;
+
+                    due.forEach(date => {
+                        const expense: Omit<Expense, 'id'> = {
+                            title: rule.title,
+                            amount: rule.amount,
+                            date: date.toISOString(),
+                            category: rule.category,
+                            paymentMode: rule.paymentMode,
+                            accountId: rule.accountId,
+                            recurringId: rule.id,
+                        };
+                        const request = expenseStore.add(expense);
+                        request.onsuccess = () => {
+                            expenseKeys.push(request.result);
+                            recordExpenseHistory(transaction, undefined, { ...expense, id: request.result as number }, 'recurring');
+                        };
+                    });
+                    ruleKeys.push(rule.id!);
+                    ruleStore.put({ ...rule, lastGeneratedDate: due[due.length - 1].toISOString() });
+                });
+        };
+
+        transaction.oncomplete = () => {
+            if (expenseKeys.length > 0) {
+                emitDataChanged(['recurringExpenses', 'expenses', 'expenseHistory'], { recurringExpenses: ruleKeys, expenses: expenseKeys });
+            }
+            resolve(expenseKeys.length);
+        };
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// Settings
+export const getSettings = (): Promise<AppSettings> => performDBOperation('settings', 'readonly', store => store.get(1));
+// Changes the given settings, keeping the rest
+export const updateSettings = async (settings: Partial<AppSettings>): Promise<IDBValidKey> => {
+    const current = await getSettings();
+    return performDBOperation('settings', 'readwrite', store => store.put({ ...current, ...settings, id: 1 }));
+};
+
+// Schema
+export const getMigrationHistory = (): Promise<MigrationRecord[]> => performDBOperation(HISTORY_STORE, 'readonly', store => store.getAll());
+
+// Data Management
+
+// Every store that holds user data. Used by import, merge and clear.
+const dataStoreNames = ['expenses', 'expenseHistory', 'categories', 'reminders', 'settings', 'recurringExpenses', 'income', 'incomeCategories', 'budgets', 'accounts', 'transfers', 'groups', 'settlements', 'attachments', 'csvMappings', 'rules', 'savedViews'];
+
+export const exportData = async () => {
+    const expenses = await getExpenses();
+    const categories = await getCategories();
+    const reminders = await getReminders();
+    const settings = await getSettings();
+    const recurringExpenses = await getRecurringExpenses();
+    const income = await getIncome();
+    const incomeCategories = await getIncomeCategories();
+    const budgets = await getBudgets();
+    const accounts = await getAccounts();
+    const transfers = await getTransfers();
+    const groups = await getGroups();
+    const settlements = await getSettlements();
+    const attachments = await Promise.all((await getAttachments()).map(toBackupAttachment));
+    const csvMappings = await getCsvMappings();
+    const rules = await getRules();
+    const savedViews = await getSavedViews();
+    return { schemaVersion: DB_VERSION, expenses, categories, reminders, settings, recurringExpenses, income, incomeCategories, budgets, accounts, transfers, groups, settlements, attachments, csvMappings, rules, savedViews };
+};
+
+export const previewImport = async (data: BackupData): Promise<BackupDiff> => {
+    const [expenses, categories, reminders, settings, recurringExpenses, income, incomeCategories, budgets, accounts, groups, csvMappings, rules, savedViews] = await Promise.all([
+        getExpenses(),
+        getCategories(),
+        getReminders(),
+        getSettings(),
+        getRecurringExpenses(),
+        getIncome(),
+        getIncomeCategories(),
+        getBudgets(),
+        getAccounts(),
+        getGroups(),
+        getCsvMappings(),
+        getRules(),
+        getSavedViews(),
+    ]);
+    return diffBackup(data, { expenses, categories, reminders, settings, recurringExpenses, income, incomeCategories, budgets, accounts, groups, csvMappings, rules, savedViews });
+};
+
+// Reports progress as records are written, which takes a while for a big backup
+export const importData = async (data: BackupData, options: ImportOptions = { mode: 'replace' }, onProgress?: (progress: OperationProgress) => void) => {
+    if (options.mode === 'merge') {
+        return mergeData(data, options.conflictStrategy ?? 'keep', onProgress);
+    }
+
+    // Decode attachments up front: the transaction would close while waiting on anything async
+    const attachments = data.attachments?.map(fromBackupAttachment);
+
+    return runJournaledTransaction(dataStoreNames, storeFor => {
+      if (data.expenses) {
+          const store = storeFor('expenses');
+          store.clear(); // Clear existing expenses
+          const addedExpenses = data.expenses.map(e => {
+              const { id, ...rest } = e; // Explicitly remove id to allow auto-increment
+              return [id, store.add(rest)] as AddedRow;
+          });
+
+          // Attachments and history belong to the expenses being replaced, so they go too
+          storeFor('attachments').clear();
+          storeFor('expenseHistory').clear();
+          if (attachments) {
+              addAttachmentsForExpenses(storeFor, attachments, addedExpenses);
+          }
+      }
+      
+      // Category ids are kept because subcategories refer to their parent's id
+      if (data.categories) {
+          const store = storeFor('categories');
+          store.clear();
+          data.categories.forEach(category => (category.id === undefined ? store.add(category) : store.put(category)));
+          const names = new Set(data.categories.map(c => c.name));
+          defaultCategories
+              .filter(name => !names.has(name))
+              .forEach(name => store.add(withDefaultStyle({ name })));
+      }
+
+      if (data.reminders) {
+          const store = storeFor('reminders');
+          store.clear();
+          data.reminders.forEach(r => {
+              const { id, ...rest } = r;
+              store.add(rest);
+          });
+      }
+     
+      if (data.settings) {
+          const store = storeFor('settings');
+          store.put({ ...data.settings, id: 1 });
+      }
+
+      if (data.recurringExpenses) {
+          // Rule ids are kept so that generated expenses stay linked to their rule
+          const store = storeFor('recurringExpenses');
+          store.clear();
+          data.recurringExpenses.forEach(rule => store.put(rule));
+      }
+
+      if (data.income) {
+          const store = storeFor('income');
+          store.clear();
+          data.income.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      if (data.incomeCategories) {
+          const store = storeFor('incomeCategories');
+          store.clear();
+          const allCategories = new Set(defaultIncomeCategories);
+          data.incomeCategories.forEach(c => allCategories.add(c.name));
+          allCategories.forEach(name => store.add({ name }));
+      }
+
+      if (data.budgets) {
+          const store = storeFor('budgets');
+          store.clear();
+          data.budgets.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      // Account ids are kept because expenses, income and transfers refer to them
+      if (data.accounts) {
+          const store = storeFor('accounts');
+          store.clear();
+          data.accounts.forEach(account => store.put(account));
+      }
+      addMissingDefaultAccounts(storeFor('accounts'));
+
+      if (data.transfers) {
+          const store = storeFor('transfers');
+          store.clear();
+          data.transfers.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      // Group ids are kept because split expenses and settlements refer to them
+      if (data.groups) {
+          const store = storeFor('groups');
+          store.clear();
+          data.groups.forEach(group => store.put(group));
+      }
+
+      if (data.settlements) {
+          const store = storeFor('settlements');
+          store.clear();
+          data.settlements.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      if (data.csvMappings) {
+          const store = storeFor('csvMappings');
+          store.clear();
+          data.csvMappings.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      if (data.rules) {
+          const store = storeFor('rules');
+          store.clear();
+          data.rules.forEach(({ id, ...rest }) => store.add(rest));
+      }
+
+      if (data.savedViews) {
+          const store = storeFor('savedViews');
+          store.clear();
+          data.savedViews.forEach(({ id, ...rest }) => store.add(rest));
+      }
+    }, 'Imported a backup', onProgress);
+};
+
+// Expenses without an accountId fall back to the default account for their payment
+// mode by id, so those accounts must always exist
+function addMissingDefaultAccounts(store: IDBObjectStore) {
+    const keysRequest = store.getAllKeys();
+    keysRequest.onsuccess = () => {
+        const existing = new Set(keysRequest.result);
+        defaultAccounts.filter(account => !existing.has(account.id)).forEach(account => store.add(account));
+    };
+}
+
+type AddedRow = [backupId: number | undefined, request: IDBRequest<IDBValidKey>];
+
+// Adds backup attachments once every expense has been written, pointing them at the
+// ids the expenses were given in this database. Attachments whose expenses were not
+// added are skipped.
+function addAttachmentsForExpenses(store: (name: string) => IDBObjectStore, attachments: Attachment[], addedExpenses: AddedRow[]) {
+    const idMap = new Map<number, number>();
+    let pending = addedExpenses.length;
+
+    const write = () => {
+        const attachmentStore = store('attachments');
+        attachments.forEach(({ id, expenseIds, ...attachment }) => {
+            const mappedIds = expenseIds.filter(expenseId => idMap.has(expenseId)).map(expenseId => idMap.get(expenseId)!);
+            if (mappedIds.length > 0) {
+                attachmentStore.add({ ...attachment, expenseIds: mappedIds });
+            }
+        });
+    };
+
+    if (pending === 0) return;
+    addedExpenses.forEach(([backupId, request]) => {
+        request.addEventListener('success', () => {
+            if (backupId !== undefined) idMap.set(backupId, request.result as number);
+            if (--pending === 0) write();
+        });
+    });
+}
+
+// Calls `next` once every request has succeeded, or straight away when there are none
+function afterRequests(requests: IDBRequest[], next: () => void) {
+    let pending = requests.length;
+    if (pending === 0) {
+        next();
+        return;
+    }
+    requests.forEach(request => request.addEventListener('success', () => {
+        if (--pending === 0) next();
+    }));
+}
+
+// Matches backup rows to stored rows by `key` and adds the rest under new ids. `ids` maps
+// each backup id to the id of its row in this database, once every request has succeeded.
+function mergeRecords<T extends { id?: number }>(store: IDBObjectStore, incoming: T[] = [], existing: T[], key: (row: T) => string, prepare: (row: T) => T = row => row): { ids: Map<number, number>; requests: IDBRequest[] } {
+    const ids = new Map<number, number>();
+    const existingIds = new Map(existing.map(row => [key(row), row.id!]));
+    const requests = incoming.flatMap(row => {
+        const existingId = existingIds.get(key(row));
+        if (existingId !== undefined) {
+            if (row.id !== undefined) ids.set(row.id, existingId);
+            return [];
+        }
+        const { id, ...rest } = prepare(row);
+        const request = store.add(rest);
+        request.addEventListener('success', () => {
+            if (row.id !== undefined) ids.set(row.id, request.result as number);
+        });
+        return [request];
+    });
+    return { ids, requests };
+}
+
+// Merges a backup into the existing data without clearing any store. Duplicates are
+// skipped, new rows are added, and changed rows and differing settings follow the
+// conflict strategy.
+function mergeData(data: BackupData, conflictStrategy: ConflictStrategy, onProgress?: (progress: OperationProgress) => void): Promise<void> {
+    const attachments = data.attachments?.map(fromBackupAttachment);
+
+    return runJournaledTransaction(dataStoreNames, (store, tx) => {
+        const current: CurrentData = {
+            expenses: [],
+            categories: [],
+            reminders: [],
+            settings: null,
+            recurringExpenses: [],
+            income: [],
+            incomeCategories: [],
+            budgets: [],
+            accounts: [],
+            groups: [],
+            csvMappings: [],
+            rules: [],
+            savedViews: [],
+        };
+        let pending = 0;
+
+        const read = <K extends keyof CurrentData>(key: K, op: (store: IDBObjectStore) => IDBRequest) => {
+            pending++;
+            const request = op(store(key));
+            request.onsuccess = () => {
+                current[key] = request.result;
+                if (--pending === 0) write();
+            };
+        };
+
+        read('expenses', store => store.getAll());
+        read('categories', store => store.getAll());
+        read('reminders', store => store.getAll());
+        read('settings', store => store.get(1));
+        read('recurringExpenses', store => store.getAll());
+        read('income', store => store.getAll());
+        read('incomeCategories', store => store.getAll());
+        read('budgets', store => store.getAll());
+        read('accounts', store => store.getAll());
+        read('groups', store => store.getAll());
+        read('csvMappings', store => store.getAll());
+        read('rules', store => store.getAll());
+        read('savedViews', store => store.getAll());
+
+        // Accounts and groups are matched by name and merged first, then recurring expenses,
+        // so that the rows merged after them can be pointed at the ids they have in this database
+        function write() {
+            const accounts = mergeRecords(store('accounts'), data.accounts, current.accounts, account => account.name);
+            const groups = mergeRecords(store('groups'), data.groups, current.groups, group => group.name);
+            afterRequests([...accounts.requests, ...groups.requests], () => {
+                const withAccount = accountMapper(accounts.ids);
+                const recurring = mergeRecords(store('recurringExpenses'), data.recurringExpenses, current.recurringExpenses, recurringRuleKey, withAccount);
+                afterRequests(recurring.requests, () => writeRows(withAccount, groups.ids, recurring.ids));
+            });
+        }
+
+        // Rows whose account can't be found fall back to the default account for their payment mode
+        function accountMapper(accountIds: Map<number, number>) {
+            return <T extends { accountId?: number }>(row: T): T => {
+                if (row.accountId === undefined) return row;
+                const { accountId, ...rest } = row;
+                const mapped = accountIds.get(accountId);
+                return (mapped === undefined ? rest : { ...rest, accountId: mapped }) as T;
+            };
+        }
+
+        function writeRows(withAccount: ReturnType<typeof accountMapper>, groupIds: Map<number, number>, recurringIds: Map<number, number>) {
+            const diff = diffBackup(data, current);
+
+            // A split whose group can't be found is dropped, leaving the whole amount as the user's own
+            const withLinks = (expense: Expense): Expense => {
+                const { split, recurringId, ...rest } = withAccount(expense);
+                const groupId = split && groupIds.get(split.groupId);
+                const linkedRecurringId = recurringId === undefined ? undefined : recurringIds.get(recurringId);
+                return {
+                    ...rest,
+                    ...(split && groupId !== undefined ? { split: { ...split, groupId } } : {}),
+                    ...(linkedRecurringId !== undefined ? { recurringId: linkedRecurringId } : {}),
+                };
+            };
+
+            // Adds every new row under a new id, and replaces changed rows with the backup's version
+            // when overwriting. Returns the add requests, paired with the rows' ids in the backup.
+            const applyRows = <T extends { id?: number }>(storeName: string, rows: DiffRow<T>[], prepare: (row: T) => T, onOverwrite?: (before: T, after: T) => void): AddedRow[] => {
+                const rowStore = store(storeName);
+                if (conflictStrategy === 'overwrite') {
+                    rows
+                        .filter(row => row.status === 'changed')
+                        .forEach(({ incoming, existing }) => {
+                            const updated = { ...prepare(incoming), id: existing!.id };
+                            rowStore.put(updated);
+                            onOverwrite?.(existing!, updated);
+                        });
+                }
+                return rows
+                    .filter(row => row.status === 'new')
+                    .map(row => {
+                        const { id, ...rest } = prepare(row.incoming);
+                        return [id, rowStore.add(rest)] as AddedRow;
+                    });
+            };
+
+            // Subcategories keep their parent only when a category with the parent's name is already stored
+            const addNewCategories = (storeName: string, rows: DiffRow<Category>[], incoming: Category[] = [], existing: Category[]) => rows
+                .filter(row => row.status === 'new')
+                .forEach(row => {
+                    const { id, parentId, ...category } = row.incoming;
+                    const parentName = incoming.find(c => c.id === parentId)?.name;
+                    const parent = existing.find(c => c.name === parentName && c.parentId === undefined);
+                    store(storeName).add(parent ? { ...category, parentId: parent.id } : category);
+                });
+
+            // Only attachments of newly added expenses are merged; existing expenses keep their own
+            const addedExpenses = applyRows('expenses', diff.expenses, withLinks, (before, after) => recordExpenseHistory(tx, before, after, 'import'));
+            if (attachments) {
+                addAttachmentsForExpenses(store, attachments, addedExpenses);
+            }
+            applyRows('reminders', diff.reminders, withAccount);
+            applyRows('income', diff.income, withAccount);
+            addNewCategories('categories', diff.categories, data.categories, current.categories);
+            addNewCategories('incomeCategories', diff.incomeCategories, data.incomeCategories, current.incomeCategories);
+
+            if (data.settings && diff.settingsChanged && (conflictStrategy === 'overwrite' || !current.settings)) {
+                store('settings').put({ ...data.settings, id: 1 });
+            }
+
+            const budgetedCategories = new Set(current.budgets.map(b => b.category));
+            data.budgets
+                ?.filter(budget => !budgetedCategories.has(budget.category))
+                .forEach(({ id, ...budget }) => store('budgets').add(budget));
+
+            // Transfers are not merged: they only make sense between the accounts of the
+            // database they were recorded in.
+
+            // Settlements are not merged.
+
+            const mappingNames = new Set(current.csvMappings.map(m => m.name));
+            data.csvMappings
+                ?.filter(mapping => !mappingNames.has(mapping.name))
+                .forEach(({ id, ...mapping }) => store('csvMappings').add(withAccount(mapping)));
+
+            // Rules are matched by name. New rules run after the existing ones, in their backup order.
+            const ruleNames = new Set(current.rules.map(r => r.name));
+            const lowestPriority = Math.max(-1, ...current.rules.map(r => r.priority));
+            data.rules
+                ?.filter(rule => !ruleNames.has(rule.name))
+                .forEach(({ id, ...rule }) => store('rules').add({ ...rule, priority: lowestPriority + 1 + rule.priority }));
+
+            const viewNames = new Set(current.savedViews.map(v => v.name));
+            data.savedViews
+                ?.filter(view => !viewNames.has(view.name))
+                .forEach(({ id, ...view }) => store('savedViews').add(view));
+        }
+    }, 'Merged a backup', onProgress);
+}
+
+// Clears every store and adds the defaults back. The defaults are added in the same
+// transaction, so undoing removes them before the cleared data is restored.
+export const clearAllData = (onProgress?: (progress: OperationProgress) => void): Promise<void> => runJournaledTransaction(dataStoreNames, store => {
+    for (const storeName of dataStoreNames) {
+        store(storeName).clear();
+    }
+    defaultCategories.forEach(name => store('categories').add(withDefaultStyle({ name })));
+    defaultIncomeCategories.forEach(name => store('incomeCategories').add(withDefaultStyle({ name })));
+    defaultAccounts.forEach(account => store('accounts').add(account));
+    store('settings').add({ id: 1, monthlyBudget: 1000 });
+}, 'Cleared all data', onProgress);
@@ -0,0 +1,44 @@
+import type * as DbCore from './db-core';
+import type { OperationProgress } from './types';
+
+// Every function of the database that can be called through the worker
+export type DbMethod = {
+  [K in keyof typeof DbCore]: (typeof DbCore)[K] extends (...args: any[]) => Promise<unknown> ? K : never;
+}[keyof typeof DbCore];
+
+export interface DbRequest {
+  id: number;
+  method: DbMethod;
+  args: unknown[];
+  // Position of the progress callback in `args`. Functions can't be posted, so the
+  // worker puts one there that posts progress messages back.
+  progressArg?: number;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+export type DbResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: SerializedError }
+  | { type: 'progress'; id: number; progress: OperationProgress }
+  | { type: 'event'; event: DbEventType; detail: unknown };
+
+// Events of the database that pages listen to, relayed from the worker
+export const dbEventTypes = ['dataChanged', 'journalRecorded', 'versionChanged', 'budgetThresholdCrossed'] as const;
+export type DbEventType = (typeof dbEventTypes)[number];
+
+// IndexedDB rejects with DOMExceptions, and opening the database with a plain string
+export function serializeError(error: unknown): SerializedError {
+  return error instanceof Error || error instanceof DOMException
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
+
+export function deserializeError({ name, message }: SerializedError): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
@@ -1,293 +1,234 @@
-
 'use client';
 
-import type { Expense, Category, Reminder, AppSettings } from './types';
-import { startOfDay } from 'date-fns';
-
-const DB_NAME = 'VerdantViewDB';
-const DB_VERSION = 2; // Incremented version to trigger onupgradeneeded
+import type * as DbCore from './db-core';
+import { dbEventTypes, deserializeError, type DbMethod, type DbRequest, type DbResponse } from './db-rpc';
+import type { OperationProgress } from './types';
 
-let dbPromise: Promise<IDBDatabase> | null = null;
+export { TRASH_RETENTION_DAYS } from './journal';
+export type { BudgetThresholdCrossed } from './db-core';
 
-const defaultCategories = ['Groceries', 'Dining', 'Travel', 'Utilities', 'Shopping', 'Food', 'Medicine', 'Other'];
+// Pages call the database through this module. The storage code in `db-core.ts` runs in
+// a Web Worker, so big imports and aggregations don't block rendering. Browsers without
+// module workers run it on the main thread instead.
 
-// Create a simple event emitter for database changes
+// Database events re-dispatched on the main thread: dataChanged, journalRecorded,
+// versionChanged and budgetThresholdCrossed
 export const dbEvents = new EventTarget();
 
-function getDB(): Promise<IDBDatabase> {
-  if (typeof window === 'undefined') {
-    // This is a client-side only library
-    return Promise.reject(new Error('IndexedDB not available on server-side.'));
-  }
+const relay = (type: string, detail: unknown) => dbEvents.dispatchEvent(new CustomEvent(type, { detail }));
 
-  if (!dbPromise) {
-    dbPromise = new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => {
-        console.error('IndexedDB error:', request.error);
-        reject('Error opening database');
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains('expenses')) {
-          const expenseStore = db.createObjectStore('expenses', { keyPath: 'id', autoIncrement: true });
-          expenseStore.createIndex('date', 'date', { unique: false });
-        }
-        if (!db.objectStoreNames.contains('categories')) {
-          const catStore = db.createObjectStore('categories', { keyPath: 'id', autoIncrement: true });
-          catStore.createIndex('name', 'name', { unique: true });
-        }
-        if (!db.objectStoreNames.contains('reminders')) {
-          const reminderStore = db.createObjectStore('reminders', { keyPath: 'id', autoIncrement: true });
-          reminderStore.createIndex('date', 'date', { unique: false });
-        } else {
-            // If the store exists, check if the index exists
-            const transaction = (event.target as IDBOpenDBRequest).transaction;
-            if (transaction) {
-                const reminderStore = transaction.objectStore('reminders');
-                if (!reminderStore.indexNames.contains('date')) {
-                    reminderStore.createIndex('date', 'date', { unique: false });
-                }
-            }
-        }
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'id' });
-        }
-      };
-
-      request.onsuccess = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Use a separate function to handle initial data population
-        populateInitialData(db).then(() => resolve(db)).catch(reject);
-      };
-    });
-  }
-  return dbPromise;
-}
+type Call = (method: DbMethod, args: unknown[]) => Promise<unknown>;
+
+type PendingCall = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: OperationProgress) => void;
+};
+
+let backend: Promise<Call> | null = null;
 
-async function populateInitialData(db: IDBDatabase): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(['categories', 'settings'], 'readwrite');
-        const categoryStore = transaction.objectStore('categories');
-        const settingsStore = transaction.objectStore('settings');
-        let checksCompleted = 0;
-
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-
-        const onCheckComplete = () => {
-            checksCompleted++;
-        };
-
-        const catRequest = categoryStore.getAll();
-        catRequest.onsuccess = (e) => {
-            const existingCategories = (e.target as IDBRequest<Category[]>).result;
-            const existingCategoryNames = new Set(existingCategories.map(c => c.name));
-            
-            let addedNew = false;
-            defaultCategories.forEach(name => {
-                if (!existingCategoryNames.has(name)) {
-                    categoryStore.add({ name });
-                    addedNew = true;
-                }
-            });
-            onCheckComplete();
-        };
-        catRequest.onerror = () => reject(catRequest.error);
-        
-
-        const settingsRequest = settingsStore.count();
-        settingsRequest.onsuccess = (e) => {
-            const count = (e.target as IDBRequest).result;
-            if (count === 0) {
-                settingsStore.add({ id: 1, monthlyBudget: 1000 });
-            }
-            onCheckComplete();
-        };
-        settingsRequest.onerror = () => reject(settingsRequest.error);
-    });
+async function runOnMainThread(): Promise<Call> {
+  const core = await import('./db-core');
+  dbEventTypes.forEach(type => core.dbEvents.addEventListener(type, event => relay(type, (event as CustomEvent).detail)));
+  return (method, args) => (core[method] as (...args: unknown[]) => Promise<unknown>)(...args);
 }
 
+function runInWorker(worker: Worker): Call {
+  const pending = new Map<number, PendingCall>();
+  let nextId = 1;
+
+  worker.addEventListener('message', ({ data }: MessageEvent<DbResponse>) => {
+    if (data.type === 'event') {
+      relay(data.event, data.detail);
+      return;
+    }
+    const call = pending.get(data.id);
+    if (!call) return;
+    if (data.type === 'progress') {
+      call.onProgress?.(data.progress);
+      return;
+    }
+    pending.delete(data.id);
+    if (data.type === 'result') {
+      call.resolve(data.result);
+    } else {
+      call.reject(deserializeError(data.error));
+    }
+  });
 
-// Generic CRUD operations
-async function performDBOperation<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest | IDBRequest<any[]>): Promise<T> {
-  const db = await getDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(storeName, mode);
-    const store = transaction.objectStore(storeName);
-    const request = operation(store);
+  // A worker that fails to start can't answer anything. Calls made after that run on the main thread.
+  worker.addEventListener('error', event => {
+    console.error('Database worker failed:', event.message);
+    worker.terminate();
+    pending.forEach(call => call.reject(new Error('The database worker stopped unexpectedly.')));
+    pending.clear();
+    backend = runOnMainThread();
+  });
 
-    transaction.oncomplete = () => {
-        if (mode === 'readwrite') {
-             dbEvents.dispatchEvent(new CustomEvent('dataChanged'));
-        }
+  return (method, args) => new Promise((resolve, reject) => {
+    const id = nextId++;
+    const progressArg = args.findIndex(arg => typeof arg === 'function');
+    pending.set(id, { resolve, reject, onProgress: progressArg >= 0 ? (args[progressArg] as PendingCall['onProgress']) : undefined });
+    const request: DbRequest = {
+      id,
+      method,
+      args: args.map(arg => (typeof arg === 'function' ? undefined : arg)),
+      progressArg: progressArg >= 0 ? progressArg : undefined,
     };
-    
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-    transaction.onerror = () => reject(transaction.error);
+    worker.postMessage(request);
   });
 }
 
+function startBackend(): Promise<Call> {
+  if (typeof Worker === 'undefined') return runOnMainThread();
+  try {
+    return Promise.resolve(runInWorker(new Worker(new URL('./db.worker.ts', import.meta.url), { type: 'module' })));
+  } catch (error) {
+    console.error('Failed to start the database worker:', error);
+    return runOnMainThread();
+  }
+}
+
+// The worker is started by the first call, so nothing runs while the page is rendered on the server
+function getBackend(): Promise<Call> {
+  backend ??= startBackend();
+  return backend;
+}
+
+// Exposes a function of `db-core.ts` with the same signature
+function remote<K extends DbMethod>(method: K): (typeof DbCore)[K] {
+  return ((...args: unknown[]) => getBackend().then(call => call(method, args))) as (typeof DbCore)[K];
+}
+
+export const getRecords = remote('getRecords');
+
+// Undo Journal
+export const undoLastChange = remote('undoLastChange');
+export const redoLastChange = remote('redoLastChange');
+
 // Expenses
-export const getExpenses = (): Promise<Expense[]> => performDBOperation('expenses', 'readonly', store => store.getAll());
-export const addExpense = (expense: Omit<Expense, 'id'>): Promise<IDBValidKey> => performDBOperation('expenses', 'readwrite', store => store.add(expense));
-export const updateExpense = (expense: Expense): Promise<IDBValidKey> => performDBOperation('expenses', 'readwrite', store => store.put(expense));
-export const deleteExpense = (id: number): Promise<void> => performDBOperation('expenses', 'readwrite', store => store.delete(id));
+export const getExpenses = remote('getExpenses');
+export const addExpense = remote('addExpense');
+export const updateExpense = remote('updateExpense');
+export const addExpenses = remote('addExpenses');
+export const updateExpenses = remote('updateExpenses');
+export const deleteExpenses = remote('deleteExpenses');
+export const deleteExpense = remote('deleteExpense');
+export const findImportedExternalIds = remote('findImportedExternalIds');
+export const getTags = remote('getTags');
+
+// Expense History
+export const getExpenseHistory = remote('getExpenseHistory');
+export const revertExpense = remote('revertExpense');
+
+// Expense Queries
+export const queryExpenses = remote('queryExpenses');
+export const countExpenses = remote('countExpenses');
+export const sumExpenses = remote('sumExpenses');
+export const sumExpensesBy = remote('sumExpensesBy');
+
+// Attachments
+export const getAttachments = remote('getAttachments');
+export const getAttachmentsForExpense = remote('getAttachmentsForExpense');
+export const addAttachment = remote('addAttachment');
+export const detachAttachment = remote('detachAttachment');
 
 // Categories
-export const getCategories = (): Promise<Category[]> => performDBOperation('categories', 'readonly', store => store.getAll());
-export const addCategory = (category: Omit<Category, 'id'>): Promise<IDBValidKey> => performDBOperation('categories', 'readwrite', store => store.add(category));
-export const deleteCategory = async (id: number): Promise<void> => {
-    const db = await getDB();
-    const tx = db.transaction('categories', 'readwrite');
-    const store = tx.objectStore('categories');
-
-    tx.oncomplete = () => dbEvents.dispatchEvent(new CustomEvent('dataChanged'));
-
-    return new Promise((resolve, reject) => {
-        const getRequest = store.get(id);
-        getRequest.onsuccess = () => {
-            const categoryToDelete = getRequest.result;
-            if (categoryToDelete && defaultCategories.includes(categoryToDelete.name)) {
-                // We double-check here, but primary logic is in the UI
-                reject(new Error('Cannot delete a default category.'));
-                return;
-            }
-            const deleteRequest = store.delete(id);
-            deleteRequest.onsuccess = () => resolve();
-            deleteRequest.onerror = () => reject(deleteRequest.error);
-        };
-        getRequest.onerror = () => reject(getRequest.error);
-    });
-};
-
+export const getCategories = remote('getCategories');
+export const addCategory = remote('addCategory');
+export const updateCategory = remote('updateCategory');
+export const renameCategory = remote('renameCategory');
+export const mergeCategories = remote('mergeCategories');
+
+// Budgets
+export const getBudgets = remote('getBudgets');
+export const getBudgetForCategory = remote('getBudgetForCategory');
+export const deleteBudget = remote('deleteBudget');
+export const saveBudget = remote('saveBudget');
+
+// Income
+export const getIncome = remote('getIncome');
+export const addIncome = remote('addIncome');
+export const updateIncome = remote('updateIncome');
+export const deleteIncome = remote('deleteIncome');
+export const getIncomeCategories = remote('getIncomeCategories');
+export const addIncomeCategory = remote('addIncomeCategory');
+export const deleteIncomeCategory = remote('deleteIncomeCategory');
+
+// Accounts
+export const getAccounts = remote('getAccounts');
+export const addAccount = remote('addAccount');
+export const updateAccount = remote('updateAccount');
+
+// Transfers
+export const getTransfers = remote('getTransfers');
+export const addTransfer = remote('addTransfer');
+export const deleteTransfer = remote('deleteTransfer');
+
+// Groups
+export const getGroups = remote('getGroups');
+export const addGroup = remote('addGroup');
+export const updateGroup = remote('updateGroup');
+export const deleteGroup = remote('deleteGroup');
+
+// Settlements
+export const getSettlements = remote('getSettlements');
+export const addSettlement = remote('addSettlement');
+export const deleteSettlement = remote('deleteSettlement');
+
+// CSV Mappings
+export const getCsvMappings = remote('getCsvMappings');
+export const deleteCsvMapping = remote('deleteCsvMapping');
+export const saveCsvMapping = remote('saveCsvMapping');
+
+// Rules
+export const getRules = remote('getRules');
+export const updateRule = remote('updateRule');
+export const deleteRule = remote('deleteRule');
+export const addRule = remote('addRule');
+export const reorderRules = remote('reorderRules');
+export const applyRulesToExpenses = remote('applyRulesToExpenses');
+
+// Saved Views
+export const getSavedViews = remote('getSavedViews');
+export const deleteSavedView = remote('deleteSavedView');
+export const saveView = remote('saveView');
 
 // Reminders
-export const getReminders = (): Promise<Reminder[]> => performDBOperation('reminders', 'readonly', store => store.getAll());
-export const addReminder = (reminder: Omit<Reminder, 'id'>): Promise<IDBValidKey> => performDBOperation('reminders', 'readwrite', store => store.add(reminder));
-export const deleteReminder = (id: number): Promise<void> => performDBOperation('reminders', 'readwrite', store => store.delete(id));
-
-export const clearOldReminders = async (): Promise<void> => {
-    const db = await getDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction('reminders', 'readwrite');
-        const store = transaction.objectStore('reminders');
-        const index = store.index('date');
-        
-        const yesterday = startOfDay(new Date());
-        const range = IDBKeyRange.upperBound(yesterday.toISOString(), true);
-        
-        const request = index.openCursor(range);
-        let deletedCount = 0;
-
-        request.onsuccess = (event) => {
-            const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-            if (cursor) {
-                cursor.delete();
-                deletedCount++;
-                cursor.continue();
-            }
-        };
-
-        transaction.oncomplete = () => {
-            if (deletedCount > 0) {
-                console.log(`Cleared ${deletedCount} old reminders.`);
-                dbEvents.dispatchEvent(new CustomEvent('dataChanged'));
-            }
-            resolve();
-        };
-
-        transaction.onerror = () => {
-            reject(transaction.error);
-        };
-    });
-};
-
+export const getReminders = remote('getReminders');
+export const addReminder = remote('addReminder');
+export const deleteReminder = remote('deleteReminder');
+export const markReminderPaid = remote('markReminderPaid');
+export const clearOldReminders = remote('clearOldReminders');
+export const getScheduledNotifications = remote('getScheduledNotifications');
+export const syncReminderNotifications = remote('syncReminderNotifications');
+
+// Trash
+export const getTrashedExpenses = remote('getTrashedExpenses');
+export const getTrashedReminders = remote('getTrashedReminders');
+export const restoreExpenses = remote('restoreExpenses');
+export const restoreReminders = remote('restoreReminders');
+export const purgeExpenses = remote('purgeExpenses');
+export const purgeReminders = remote('purgeReminders');
+export const emptyTrash = remote('emptyTrash');
+export const purgeExpiredTrash = remote('purgeExpiredTrash');
+
+// Recurring Expenses
+export const getRecurringExpenses = remote('getRecurringExpenses');
+export const addRecurringExpense = remote('addRecurringExpense');
+export const updateRecurringExpense = remote('updateRecurringExpense');
+export const deleteRecurringExpense = remote('deleteRecurringExpense');
+export const generateRecurringExpenses = remote('generateRecurringExpenses');
 
 // Settings
-export const getSettings = (): Promise<AppSettings> => performDBOperation('settings', 'readonly', store => store.get(1));
-export const updateSettings = (settings: Partial<AppSettings>): Promise<IDBValidKey> => performDBOperation('settings', 'readwrite', store => store.put({ ...settings, id: 1 }));
+export const getSettings = remote('getSettings');
+export const updateSettings = remote('updateSettings');
 
-// Data Management
-export const exportData = async () => {
-    const expenses = await getExpenses();
-    const categories = await getCategories();
-    const reminders = await getReminders();
-    const settings = await getSettings();
-    return { expenses, categories, reminders, settings };
-};
+// Schema
+export const getMigrationHistory = remote('getMigrationHistory');
 
-export const importData = async (data: { expenses?: Expense[], categories?: Category[], reminders?: Reminder[], settings?: AppSettings }) => {
-    const db = await getDB();
-    const storeNames: IDBObjectStoreNames[] = ['expenses', 'categories', 'reminders', 'settings'];
-    const tx = db.transaction(storeNames, 'readwrite');
-    
-    return new Promise<void>((resolve, reject) => {
-      tx.oncomplete = () => {
-        // Dispatch a custom event to notify other parts of the app
-        dbEvents.dispatchEvent(new CustomEvent('dataChanged'));
-        resolve();
-      };
-      tx.onerror = () => reject(tx.error);
-
-      if (data.expenses) {
-          const store = tx.objectStore('expenses');
-          store.clear(); // Clear existing expenses
-          data.expenses.forEach(e => {
-              const { id, ...rest } = e; // Explicitly remove id to allow auto-increment
-              store.add(rest);
-          });
-      }
-      
-      if (data.categories) {
-          const store = tx.objectStore('categories');
-          store.clear();
-          const allCategories = new Set(defaultCategories);
-          data.categories.forEach(c => allCategories.add(c.name));
-          allCategories.forEach(name => store.add({ name }));
-      }
-
-      if (data.reminders) {
-          const store = tx.objectStore('reminders');
-          store.clear();
-          data.reminders.forEach(r => {
-              const { id, ...rest } = r;
-              store.add(rest);
-          });
-      }
-     
-      if (data.settings) {
-          const store = tx.objectStore('settings');
-          store.put({ ...data.settings, id: 1 });
-      }
-    });
-};
-
-export const clearAllData = async () => {
-    const db = await getDB();
-    const storeNames: IDBObjectStoreNames[] = ['expenses', 'categories', 'reminders', 'settings'];
-    const tx = db.transaction(storeNames, 'readwrite');
-
-    return new Promise<void>((resolve, reject) => {
-        tx.oncomplete = async () => {
-            try {
-                // Repopulate with defaults
-                await populateInitialData(db);
-                 // Dispatch a custom event to notify other parts of the app
-                dbEvents.dispatchEvent(new CustomEvent('dataChanged'));
-                resolve();
-            } catch (error) {
-                reject(error);
-            }
-        };
-        tx.onerror = () => reject(tx.error);
-        
-        for (const storeName of storeNames) {
-            tx.objectStore(storeName).clear();
-        }
-    });
-};
+// Data Management
+export const exportData = remote('exportData');
+export const previewImport = remote('previewImport');
+export const importData = remote('importData');
+export const clearAllData = remote('clearAllData');
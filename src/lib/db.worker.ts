@@ -0,0 +1,26 @@
+import * as core from './db-core';
+import { dbEventTypes, serializeError, type DbRequest, type DbResponse } from './db-rpc';
+import type { OperationProgress } from './types';
+
+// Runs the database off the main thread, so big imports and queries don't freeze the page.
+// Requests come from `db.ts`, which exposes the same functions as `db-core.ts`.
+
+const post = (response: DbResponse) => self.postMessage(response);
+
+dbEventTypes.forEach(type => {
+  core.dbEvents.addEventListener(type, event => post({ type: 'event', event: type, detail: (event as CustomEvent).detail }));
+});
+
+self.addEventListener('message', async (event: MessageEvent<DbRequest>) => {
+  const { id, method, args, progressArg } = event.data;
+  if (progressArg !== undefined) {
+    args[progressArg] = (progress: OperationProgress) => post({ type: 'progress', id, progress });
+  }
+
+  try {
+    const result = await (core[method] as (...args: unknown[]) => Promise<unknown>)(...args);
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, error: serializeError(error) });
+  }
+});
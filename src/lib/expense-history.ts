@@ -0,0 +1,58 @@
+import type { Expense, ExpenseChangeSource, ExpenseHistoryEntry, FieldChange } from './types';
+
+export const historyFields: Record<FieldChange['field'], string> = {
+  id: 'Id',
+  title: 'Title',
+  amount: 'Amount',
+  date: 'Date',
+  category: 'Category',
+  paymentMode: 'Payment mode',
+  recurringId: 'Recurring expense',
+  reminderId: 'Bill',
+  accountId: 'Account',
+  split: 'Split',
+  externalId: 'Statement id',
+  tags: 'Tags',
+  notes: 'Notes',
+  deletedAt: 'Deleted',
+};
+
+export const changeSources: Record<ExpenseChangeSource, string> = {
+  manual: 'Manual',
+  scan: 'Receipt scan',
+  import: 'CSV import',
+  rule: 'Rule',
+  recurring: 'Recurring',
+  revert: 'Revert',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Lists every field whose value differs. An empty list of tags counts as no tags.
+export function diffExpense(before: Expense | undefined, after: Expense): FieldChange[] {
+  const normalize = (expense?: Expense) =>
+    expense && { ...expense, tags: expense.tags?.length ? expense.tags : undefined };
+  const from: Partial<Expense> = normalize(before) ?? {};
+  const to: Partial<Expense> = normalize(after)!;
+
+  return (Object.keys(historyFields) as FieldChange['field'][])
+    .filter(field => field !== 'id' && !isSame(from[field], to[field]))
+    .map(field => ({ field, from: from[field], to: to[field] }));
+}
+
+/**
+ * Describes how an expense went from `before` to `after`. Resolves to null when an
+ * update didn't change anything.
+ */
+export function createHistoryEntry(before: Expense | undefined, after: Expense, source: ExpenseChangeSource): ExpenseHistoryEntry | null {
+  const changes = diffExpense(before, after);
+  if (before && changes.length === 0) return null;
+
+  const action = !before ? 'created'
+    : after.deletedAt && !before.deletedAt ? 'deleted'
+    : !after.deletedAt && before.deletedAt ? 'restored'
+    : 'updated';
+  return { expenseId: after.id!, changedAt: new Date().toISOString(), source, action, changes, snapshot: after };
+}
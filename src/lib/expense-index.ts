@@ -0,0 +1,65 @@
+import { format } from 'date-fns';
+import type { Expense, ExpenseGroupBy, ExpenseQuery, ExpenseTotals } from './types';
+import { ownShare } from './splits';
+
+export interface ExpenseIndexRange {
+  index: string;
+  range?: IDBKeyRange;
+}
+
+// An empty array sorts after every string, so it bounds a compound key with no end date
+const AFTER_ANY_DATE: IDBValidKey = [];
+
+function dateRange(from?: string, to?: string): IDBKeyRange | undefined {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return undefined;
+}
+
+// A key of [value] sorts before every [value, date], so it bounds a compound key with no start date
+function compoundRange(value: string, from?: string, to?: string): IDBKeyRange {
+  return IDBKeyRange.bound(from === undefined ? [value] : [value, from], [value, to ?? AFTER_ANY_DATE]);
+}
+
+/**
+ * Picks the index and key range that read the fewest expenses for a query. A query on
+ * both category and payment mode uses the category index, and `matchesExpenseQuery`
+ * checks the payment mode.
+ */
+export function expenseIndexRange({ from, to, category, paymentMode }: ExpenseQuery): ExpenseIndexRange {
+  if (category !== undefined) return { index: 'category_date', range: compoundRange(category, from, to) };
+  if (paymentMode !== undefined) return { index: 'paymentMode_date', range: compoundRange(paymentMode, from, to) };
+  return { index: 'date', range: dateRange(from, to) };
+}
+
+// Whether the index range alone can't tell if an expense matches the query
+export const needsFilter = (query: ExpenseQuery) => query.category !== undefined && query.paymentMode !== undefined;
+
+// Expenses in the Trash never match
+export function matchesExpenseQuery(expense: Expense, { from, to, category, paymentMode }: ExpenseQuery): boolean {
+  return !expense.deletedAt
+    && (from === undefined || expense.date >= from)
+    && (to === undefined || expense.date <= to)
+    && (category === undefined || expense.category === category)
+    && (paymentMode === undefined || expense.paymentMode === paymentMode);
+}
+
+export const emptyTotals = (): ExpenseTotals => ({ count: 0, total: 0, ownTotal: 0 });
+
+export function addToTotals(totals: ExpenseTotals, expense: Expense): ExpenseTotals {
+  totals.count += 1;
+  totals.total += expense.amount;
+  totals.ownTotal += ownShare(expense);
+  return totals;
+}
+
+// Days and months are in local time, as yyyy-MM-dd and yyyy-MM
+export function groupKey(expense: Expense, groupBy: ExpenseGroupBy): string {
+  switch (groupBy) {
+    case 'day': return format(new Date(expense.date), 'yyyy-MM-dd');
+    case 'month': return format(new Date(expense.date), 'yyyy-MM');
+    case 'category': return expense.category;
+    case 'paymentMode': return expense.paymentMode;
+  }
+}
@@ -0,0 +1,264 @@
+import { endOfDay, endOfMonth, endOfYear, isValid, parse, startOfDay } from 'date-fns';
+import type { Account, Category, Expense, ExpenseFilters, ExpenseSortField } from './types';
+import { resolveAccountId } from './accounts';
+import { categoryWithChildren } from './categories';
+import { hasAllTags, normalizeTag } from './tags';
+
+/*
+ * The search bar understands a small query language. Terms are separated by spaces and
+ * every term must match:
+ *
+ *   coffee               title or notes contain "coffee"
+ *   "coffee beans"       title or notes contain the phrase
+ *   category:Dining      in Dining or one of its subcategories (quote names with spaces)
+ *   amount>500           also >=, <, <= and amount:500 for an exact amount
+ *   date:2026-09         in that day, month (yyyy-MM) or year; date>=2026-09-15 etc.
+ *   mode:Card            payment mode
+ *   account:HDFC         account name
+ *   tag:gift  #gift      has the tag
+ *   title:... notes:...  only search that field
+ *
+ * A leading "-" negates a term, as in -category:Travel.
+ */
+
+export type QueryField = 'text' | 'title' | 'notes' | 'category' | 'amount' | 'date' | 'mode' | 'account' | 'tag';
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  field: QueryField;
+  operator: QueryOperator;
+  value: string;
+  negate: boolean;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[]; // One message per term that was ignored
+}
+
+export interface QueryContext {
+  categories: Category[];
+  accounts: Account[];
+}
+
+const fieldAliases: Record<string, QueryField> = {
+  title: 'title',
+  notes: 'notes',
+  note: 'notes',
+  category: 'category',
+  cat: 'category',
+  amount: 'amount',
+  amt: 'amount',
+  date: 'date',
+  mode: 'mode',
+  payment: 'mode',
+  account: 'account',
+  tag: 'tag',
+};
+
+// Optional "-", optional "key" plus operator, then a quoted or bare value
+const termPattern = /(-?)(?:([a-z]+)(>=|<=|:|=|>|<))?(?:"([^"]*)"?|(\S*))/gi;
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Reads "2026", "2026-09" or "2026-09-15" as the whole year, month or day
+export function parseDateRange(value: string): DateRange | null {
+  const formats: [string, (date: Date) => Date][] = [
+    ['yyyy-MM-dd', endOfDay],
+    ['yyyy-MM', endOfMonth],
+    ['yyyy', endOfYear],
+  ];
+  for (const [pattern, toEnd] of formats) {
+    if (value.length !== pattern.length) continue;
+    const start = parse(value, pattern, new Date());
+    if (isValid(start)) return { start, end: toEnd(start) };
+  }
+  return null;
+}
+
+function validateTerm({ field, operator, value }: QueryTerm): string | null {
+  const label = `${field}${operator}${value}`;
+  const isComparison = operator !== ':' && operator !== '=';
+  if (isComparison && field !== 'amount' && field !== 'date') return `${label}: only amount and date can be compared.`;
+  if (field === 'amount' && isNaN(Number(value))) return `${label}: the amount must be a number.`;
+  if (field === 'date' && !parseDateRange(value)) return `${label}: use a date like 2026-09 or 2026-09-15.`;
+  return null;
+}
+
+/**
+ * Splits a query into terms. Terms with an invalid value are left out and reported in
+ * `errors`; a "key:" whose key isn't a known field is searched for as plain text.
+ */
+export function parseExpenseQuery(query: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const match of query.matchAll(termPattern)) {
+    const [raw, minus, key, operator, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const negate = minus === '-';
+    const field = key ? fieldAliases[key.toLowerCase()] : undefined;
+
+    let term: QueryTerm;
+    if (key && field) {
+      term = { field, operator: operator as QueryOperator, value, negate };
+    } else if (!key && bare?.startsWith('#')) {
+      term = { field: 'tag', operator: ':', value: bare, negate };
+    } else {
+      term = { field: 'text', operator: ':', value: key ? raw.slice(minus.length).replace(/"/g, '') : value, negate };
+    }
+
+    if (term.field === 'tag') term.value = normalizeTag(term.value);
+    // Skip empty terms, such as a "category:" that is still being typed
+    if (term.value === '') continue;
+
+    const error = validateTerm(term);
+    if (error) {
+      errors.push(error);
+    } else {
+      terms.push(term);
+    }
+  }
+  return { terms, errors };
+}
+
+const compare = (a: number, operator: QueryOperator, b: number) => {
+  switch (operator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: return a === b;
+  }
+};
+
+function matchesDate(expenseDate: Date, operator: QueryOperator, { start, end }: DateRange): boolean {
+  switch (operator) {
+    case '>': return expenseDate > end;
+    case '>=': return expenseDate >= start;
+    case '<': return expenseDate < start;
+    case '<=': return expenseDate <= end;
+    default: return expenseDate >= start && expenseDate <= end;
+  }
+}
+
+function matchesTerm(expense: Expense, { field, operator, value }: QueryTerm, { categories, accounts }: QueryContext): boolean {
+  const needle = value.toLowerCase();
+  const contains = (text?: string) => !!text && text.toLowerCase().includes(needle);
+
+  switch (field) {
+    case 'text': return contains(expense.title) || contains(expense.notes);
+    case 'title': return contains(expense.title);
+    case 'notes': return contains(expense.notes);
+    case 'mode': return expense.paymentMode.toLowerCase() === needle;
+    case 'tag': return !!expense.tags?.includes(value);
+    case 'amount': return compare(expense.amount, operator, Number(value));
+    case 'date': return matchesDate(new Date(expense.date), operator, parseDateRange(value)!);
+    case 'category': {
+      const category = categories.find(c => c.name.toLowerCase() === needle);
+      return category
+        ? categoryWithChildren(category.name, categories).includes(expense.category)
+        : expense.category.toLowerCase() === needle;
+    }
+    case 'account': {
+      const account = accounts.find(a => a.id === resolveAccountId(expense));
+      return account?.name.toLowerCase() === needle;
+    }
+  }
+}
+
+export const matchesQuery = (expense: Expense, terms: QueryTerm[], context: QueryContext) =>
+  terms.every(term => matchesTerm(expense, term, context) !== term.negate);
+
+export const defaultExpenseFilters: ExpenseFilters = {
+  query: '',
+  tags: [],
+  sort: 'date',
+  direction: 'desc',
+};
+
+export const sortOptions: { field: ExpenseSortField; direction: ExpenseFilters['direction']; label: string }[] = [
+  { field: 'date', direction: 'desc', label: 'Newest First' },
+  { field: 'date', direction: 'asc', label: 'Oldest First' },
+  { field: 'amount', direction: 'desc', label: 'Amount: High to Low' },
+  { field: 'amount', direction: 'asc', label: 'Amount: Low to High' },
+  { field: 'title', direction: 'asc', label: 'Title: A to Z' },
+  { field: 'title', direction: 'desc', label: 'Title: Z to A' },
+  { field: 'category', direction: 'asc', label: 'Category: A to Z' },
+  { field: 'category', direction: 'desc', label: 'Category: Z to A' },
+];
+
+/**
+ * Applies every filter. The query is passed in as terms already parsed by
+ * `parseExpenseQuery`, so the page can show the parse errors too.
+ */
+export function filterExpenses(expenses: Expense[], filters: ExpenseFilters, terms: QueryTerm[], context: QueryContext): Expense[] {
+  const included = filters.category ? categoryWithChildren(filters.category, context.categories) : undefined;
+  const from = filters.dateFrom ? startOfDay(parse(filters.dateFrom, 'yyyy-MM-dd', new Date())) : undefined;
+  const to = filters.dateTo ? endOfDay(parse(filters.dateTo, 'yyyy-MM-dd', new Date())) : undefined;
+
+  return expenses.filter(expense => {
+    const date = new Date(expense.date);
+    return (!included || included.includes(expense.category))
+      && (!from || date >= from)
+      && (!to || date <= to)
+      && (filters.minAmount === undefined || expense.amount >= filters.minAmount)
+      && (filters.maxAmount === undefined || expense.amount <= filters.maxAmount)
+      && hasAllTags(expense, filters.tags)
+      && matchesQuery(expense, terms, context);
+  });
+}
+
+// Returns a sorted copy. Ties are broken by date, newest first.
+export function sortExpenses(expenses: Expense[], field: ExpenseSortField, direction: ExpenseFilters['direction']): Expense[] {
+  const byDate = (a: Expense, b: Expense) => new Date(a.date).getTime() - new Date(b.date).getTime();
+  const comparators: Record<ExpenseSortField, (a: Expense, b: Expense) => number> = {
+    date: byDate,
+    amount: (a, b) => a.amount - b.amount,
+    title: (a, b) => a.title.localeCompare(b.title),
+    category: (a, b) => a.category.localeCompare(b.category),
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...expenses].sort((a, b) => sign * comparators[field](a, b) || byDate(b, a));
+}
+
+const isSortField = (value: string | null): value is ExpenseSortField =>
+  value === 'date' || value === 'amount' || value === 'title' || value === 'category';
+
+// Writes the filters that differ from the defaults, so an unfiltered list has a clean URL
+export function filtersToSearchParams(filters: ExpenseFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.category) params.set('category', filters.category);
+  if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.dateFrom) params.set('from', filters.dateFrom);
+  if (filters.dateTo) params.set('to', filters.dateTo);
+  if (filters.minAmount !== undefined) params.set('min', String(filters.minAmount));
+  if (filters.maxAmount !== undefined) params.set('max', String(filters.maxAmount));
+  if (filters.sort !== defaultExpenseFilters.sort || filters.direction !== defaultExpenseFilters.direction) {
+    params.set('sort', `${filters.sort}-${filters.direction}`);
+  }
+  return params;
+}
+
+// Reads filters from a URL, ignoring values that don't parse
+export function filtersFromSearchParams(params: URLSearchParams): ExpenseFilters {
+  const isDate = (value: string | null) => !!value && isValid(parse(value, 'yyyy-MM-dd', new Date()));
+  const toAmount = (value: string | null) => (value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined);
+  const [sort, direction] = (params.get('sort') ?? '').split('-');
+
+  return {
+    query: params.get('q') ?? '',
+    category: params.get('category') || undefined,
+    tags: (params.get('tags') ?? '').split(',').map(normalizeTag).filter(Boolean),
+    dateFrom: isDate(params.get('from')) ? params.get('from')! : undefined,
+    dateTo: isDate(params.get('to')) ? params.get('to')! : undefined,
+    minAmount: toAmount(params.get('min')),
+    maxAmount: toAmount(params.get('max')),
+    sort: isSortField(sort) ? sort : defaultExpenseFilters.sort,
+    direction: direction === 'asc' || direction === 'desc' ? direction : defaultExpenseFilters.direction,
+  };
+}
@@ -0,0 +1,115 @@
+import type { JournalChange } from './types';
+
+// How many changes can be undone. Older entries are dropped as new ones are recorded.
+export const JOURNAL_LIMIT = 50;
+
+// Deleted expenses and reminders are kept in the Trash for this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const recordNames: Record<string, [singular: string, plural: string]> = {
+  expenses: ['expense', 'expenses'],
+  categories: ['category', 'categories'],
+  reminders: ['reminder', 'reminders'],
+  settings: ['settings', 'settings'],
+  recurringExpenses: ['recurring expense', 'recurring expenses'],
+  income: ['income entry', 'income entries'],
+  incomeCategories: ['income category', 'income categories'],
+  budgets: ['budget', 'budgets'],
+  accounts: ['account', 'accounts'],
+  transfers: ['transfer', 'transfers'],
+  groups: ['group', 'groups'],
+  settlements: ['settlement', 'settlements'],
+  attachments: ['receipt', 'receipts'],
+  csvMappings: ['statement format', 'statement formats'],
+  rules: ['rule', 'rules'],
+  savedViews: ['saved view', 'saved views'],
+};
+
+// "expense" for one record, "3 expenses" for several
+export function describeRecords(storeName: string, count: number): string {
+  const [singular, plural] = recordNames[storeName] ?? ['record', 'records'];
+  return count === 1 ? singular : `${count} ${plural}`;
+}
+
+const changeVerb = ({ before, after }: JournalChange) => (before === undefined ? 'Added' : after === undefined ? 'Deleted' : 'Updated');
+
+// Builds a label such as "Deleted 3 expenses" for changes that have no label of their own
+export function describeChanges(changes: JournalChange[]): string {
+  const [first] = changes;
+  const sameKind = changes.every(change => change.store === first.store && changeVerb(change) === changeVerb(first));
+  return sameKind
+    ? `${changeVerb(first)} ${describeRecords(first.store, changes.length)}`
+    : `Changed ${changes.length} records`;
+}
+
+/**
+ * Wraps a store so that every add, put, delete and clear made through it is pushed to
+ * `changes` once it succeeds. Puts and deletes read the record first to keep the value
+ * they replace. Writes made through a cursor or an index are not recorded.
+ */
+export function recordWrites(store: IDBObjectStore, changes: JournalChange[]): IDBObjectStore {
+  const keyPath = store.keyPath as string;
+  const withKey = (value: any, key: IDBValidKey) => ({ ...value, [keyPath]: key });
+
+  const recorded: Partial<IDBObjectStore> = {
+    add(value: any, key?: IDBValidKey) {
+      const request = store.add(value, key);
+      request.addEventListener('success', () => {
+        changes.push({ store: store.name, key: request.result, after: withKey(value, request.result) });
+      });
+      return request;
+    },
+    put(value: any, key?: IDBValidKey) {
+      const existingKey = key ?? value?.[keyPath];
+      const existing = existingKey !== undefined ? store.get(existingKey) : undefined;
+      const request = store.put(value, key);
+      request.addEventListener('success', () => {
+        changes.push({ store: store.name, key: request.result, before: existing?.result, after: withKey(value, request.result) });
+      });
+      return request;
+    },
+    delete(key: IDBValidKey | IDBKeyRange) {
+      const existing = store.getAll(key);
+      const request = store.delete(key);
+      request.addEventListener('success', () => {
+        existing.result.forEach(before => changes.push({ store: store.name, key: before[keyPath], before }));
+      });
+      return request;
+    },
+    clear() {
+      const existing = store.getAll();
+      const request = store.clear();
+      request.addEventListener('success', () => {
+        existing.result.forEach(before => changes.push({ store: store.name, key: before[keyPath], before }));
+      });
+      return request;
+    },
+  };
+
+  return new Proxy(store, {
+    get(target, property) {
+      if (Object.prototype.hasOwnProperty.call(recorded, property)) return recorded[property as keyof IDBObjectStore];
+      const value = Reflect.get(target, property, target);
+      // Native methods must be called on the real store
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Writes the records as they were before the changes (undo) or after them (redo).
+ * Undo runs in reverse order, so records added after a store was cleared are removed
+ * before the cleared ones come back.
+ */
+export function applyChanges(tx: IDBTransaction, changes: JournalChange[], direction: 'undo' | 'redo') {
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+  ordered.forEach(change => {
+    const store = tx.objectStore(change.store);
+    const value = direction === 'undo' ? change.before : change.after;
+    if (value === undefined) {
+      store.delete(change.key);
+    } else {
+      store.put(value);
+    }
+  });
+}
@@ -0,0 +1,334 @@
+import type { BackupData } from './backup';
+import type { Category, Expense, Reminder, ScheduledNotification } from './types';
+import { defaultAccounts, defaultAccountIdFor } from './accounts';
+import { withDefaultStyle } from './categories';
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction. Create stores and indexes here,
+  // or queue record transforms with `transformRecords`.
+  migrate: (ctx: MigrationContext) => void;
+  // Upgrades a JSON backup exported at the previous schema version.
+  upgradeBackup?: (data: BackupData) => BackupData;
+}
+
+export interface MigrationRecord {
+  version: number;
+  description: string;
+  appliedAt: string; // ISO string format
+}
+
+export const HISTORY_STORE = 'migrations';
+export const JOURNAL_STORE = 'journal';
+
+// Backups created before schema versions were exported are treated as this version.
+export const LEGACY_BACKUP_VERSION = 2;
+
+/**
+ * Rewrites every record in a store with a cursor. Returning `undefined` from the
+ * transform leaves the record untouched.
+ */
+export function transformRecords<T>(tx: IDBTransaction, storeName: string, transform: (record: T) => T | undefined) {
+  const request = tx.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const updated = transform(cursor.value as T);
+    if (updated !== undefined) {
+      cursor.update(updated);
+    }
+    cursor.continue();
+  };
+}
+
+export function ensureIndex(store: IDBObjectStore, name: string, keyPath: string | string[], options?: IDBIndexParameters) {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, options);
+  }
+}
+
+// Numbered migrations, applied in order. Never edit a migration that has shipped;
+// add a new one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create expenses, categories, reminders and settings stores',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('expenses')) {
+        const expenseStore = db.createObjectStore('expenses', { keyPath: 'id', autoIncrement: true });
+        expenseStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('categories')) {
+        const catStore = db.createObjectStore('categories', { keyPath: 'id', autoIncrement: true });
+        catStore.createIndex('name', 'name', { unique: true });
+      }
+      if (!db.objectStoreNames.contains('reminders')) {
+        db.createObjectStore('reminders', { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Index reminders by date',
+    migrate: ({ tx }) => {
+      ensureIndex(tx.objectStore('reminders'), 'date', 'date', { unique: false });
+    },
+  },
+  {
+    version: 3,
+    description: 'Record applied migrations',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'version' });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Add recurring expense rules',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('recurringExpenses')) {
+        db.createObjectStore('recurringExpenses', { keyPath: 'id', autoIncrement: true });
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Add income and income categories',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('income')) {
+        const incomeStore = db.createObjectStore('income', { keyPath: 'id', autoIncrement: true });
+        incomeStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('incomeCategories')) {
+        const catStore = db.createObjectStore('incomeCategories', { keyPath: 'id', autoIncrement: true });
+        catStore.createIndex('name', 'name', { unique: true });
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Add per-category budgets',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('budgets')) {
+        const budgetStore = db.createObjectStore('budgets', { keyPath: 'id', autoIncrement: true });
+        budgetStore.createIndex('category', 'category', { unique: true });
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add accounts and transfers; assign existing expenses to default accounts by payment mode',
+    migrate: ({ db, tx }) => {
+      if (!db.objectStoreNames.contains('accounts')) {
+        const accountStore = db.createObjectStore('accounts', { keyPath: 'id', autoIncrement: true });
+        accountStore.createIndex('name', 'name', { unique: true });
+        defaultAccounts.forEach(account => accountStore.add(account));
+      }
+      if (!db.objectStoreNames.contains('transfers')) {
+        const transferStore = db.createObjectStore('transfers', { keyPath: 'id', autoIncrement: true });
+        transferStore.createIndex('date', 'date', { unique: false });
+      }
+      ensureIndex(tx.objectStore('expenses'), 'accountId', 'accountId', { unique: false });
+      transformRecords<Expense>(tx, 'expenses', expense =>
+        expense.accountId === undefined ? { ...expense, accountId: defaultAccountIdFor(expense.paymentMode) } : undefined
+      );
+    },
+    upgradeBackup: data => ({
+      ...data,
+      expenses: data.expenses?.map(e => (e.accountId === undefined ? { ...e, accountId: defaultAccountIdFor(e.paymentMode) } : e)),
+    }),
+  },
+  {
+    version: 8,
+    description: 'Add groups and settlements for split expenses',
+    migrate: ({ db, tx }) => {
+      if (!db.objectStoreNames.contains('groups')) {
+        const groupStore = db.createObjectStore('groups', { keyPath: 'id', autoIncrement: true });
+        groupStore.createIndex('name', 'name', { unique: true });
+      }
+      if (!db.objectStoreNames.contains('settlements')) {
+        const settlementStore = db.createObjectStore('settlements', { keyPath: 'id', autoIncrement: true });
+        settlementStore.createIndex('groupId', 'groupId', { unique: false });
+      }
+      ensureIndex(tx.objectStore('expenses'), 'groupId', 'split.groupId', { unique: false });
+    },
+  },
+  {
+    version: 9,
+    description: 'Add attachments store for receipts',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('attachments')) {
+        const attachmentStore = db.createObjectStore('attachments', { keyPath: 'id', autoIncrement: true });
+        attachmentStore.createIndex('expenseIds', 'expenseIds', { unique: false, multiEntry: true });
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Add csvMappings store for remembered statement column mappings',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('csvMappings')) {
+        const mappingStore = db.createObjectStore('csvMappings', { keyPath: 'id', autoIncrement: true });
+        mappingStore.createIndex('name', 'name', { unique: true });
+        mappingStore.createIndex('headerSignature', 'headerSignature', { unique: false });
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Index expenses by externalId to deduplicate statement imports',
+    migrate: ({ tx }) => {
+      ensureIndex(tx.objectStore('expenses'), 'externalId', 'externalId', { unique: false });
+    },
+  },
+  {
+    version: 12,
+    description: 'Add rules store for auto-categorizing expenses',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('rules')) {
+        const ruleStore = db.createObjectStore('rules', { keyPath: 'id', autoIncrement: true });
+        ruleStore.createIndex('priority', 'priority', { unique: false });
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Add category hierarchy, colors and icons; index expenses by category',
+    migrate: ({ tx }) => {
+      ensureIndex(tx.objectStore('categories'), 'parentId', 'parentId', { unique: false });
+      ensureIndex(tx.objectStore('expenses'), 'category', 'category', { unique: false });
+      transformRecords<Category>(tx, 'categories', withDefaultStyle);
+      transformRecords<Category>(tx, 'incomeCategories', withDefaultStyle);
+    },
+    upgradeBackup: data => ({
+      ...data,
+      categories: data.categories?.map(withDefaultStyle),
+      incomeCategories: data.incomeCategories?.map(withDefaultStyle),
+    }),
+  },
+  {
+    version: 14,
+    description: 'Index expenses by tag',
+    migrate: ({ tx }) => {
+      ensureIndex(tx.objectStore('expenses'), 'tags', 'tags', { unique: false, multiEntry: true });
+    },
+  },
+  {
+    version: 15,
+    description: 'Add savedViews store for named expense filters',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('savedViews')) {
+        const viewStore = db.createObjectStore('savedViews', { keyPath: 'id', autoIncrement: true });
+        viewStore.createIndex('name', 'name', { unique: true });
+      }
+    },
+  },
+  {
+    version: 16,
+    description: 'Add journal store for undo and deletedAt indexes for the Trash',
+    migrate: ({ db, tx }) => {
+      if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+        const journalStore = db.createObjectStore(JOURNAL_STORE, { keyPath: 'id', autoIncrement: true });
+        journalStore.createIndex('undoneAt', 'undoneAt');
+      }
+      // Records without deletedAt are left out of the index, so it only lists the Trash
+      ensureIndex(tx.objectStore('expenses'), 'deletedAt', 'deletedAt');
+      ensureIndex(tx.objectStore('reminders'), 'deletedAt', 'deletedAt');
+    },
+  },
+  {
+    version: 17,
+    description: 'Add expenseHistory store for per-expense audit history',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('expenseHistory')) {
+        const historyStore = db.createObjectStore('expenseHistory', { keyPath: 'id', autoIncrement: true });
+        historyStore.createIndex('expenseId', 'expenseId');
+      }
+    },
+  },
+  {
+    version: 18,
+    description: 'Index expenses by payment mode, and by category and payment mode with date for range queries',
+    migrate: ({ tx }) => {
+      const expenseStore = tx.objectStore('expenses');
+      ensureIndex(expenseStore, 'paymentMode', 'paymentMode', { unique: false });
+      ensureIndex(expenseStore, 'category_date', ['category', 'date'], { unique: false });
+      ensureIndex(expenseStore, 'paymentMode_date', ['paymentMode', 'date'], { unique: false });
+    },
+  },
+  {
+    version: 19,
+    description: 'Add scheduledNotifications store so the service worker can deliver reminder notifications',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('scheduledNotifications')) {
+        const notificationStore = db.createObjectStore('scheduledNotifications', { keyPath: 'id', autoIncrement: true });
+        notificationStore.createIndex('reminderId', 'reminderId', { unique: false });
+        notificationStore.createIndex('status_at', ['status', 'at'], { unique: false });
+      }
+    },
+  },
+  {
+    version: 20,
+    description: 'Record the due date each scheduled notification is for, so paid and rolled-over bills drop stale ones',
+    migrate: ({ tx }) => {
+      const request = tx.objectStore('reminders').getAll();
+      request.onsuccess = () => {
+        const dueDates = new Map((request.result as Reminder[]).map(reminder => [reminder.id, reminder.date]));
+        transformRecords<ScheduledNotification>(tx, 'scheduledNotifications', notification =>
+          notification.dueDate ? undefined : { ...notification, dueDate: dueDates.get(notification.reminderId) ?? notification.at }
+        );
+      };
+    },
+  },
+  {
+    version: 21,
+    description: 'Schedule notifications by lead time, and record the time triggered ones were handed to the browser for',
+    migrate: ({ tx }) => {
+      type Version20Notification = Omit<ScheduledNotification, 'leadMinutes'> & { kind: 'dayBefore' | 'due'; triggered?: boolean };
+      transformRecords<Version20Notification | ScheduledNotification>(tx, 'scheduledNotifications', notification => {
+        if (!('kind' in notification)) return undefined;
+        const { kind, triggered, ...rest } = notification;
+        return { ...rest, leadMinutes: kind === 'dayBefore' ? 24 * 60 : 0, ...(triggered ? { triggeredAt: rest.at } : {}) };
+      });
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Applies every migration newer than `oldVersion`, up to `newVersion`, and records it
+ * in the history store. Must be called from `onupgradeneeded`.
+ */
+export function runMigrations(db: IDBDatabase, tx: IDBTransaction, oldVersion: number, newVersion: number = DB_VERSION) {
+  const pending = migrations.filter(m => m.version > oldVersion && m.version <= newVersion);
+  pending.forEach(migration => migration.migrate({ db, tx }));
+
+  if (db.objectStoreNames.contains(HISTORY_STORE)) {
+    const history = tx.objectStore(HISTORY_STORE);
+    const appliedAt = new Date().toISOString();
+    pending.forEach(({ version, description }) => history.put({ version, description, appliedAt }));
+  }
+}
+
+/**
+ * Brings a backup exported at an older schema version up to date.
+ */
+export function upgradeBackup(data: BackupData, fromVersion: number = LEGACY_BACKUP_VERSION): BackupData {
+  if (fromVersion > DB_VERSION) {
+    throw new Error(`Backup was created by a newer version of the app (schema v${fromVersion}).`);
+  }
+  return migrations
+    .filter(m => m.version > fromVersion && m.upgradeBackup)
+    .reduce((upgraded, migration) => migration.upgradeBackup!(upgraded), data);
+}
@@ -0,0 +1,84 @@
+import type { Expense, PaymentMode } from './types';
+import { defaultAccountIdFor } from './accounts';
+import { matchCategory, type ParsedStatement } from './csv';
+
+// Transaction types that say how the money was spent
+const paymentModeByTransactionType: Record<string, PaymentMode> = {
+  ATM: 'Cash',
+  CASH: 'Cash',
+  POS: 'Card',
+  PAYMENT: 'Online',
+  DIRECTDEBIT: 'Online',
+  XFER: 'Online',
+};
+
+export const isOfx = (text: string) => /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+
+// Reads a leaf element. Works for both SGML, where leaf elements are not closed, and XML.
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+// OFX dates look like 20240915, 20240915120000 or 20240915120000.000[+5.30:IST]
+function parseOfxDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const decodeEntities = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+/**
+ * Reads spending from an OFX or QFX statement, in SGML (OFX 1.x) or XML (OFX 2.x).
+ * Credits are skipped. Every expense gets an `externalId` built from the account id and
+ * the transaction's FITID, so re-importing an overlapping statement can be deduplicated.
+ */
+export function parseOfx(text: string, categoryNames: string[]): ParsedStatement {
+  const result: ParsedStatement = { expenses: [], skippedCredits: 0, errors: [] };
+  const isCreditCard = /<CCSTMTRS>/i.test(text);
+  const accountId = readTag(text, 'ACCTID') ?? 'unknown';
+  const defaultPaymentMode: PaymentMode = isCreditCard ? 'Card' : 'Online';
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  blocks.forEach((block, index) => {
+    const transactionNumber = index + 1;
+    const amount = parseFloat((readTag(block, 'TRNAMT') ?? '').replace(/,/g, ''));
+    if (isNaN(amount)) {
+      result.errors.push({ row: transactionNumber, message: 'Missing amount' });
+      return;
+    }
+    if (amount >= 0) {
+      result.skippedCredits++;
+      return;
+    }
+
+    const date = parseOfxDate(readTag(block, 'DTPOSTED') ?? '');
+    if (!date) {
+      result.errors.push({ row: transactionNumber, message: 'Unreadable date' });
+      return;
+    }
+
+    const fitId = readTag(block, 'FITID');
+    const transactionType = (readTag(block, 'TRNTYPE') ?? '').toUpperCase();
+    const paymentMode = paymentModeByTransactionType[transactionType] ?? defaultPaymentMode;
+    const title = decodeEntities(readTag(block, 'NAME') || readTag(block, 'MEMO') || 'Imported expense');
+
+    const expense: Omit<Expense, 'id'> = {
+      title,
+      amount: Math.abs(amount),
+      date: date.toISOString(),
+      category: matchCategory('', categoryNames),
+      paymentMode,
+      accountId: defaultAccountIdFor(paymentMode),
+    };
+    if (fitId) {
+      expense.externalId = `ofx:${accountId}:${fitId}`;
+    }
+    result.expenses.push(expense);
+  });
+
+  return result;
+}
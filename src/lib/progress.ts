@@ -0,0 +1,60 @@
+import type { OperationProgress } from './types';
+
+// Progress is reported at most this often, so a big import doesn't flood the page with updates
+const REPORT_INTERVAL_MS = 100;
+
+const writeMethods = ['add', 'put', 'delete', 'clear'];
+
+// Native methods and accessors must be called on the real object, not the proxy
+const forward = (target: object, property: string | symbol) => {
+  const value = Reflect.get(target, property, target);
+  return typeof value === 'function' ? value.bind(target) : value;
+};
+
+/**
+ * Wraps a transaction so that every write made through its stores is counted, and
+ * reports how many have finished. The total only includes writes queued so far.
+ * Returns the transaction itself when there is nothing to report to.
+ */
+export function trackWrites(tx: IDBTransaction, onProgress?: (progress: OperationProgress) => void): IDBTransaction {
+  if (!onProgress) return tx;
+  let done = 0;
+  let total = 0;
+  let reportedAt = 0;
+
+  const count = (request: IDBRequest) => {
+    total++;
+    request.addEventListener('success', () => {
+      done++;
+      const now = Date.now();
+      if (done === total || now - reportedAt >= REPORT_INTERVAL_MS) {
+        reportedAt = now;
+        onProgress({ done, total });
+      }
+    });
+    return request;
+  };
+
+  const stores = new Map<string, IDBObjectStore>();
+  const trackStore = (store: IDBObjectStore) => new Proxy(store, {
+    get(target, property) {
+      const value = forward(target, property);
+      return typeof property === 'string' && writeMethods.includes(property)
+        ? (...args: unknown[]) => count(value(...args))
+        : value;
+    },
+  });
+
+  return new Proxy(tx, {
+    get(target, property) {
+      if (property !== 'objectStore') return forward(target, property);
+      return (name: string) => {
+        if (!stores.has(name)) stores.set(name, trackStore(target.objectStore(name)));
+        return stores.get(name)!;
+      };
+    },
+    set(target, property, value) {
+      return Reflect.set(target, property, value, target);
+    },
+  });
+}
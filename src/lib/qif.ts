@@ -0,0 +1,111 @@
+import { format } from 'date-fns';
+import type { Expense, PaymentMode } from './types';
+import { defaultAccountIdFor } from './accounts';
+import { matchCategory, type ParsedStatement } from './csv';
+
+const paymentModeByAccountType: Record<string, PaymentMode> = {
+  ccard: 'Card',
+  cash: 'Cash',
+  bank: 'Online',
+};
+
+export const isQif = (text: string) => /^\s*!(Type|Account)/i.test(text);
+
+interface QifRecord {
+  date?: string;
+  amount?: string;
+  payee?: string;
+  memo?: string;
+  category?: string;
+  checkNumber?: string;
+}
+
+// Splits a QIF date such as 12/25/2024, 12/25'24 or 25.12.2024 into numbers
+function dateParts(value: string): number[] | null {
+  const parts = value.replace(/\s/g, '').split(/[/'.-]/).map(Number);
+  return parts.length === 3 && parts.every(part => !isNaN(part)) ? parts : null;
+}
+
+function toDate([first, second, year]: number[], dayFirst: boolean): Date | null {
+  const [day, month] = dayFirst ? [first, second] : [second, first];
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Reads spending from a QIF file. QIF has no transaction ids, so `externalId` is built
+ * from the date, amount, payee and check number, with a counter to tell apart identical
+ * transactions in the same file.
+ */
+export function parseQif(text: string, categoryNames: string[]): ParsedStatement {
+  const result: ParsedStatement = { expenses: [], skippedCredits: 0, errors: [] };
+  const accountType = text.match(/!Type:(\w+)/i)?.[1].toLowerCase() ?? 'bank';
+  const paymentMode = paymentModeByAccountType[accountType] ?? 'Other';
+
+  const records: QifRecord[] = [];
+  let current: QifRecord = {};
+  text.split(/\r?\n/).forEach(line => {
+    const code = line[0];
+    const value = line.slice(1).trim();
+    switch (code) {
+      case 'D': current.date = value; break;
+      case 'T':
+      case 'U': current.amount ??= value; break;
+      case 'P': current.payee = value; break;
+      case 'M': current.memo = value; break;
+      case 'L': current.category = value; break;
+      case 'N': current.checkNumber = value; break;
+      case '^':
+        records.push(current);
+        current = {};
+        break;
+    }
+  });
+
+  // QIF dates are usually month first. Only a day over 12 in the first position
+  // tells us this file puts the day first.
+  const allParts = records.map(record => dateParts(record.date ?? ''));
+  const dayFirst = allParts.some(parts => parts && parts[0] > 12);
+  const seenKeys = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const transactionNumber = index + 1;
+    const amount = parseFloat((record.amount ?? '').replace(/,/g, ''));
+    if (isNaN(amount)) {
+      result.errors.push({ row: transactionNumber, message: 'Missing amount' });
+      return;
+    }
+    if (amount >= 0) {
+      result.skippedCredits++;
+      return;
+    }
+
+    const parts = allParts[index];
+    const date = parts && toDate(parts, dayFirst);
+    if (!date) {
+      result.errors.push({ row: transactionNumber, message: `Unreadable date "${record.date ?? ''}"` });
+      return;
+    }
+
+    const baseKey = `qif:${format(date, 'yyyy-MM-dd')}|${amount}|${record.payee ?? ''}|${record.checkNumber ?? ''}`;
+    const occurrence = (seenKeys.get(baseKey) ?? 0) + 1;
+    seenKeys.set(baseKey, occurrence);
+
+    // Categories may be written as "Parent:Child"; match on the most specific part
+    const category = record.category?.split(':').pop() ?? '';
+
+    const expense: Omit<Expense, 'id'> = {
+      title: record.payee || record.memo || 'Imported expense',
+      amount: Math.abs(amount),
+      date: date.toISOString(),
+      category: matchCategory(category, categoryNames),
+      paymentMode,
+      accountId: defaultAccountIdFor(paymentMode),
+      externalId: `${baseKey}#${occurrence}`,
+    };
+    result.expenses.push(expense);
+  });
+
+  return result;
+}
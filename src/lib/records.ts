@@ -0,0 +1,43 @@
+const SORTED_INSERT_LIMIT = 100;
+
+// Finds where a record belongs in a list sorted by `compare`, after any equal records
+function sortedIndex<T>(records: T[], record: T, compare: (a: T, b: T) => number): number {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compare(records[middle], record) <= 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Applies changed records to a list without reloading it. `updates` maps ids to the
+ * record as it is now, or to undefined when it was deleted. A sorted list stays sorted
+ * by `compare`; otherwise changed records keep their place and new ones go at the end.
+ */
+export function patchRecords<T extends { id?: number }>(records: T[], updates: Map<number, T | undefined>, compare?: (a: T, b: T) => number): T[] {
+  if (compare) {
+    const patched = records.filter(record => !updates.has(record.id!));
+    const added = [...updates.values()].filter((record): record is T => record !== undefined);
+    // Inserting one at a time moves the rest of the list each time, so big batches are sorted once
+    if (added.length > SORTED_INSERT_LIMIT) {
+      return patched.concat(added).sort(compare);
+    }
+    added.forEach(record => patched.splice(sortedIndex(patched, record, compare), 0, record));
+    return patched;
+  }
+
+  const existingIds = new Set(records.map(record => record.id));
+  const patched = records
+    .filter(record => !updates.has(record.id!) || updates.get(record.id!) !== undefined)
+    .map(record => updates.get(record.id!) ?? record);
+  updates.forEach((record, id) => {
+    if (record && !existingIds.has(id)) patched.push(record);
+  });
+  return patched;
+}
@@ -0,0 +1,98 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInDays, differenceInMonths, differenceInWeeks, differenceInYears } from 'date-fns';
+import type { RecurringExpense } from './types';
+
+// Caps how many occurrences are listed at once, guarding against runaway loops when a
+// daily rule hasn't been generated in a long time.
+const MAX_OCCURRENCES = 5000;
+
+const frequencyLabels = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years'],
+  custom: ['day', 'days'],
+} as const;
+
+// Occurrences per month for an interval of 1.
+const monthlyOccurrences = {
+  daily: 365 / 12,
+  weekly: 52 / 12,
+  monthly: 1,
+  yearly: 1 / 12,
+  custom: 365 / 12,
+} as const;
+
+/**
+ * Returns the n-th occurrence (0-based) of a rule. Occurrences are always computed
+ * from the start date so that monthly rules on the 31st don't drift.
+ */
+export function occurrenceAt(rule: Pick<RecurringExpense, 'frequency' | 'interval' | 'startDate'>, n: number): Date {
+  const start = new Date(rule.startDate);
+  const step = Math.max(1, rule.interval) * n;
+  switch (rule.frequency) {
+    case 'weekly':
+      return addWeeks(start, step);
+    case 'monthly':
+      return addMonths(start, step);
+    case 'yearly':
+      return addYears(start, step);
+    case 'daily':
+    case 'custom':
+    default:
+      return addDays(start, step);
+  }
+}
+
+const elapsedPeriods = {
+  daily: differenceInDays,
+  weekly: differenceInWeeks,
+  monthly: differenceInMonths,
+  yearly: differenceInYears,
+  custom: differenceInDays,
+} as const;
+
+/**
+ * Returns the index of the first occurrence after `after`. The index is estimated from
+ * the time elapsed since the start date, so old rules don't step through every occurrence.
+ */
+function occurrenceIndexAfter(rule: Pick<RecurringExpense, 'frequency' | 'interval' | 'startDate'>, after: Date): number {
+  const periods = elapsedPeriods[rule.frequency](after, new Date(rule.startDate));
+  // Start one occurrence early, because months and years vary in length
+  let n = Math.max(0, Math.floor(periods / Math.max(1, rule.interval)) - 1);
+  while (occurrenceAt(rule, n) <= after) n++;
+  return n;
+}
+
+/**
+ * Lists the occurrences that have not been generated yet and fall on or before `until`,
+ * at most MAX_OCCURRENCES of them. The rest come due on the next run.
+ */
+export function getDueOccurrences(rule: RecurringExpense, until: Date): Date[] {
+  const end = rule.endDate ? new Date(rule.endDate) : null;
+  const first = rule.lastGeneratedDate ? occurrenceIndexAfter(rule, new Date(rule.lastGeneratedDate)) : 0;
+  const due: Date[] = [];
+
+  for (let n = first; due.length < MAX_OCCURRENCES; n++) {
+    const date = occurrenceAt(rule, n);
+    if (date > until || (end && date > end)) break;
+    due.push(date);
+  }
+  return due;
+}
+
+export function nextOccurrence(rule: RecurringExpense, after: Date = new Date()): Date | null {
+  const end = rule.endDate ? new Date(rule.endDate) : null;
+  const date = occurrenceAt(rule, occurrenceIndexAfter(rule, after));
+  return end && date > end ? null : date;
+}
+
+export const projectedMonthlyCost = (rule: Pick<RecurringExpense, 'amount' | 'frequency' | 'interval'>) =>
+  (rule.amount * monthlyOccurrences[rule.frequency]) / Math.max(1, rule.interval);
+
+export const projectedYearlyCost = (rule: Pick<RecurringExpense, 'amount' | 'frequency' | 'interval'>) =>
+  projectedMonthlyCost(rule) * 12;
+
+export function describeSchedule(rule: Pick<RecurringExpense, 'frequency' | 'interval'>): string {
+  const [singular, plural] = frequencyLabels[rule.frequency];
+  return rule.interval > 1 ? `Every ${rule.interval} ${plural}` : `Every ${singular}`;
+}
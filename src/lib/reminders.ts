@@ -0,0 +1,159 @@
+import { addDays, addMonths, endOfDay, getDaysInMonth, setDate, startOfDay, subMinutes } from 'date-fns';
+import type { BillFrequency, BillRecurrence, BillStatus, Expense, QuietHours, Reminder, ScheduledNotification } from './types';
+
+// Tag of the periodic background sync that checks for due reminders while the app is closed.
+// Must match REMINDER_SYNC_TAG in public/sw.js.
+export const REMINDER_SYNC_TAG = 'reminders';
+const REMINDER_SYNC_INTERVAL = 12 * 60 * 60 * 1000;
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+// Lead times, in minutes before the due date, of reminders that don't pick their own
+export const DEFAULT_LEAD_TIMES = [DAY, 0];
+
+// Lead times offered when adding a reminder
+export const leadTimeOptions = [7 * DAY, 3 * DAY, DAY, 2 * HOUR, 0];
+
+// Time of day a reminder is due at unless another is picked, as "HH:mm". Lead times
+// count back from it, so notifications don't all land at midnight.
+export const DEFAULT_DUE_TIME = '09:00';
+
+const monthsBetween: Record<BillFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export const billFrequencyLabels: Record<BillFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export const billStatusLabels: Record<BillStatus, string> = {
+  paid: 'Paid',
+  unpaid: 'Unpaid',
+  overdue: 'Overdue',
+};
+
+/**
+ * Returns the due date that follows `date` for a recurring bill, at the same time of
+ * day. Bills due on a day the month lacks, such as the 31st, fall on its last day.
+ */
+export function nextDueDate(date: Date, recurrence: BillRecurrence): Date {
+  const next = addMonths(date, monthsBetween[recurrence.frequency]);
+  return setDate(next, Math.min(recurrence.dayOfMonth, getDaysInMonth(next)));
+}
+
+/**
+ * A one-off bill is paid once it has been marked paid. Recurring bills move on to
+ * their next due date instead, so they are only ever unpaid or overdue.
+ */
+export function billStatus(reminder: Reminder, now: Date = new Date()): BillStatus {
+  if (reminder.paidAt && !reminder.recurrence) return 'paid';
+  return new Date(reminder.date) < startOfDay(now) ? 'overdue' : 'unpaid';
+}
+
+// The expense recorded when a bill with an amount is paid
+export function billExpense(reminder: Reminder & { amount: number }, paidAt: Date): Omit<Expense, 'id'> {
+  return {
+    title: reminder.title,
+    amount: reminder.amount,
+    date: paidAt.toISOString(),
+    category: reminder.category ?? 'Other',
+    paymentMode: reminder.paymentMode ?? 'Other',
+    accountId: reminder.accountId,
+    reminderId: reminder.id,
+  };
+}
+
+// Splits a lead time into its largest whole unit, e.g. 2880 minutes into 2 days
+function leadTimeParts(minutes: number): [number, string] {
+  if (minutes % DAY === 0) return [minutes / DAY, 'day'];
+  if (minutes % HOUR === 0) return [minutes / HOUR, 'hour'];
+  return [minutes, 'minute'];
+}
+
+// Describes a lead time as chosen for a reminder, e.g. "2 hours before"
+export function describeLeadTime(minutes: number): string {
+  if (minutes === 0) return 'On the due date';
+  const [count, unit] = leadTimeParts(minutes);
+  return `${count} ${unit}${count === 1 ? '' : 's'} before`;
+}
+
+// Body of a notification sent ahead of the due date, e.g. "Due in 7 days."
+function dueIn(minutes: number): string {
+  if (minutes === DAY) return 'Due tomorrow.';
+  const [count, unit] = leadTimeParts(minutes);
+  return `Due in ${count} ${unit}${count === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Lists the notifications to show for a reminder, one for each of its lead times, earliest
+ * first. Notifications whose time has passed are left out, except the one on the day of a
+ * reminder due today. Paid bills get none.
+ */
+export function reminderNotifications(reminder: Reminder, now: Date = new Date()): Omit<ScheduledNotification, 'id'>[] {
+  const due = new Date(reminder.date);
+  if (billStatus(reminder, now) === 'paid') return [];
+
+  return [...new Set(reminder.notifyBefore ?? DEFAULT_LEAD_TIMES)]
+    .sort((a, b) => b - a)
+    .filter(leadMinutes => (leadMinutes === 0 ? endOfDay(due) > now : subMinutes(due, leadMinutes) > now))
+    .map((leadMinutes): Omit<ScheduledNotification, 'id'> => ({
+      reminderId: reminder.id!,
+      dueDate: reminder.date,
+      leadMinutes,
+      title: leadMinutes === 0 ? `Due Today: ${reminder.title}` : `Upcoming: ${reminder.title}`,
+      body: leadMinutes === 0 ? 'Payment is due today.' : dueIn(leadMinutes),
+      at: subMinutes(due, leadMinutes).toISOString(),
+      status: 'pending',
+    }));
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * HOUR + minutes;
+};
+
+// The given day at a time of day written as "HH:mm"
+export const atTimeOfDay = (date: Date, time: string) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, minutesOfDay(time));
+
+/**
+ * Returns when a notification due at `date` is shown: at the end of quiet hours when it
+ * falls within them, otherwise at `date` itself. Must match afterQuietHours in public/sw.js.
+ */
+export function afterQuietHours(date: Date, quietHours?: QuietHours): Date {
+  if (!quietHours) return date;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const minute = date.getHours() * HOUR + date.getMinutes();
+  const isQuiet = start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+  if (!isQuiet) return date;
+
+  const resume = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, end);
+  return resume > date ? resume : addDays(resume, 1);
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+/**
+ * Asks the service worker to show the reminder notifications that are due and hand
+ * upcoming ones to the browser. Also registers periodic background sync, where the
+ * browser allows it, so reminders are checked while the app is closed.
+ */
+export async function requestReminderCheck() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  const registration: PeriodicSyncRegistration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'CHECK_REMINDERS' });
+
+  try {
+    await registration.periodicSync?.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL });
+  } catch {
+    // Browsers only allow periodic sync for installed apps the user engages with
+  }
+}
@@ -0,0 +1,101 @@
+import type { Expense, ExpenseRule, RuleCondition, RuleField, RuleOperator } from './types';
+import { withPaymentMode } from './accounts';
+
+export const ruleFieldLabels: Record<RuleField, string> = {
+  title: 'Title',
+  amount: 'Amount',
+  paymentMode: 'Payment mode',
+};
+
+export const ruleOperatorLabels: Record<RuleOperator, string> = {
+  contains: 'contains',
+  startsWith: 'starts with',
+  equals: 'is',
+  matches: 'matches pattern',
+  gt: 'is more than',
+  lt: 'is less than',
+};
+
+export const operatorsByField: Record<RuleField, RuleOperator[]> = {
+  title: ['contains', 'startsWith', 'equals', 'matches'],
+  amount: ['gt', 'lt', 'equals'],
+  paymentMode: ['equals'],
+};
+
+type RuleTarget = Pick<Expense, 'title' | 'amount' | 'paymentMode' | 'category' | 'accountId'>;
+
+/**
+ * Reads a pattern written as "rent", "/rent/" or "/rent/i". Patterns without slashes
+ * are case-insensitive. Returns null when the pattern is not a valid regular expression.
+ */
+export function toRegExp(pattern: string): RegExp | null {
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns an error message for a condition that can never match, or null when it is valid.
+ */
+export function validateCondition(condition: RuleCondition): string | null {
+  if (condition.value.trim() === '') return 'Enter a value.';
+  if (condition.operator === 'matches' && !toRegExp(condition.value)) return 'Not a valid pattern.';
+  if (condition.field === 'amount' && isNaN(Number(condition.value))) return 'Enter a number.';
+  return null;
+}
+
+export function matchesCondition(expense: RuleTarget, { field, operator, value }: RuleCondition): boolean {
+  if (field === 'amount') {
+    const target = Number(value);
+    if (operator === 'gt') return expense.amount > target;
+    if (operator === 'lt') return expense.amount < target;
+    return expense.amount === target;
+  }
+
+  const text = (field === 'title' ? expense.title : expense.paymentMode).toLowerCase();
+  const needle = value.trim().toLowerCase();
+  switch (operator) {
+    case 'contains': return text.includes(needle);
+    case 'startsWith': return text.startsWith(needle);
+    case 'matches': return toRegExp(value)?.test(field === 'title' ? expense.title : expense.paymentMode) ?? false;
+    default: return text === needle;
+  }
+}
+
+export const matchesRule = (expense: RuleTarget, rule: ExpenseRule) =>
+  rule.conditions.length > 0 && rule.conditions.every(condition => matchesCondition(expense, condition));
+
+export const sortRules = (rules: ExpenseRule[]) => [...rules].sort((a, b) => a.priority - b.priority);
+
+// The first enabled rule, in priority order, whose conditions all match
+export const findMatchingRule = (expense: RuleTarget, rules: ExpenseRule[]) =>
+  sortRules(rules).find(rule => rule.enabled && matchesRule(expense, rule));
+
+/**
+ * Applies the first matching rule to an expense. The account follows a new payment mode
+ * unless the expense was paid from an account other than the mode's default. Returns
+ * the same object when no rule changes anything.
+ */
+export function applyRules<T extends RuleTarget>(expense: T, rules: ExpenseRule[]): T {
+  const rule = findMatchingRule(expense, rules);
+  if (!rule) return expense;
+
+  const category = rule.actions.category ?? expense.category;
+  const { paymentMode, accountId } = withPaymentMode(expense, rule.actions.paymentMode ?? expense.paymentMode);
+
+  if (category === expense.category && paymentMode === expense.paymentMode && accountId === expense.accountId) {
+    return expense;
+  }
+  return { ...expense, category, paymentMode, accountId };
+}
+
+export const describeCondition = ({ field, operator, value }: RuleCondition) =>
+  `${ruleFieldLabels[field]} ${ruleOperatorLabels[operator]} ${field === 'title' && operator !== 'matches' ? `"${value}"` : value}`;
+
+export const describeActions = ({ actions }: ExpenseRule) =>
+  [actions.category && `category ${actions.category}`, actions.paymentMode && `payment ${actions.paymentMode}`]
+    .filter(Boolean)
+    .join(', ');
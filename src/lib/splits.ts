@@ -0,0 +1,143 @@
+import type { Expense, ExpenseSplit, Group, Settlement, SplitMethod } from './types';
+
+// The member name used for the app user in every group.
+export const SELF_MEMBER = 'You';
+
+export const splitMethodLabels: Record<SplitMethod, string> = {
+  equal: 'Equally',
+  exact: 'Exact amounts',
+  percentage: 'Percentages',
+  shares: 'Shares',
+};
+
+// Balances smaller than this are treated as settled.
+const EPSILON = 0.005;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Splits an amount in proportion to the weights, rounding to paise and giving any
+// rounding remainder to the first member so the parts always add up to the total.
+function distribute(amount: number, weights: { member: string; weight: number }[]): Record<string, number> {
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+  const result: Record<string, number> = {};
+  if (totalWeight <= 0) return result;
+
+  let allocated = 0;
+  weights.forEach(({ member, weight }) => {
+    result[member] = roundToPaise((amount * weight) / totalWeight);
+    allocated += result[member];
+  });
+  const first = weights[0].member;
+  result[first] = roundToPaise(result[first] + amount - allocated);
+  return result;
+}
+
+/**
+ * How much of `amount` each member owes under the split. Members with a zero
+ * value are left out.
+ */
+export function computeSplitAmounts(amount: number, split: ExpenseSplit): Record<string, number> {
+  const participants = split.shares.filter(share => share.value > 0);
+  switch (split.method) {
+    case 'equal':
+      return distribute(amount, participants.map(({ member }) => ({ member, weight: 1 })));
+    case 'exact':
+      return Object.fromEntries(participants.map(({ member, value }) => [member, value]));
+    case 'percentage':
+    case 'shares':
+      return distribute(amount, participants.map(({ member, value }) => ({ member, weight: value })));
+  }
+}
+
+/**
+ * Checks that a split accounts for the whole amount. Returns an error message, or
+ * null when the split is valid.
+ */
+export function validateSplit(amount: number, split: ExpenseSplit): string | null {
+  const participants = split.shares.filter(share => share.value > 0);
+  if (participants.length === 0) {
+    return 'Include at least one member in the split.';
+  }
+  const total = participants.reduce((sum, share) => sum + share.value, 0);
+  if (split.method === 'exact' && Math.abs(total - amount) > EPSILON) {
+    return `Amounts add up to ${roundToPaise(total)}, not ${amount}.`;
+  }
+  if (split.method === 'percentage' && Math.abs(total - 100) > EPSILON) {
+    return `Percentages add up to ${roundToPaise(total)}%, not 100%.`;
+  }
+  return null;
+}
+
+/**
+ * The part of an expense that counts as the user's own spending.
+ */
+export function ownShare(expense: Pick<Expense, 'amount' | 'split'>): number {
+  if (!expense.split) return expense.amount;
+  return computeSplitAmounts(expense.amount, expense.split)[SELF_MEMBER] ?? 0;
+}
+
+export const isPaidByYou = (expense: Pick<Expense, 'split'>) => !expense.split || expense.split.paidBy === SELF_MEMBER;
+
+/**
+ * Net balance of every member in a group. Positive means the member is owed money,
+ * negative means they owe it.
+ */
+export function getGroupBalances(group: Group, expenses: Expense[], settlements: Settlement[]): Record<string, number> {
+  const balances: Record<string, number> = Object.fromEntries(group.members.map(member => [member, 0]));
+  const adjust = (member: string, amount: number) => {
+    balances[member] = (balances[member] ?? 0) + amount;
+  };
+
+  expenses
+    .filter(expense => expense.split?.groupId === group.id)
+    .forEach(expense => {
+      const split = expense.split!;
+      adjust(split.paidBy, expense.amount);
+      Object.entries(computeSplitAmounts(expense.amount, split)).forEach(([member, owed]) => adjust(member, -owed));
+    });
+
+  settlements
+    .filter(settlement => settlement.groupId === group.id)
+    .forEach(settlement => {
+      adjust(settlement.from, settlement.amount);
+      adjust(settlement.to, -settlement.amount);
+    });
+
+  return Object.fromEntries(Object.entries(balances).map(([member, balance]) => [member, roundToPaise(balance)]));
+}
+
+export interface SuggestedPayment {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+/**
+ * Suggests payments that settle every balance. Repeatedly pays the largest creditor
+ * from the largest debtor, which needs at most one payment fewer than the number of
+ * members with a balance.
+ */
+export function suggestSettlements(balances: Record<string, number>): SuggestedPayment[] {
+  const debtors = Object.entries(balances)
+    .filter(([, balance]) => balance < -EPSILON)
+    .map(([member, balance]) => ({ member, amount: -balance }));
+  const creditors = Object.entries(balances)
+    .filter(([, balance]) => balance > EPSILON)
+    .map(([member, balance]) => ({ member, amount: balance }));
+
+  const payments: SuggestedPayment[] = [];
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.amount - a.amount);
+    creditors.sort((a, b) => b.amount - a.amount);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = roundToPaise(Math.min(debtor.amount, creditor.amount));
+
+    payments.push({ from: debtor.member, to: creditor.member, amount });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+    if (debtor.amount < EPSILON) debtors.shift();
+    if (creditor.amount < EPSILON) creditors.shift();
+  }
+  return payments;
+}
@@ -0,0 +1,32 @@
+import type { Expense } from './types';
+import { ownShare } from './splits';
+
+/**
+ * Turns user input such as "#Trip Goa 2026" into the stored form "trip-goa-2026".
+ * Returns an empty string when nothing is left.
+ */
+export const normalizeTag = (value: string) =>
+  value.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_-]/gu, '');
+
+export const hasAllTags = (expense: Pick<Expense, 'tags'>, tags: string[]) =>
+  tags.every(tag => expense.tags?.includes(tag));
+
+export interface TagTotal {
+  tag: string;
+  count: number;
+  total: number; // Your share, like the other spending totals
+}
+
+// Spending per tag, largest first. An expense with several tags counts toward each of them.
+export function getTagTotals(expenses: Expense[]): TagTotal[] {
+  const totals = new Map<string, TagTotal>();
+  expenses.forEach(expense => {
+    expense.tags?.forEach(tag => {
+      const entry = totals.get(tag) ?? { tag, count: 0, total: 0 };
+      entry.count++;
+      entry.total += ownShare(expense);
+      totals.set(tag, entry);
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+}
@@ -1,24 +1,325 @@
+export type PaymentMode = 'Cash' | 'Card' | 'Online' | 'Other';
+
 export interface Expense {
   id?: number;
   title: string;
   amount: number;
   date: string; // ISO string format
   category: string;
-  paymentMode: 'Cash' | 'Card' | 'Online' | 'Other';
+  paymentMode: PaymentMode;
+  recurringId?: number; // Set when generated from a RecurringExpense
+  reminderId?: number; // Set when created by marking a bill Reminder as paid
+  accountId?: number; // The account that paid; falls back to the default account for paymentMode
+  split?: ExpenseSplit; // Set when the expense is shared with a group
+  externalId?: string; // Id of the transaction in an imported statement, used to skip re-imports
+  tags?: string[]; // Lowercase labels such as "reimbursable" that cut across categories
+  notes?: string;
+  deletedAt?: string; // Set while the expense is in the Trash
+}
+
+export type SplitMethod = 'equal' | 'exact' | 'percentage' | 'shares';
+
+export interface SplitShare {
+  member: string;
+  // Meaning depends on the split method: 1/0 for included/excluded when equal,
+  // an amount when exact, a percentage, or a number of shares.
+  value: number;
+}
+
+export interface ExpenseSplit {
+  groupId: number;
+  paidBy: string; // Member who paid the full amount
+  method: SplitMethod;
+  shares: SplitShare[];
+}
+
+export interface Income {
+  id?: number;
+  title: string;
+  amount: number;
+  date: string; // ISO string format
+  category: string; // Name of an income category, e.g. Salary or Refund
+  accountId?: number; // The account the money was paid into
 }
 
 export interface Category {
   id?: number;
   name: string;
+  parentId?: number; // Set for subcategories; only top-level categories can have children
+  color?: string; // Hex color used by badges and charts
+  icon?: string; // Name of a lucide icon, one of CATEGORY_ICON_NAMES
+  archived?: boolean; // Hidden from pickers but kept for existing expenses
 }
 
+export type BillFrequency = 'monthly' | 'quarterly' | 'yearly';
+
+export interface BillRecurrence {
+  frequency: BillFrequency;
+  dayOfMonth: number; // 1-31; falls on the last day of shorter months
+}
+
+// A bill, or a plain reminder when it has no amount
 export interface Reminder {
   id?: number;
   title: string;
-  date: string; // ISO string format
+  date: string; // ISO string format; when the bill is next due
+  amount?: number; // Expected amount, used for the expense created when the bill is paid
+  category?: string;
+  paymentMode?: PaymentMode;
+  accountId?: number;
+  recurrence?: BillRecurrence; // Paying a recurring bill moves `date` to the next occurrence
+  notifyBefore?: number[]; // Minutes before the due date to notify, 0 being the day itself; defaults to DEFAULT_LEAD_TIMES
+  paidAt?: string; // ISO string format; when the bill was last paid
+  deletedAt?: string; // Set while the reminder is in the Trash
+}
+
+export type BillStatus = 'paid' | 'unpaid' | 'overdue';
+
+// A reminder notification, kept in the database so the service worker can still show it
+// after the browser has stopped and restarted the worker.
+export interface ScheduledNotification {
+  id?: number;
+  reminderId: number;
+  dueDate: string; // ISO string format; the reminder's date when this was scheduled
+  leadMinutes: number; // One of the reminder's notifyBefore lead times
+  title: string;
+  body: string;
+  at: string; // ISO string format; when the notification is due, moved on by snoozing
+  status: 'pending' | 'delivered';
+  triggeredAt?: string; // ISO string format; set while handed to the browser with a TimestampTrigger for this time
+  deliveredAt?: string; // ISO string format
+}
+
+export interface CategoryBudget {
+  id?: number;
+  category: string;
+  amount: number; // Monthly limit
+  rollover: boolean; // Carry unspent (or overspent) amounts into the next month
+  thresholds: number[]; // Percentages of the available amount that trigger an alert, e.g. [80, 100]
+  startDate: string; // ISO string format; rollover is counted from this month
+}
+
+// Notifications due between start and end wait until end. Times are local "HH:mm" and
+// wrap past midnight when end is before start.
+export interface QuietHours {
+  start: string;
+  end: string;
 }
 
 export interface AppSettings {
   id?: number;
   monthlyBudget: number;
+  quietHours?: QuietHours; // Unset when notifications may be shown at any time
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface RecurringExpense {
+  id?: number;
+  title: string;
+  amount: number;
+  category: string;
+  paymentMode: PaymentMode;
+  accountId?: number;
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N periods; for 'custom' this is a number of days
+  startDate: string; // ISO string format
+  endDate?: string; // ISO string format
+  lastGeneratedDate?: string; // Date of the last occurrence turned into an expense
+  active: boolean;
+}
+
+export type AccountType = 'cash' | 'bank' | 'credit' | 'wallet' | 'other';
+
+export interface Account {
+  id?: number;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  archived?: boolean;
+}
+
+// Moves money between two accounts. Transfers are not spending or income.
+export interface Transfer {
+  id?: number;
+  fromAccountId: number;
+  toAccountId: number;
+  amount: number;
+  date: string; // ISO string format
+  note?: string;
+}
+
+// A set of people who share expenses. The app user is always the member named 'You'.
+export interface Group {
+  id?: number;
+  name: string;
+  members: string[];
+}
+
+// A payment between two group members that pays down what one owes the other.
+export interface Settlement {
+  id?: number;
+  groupId: number;
+  from: string;
+  to: string;
+  amount: number;
+  date: string; // ISO string format
+}
+
+// A receipt or document kept alongside expenses. One file can back several expenses,
+// such as every line item scanned from the same receipt.
+export interface Attachment {
+  id?: number;
+  expenseIds: number[];
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  blob: Blob;
+  thumbnail?: string; // Small JPEG data URL; only set for images
+  createdAt: string; // ISO string format
+}
+
+// How to read one bank's CSV statements. Column values are zero-based column indexes.
+export interface CsvMapping {
+  id?: number;
+  name: string; // The bank or card the statements come from
+  headerSignature?: string; // Lowercased header row, used to recognise the bank's files
+  delimiter: string;
+  hasHeader: boolean;
+  dateFormat: string; // date-fns format string
+  amountColumns: 'single' | 'split'; // One signed amount column, or separate debit and credit columns
+  debitsAreNegative: boolean; // Only used with a single amount column
+  columns: {
+    date: number;
+    title: number;
+    amount?: number;
+    debit?: number;
+    credit?: number;
+    category?: number;
+    paymentMode?: number;
+  };
+  defaultPaymentMode: PaymentMode;
+  accountId?: number;
+}
+
+export type RuleField = 'title' | 'amount' | 'paymentMode';
+export type RuleOperator = 'contains' | 'startsWith' | 'equals' | 'matches' | 'gt' | 'lt';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string; // A regular expression for 'matches', a number for amount comparisons
+}
+
+// Fills in an expense's category or payment mode when all of its conditions match.
+// Rules run in priority order and only the first matching rule is applied.
+export interface ExpenseRule {
+  id?: number;
+  name: string;
+  priority: number; // Lower numbers run first
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: {
+    category?: string;
+    paymentMode?: PaymentMode;
+  };
+}
+
+export type ExpenseSortField = 'date' | 'amount' | 'title' | 'category';
+
+// Everything that narrows or orders the expense list. Kept in the URL query string.
+export interface ExpenseFilters {
+  query: string; // Search text in the expense query language, e.g. 'category:Dining amount>500'
+  category?: string;
+  tags: string[];
+  dateFrom?: string; // yyyy-MM-dd, inclusive
+  dateTo?: string; // yyyy-MM-dd, inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  sort: ExpenseSortField;
+  direction: 'asc' | 'desc';
+}
+
+// A named set of expense filters the user can switch back to
+export interface SavedView {
+  id?: number;
+  name: string;
+  filters: ExpenseFilters;
+  createdAt: string; // ISO string format
+}
+
+// One record written by a change. `before` is missing for an added record and
+// `after` for a deleted one.
+export interface JournalChange {
+  store: string;
+  key: IDBValidKey;
+  before?: unknown;
+  after?: unknown;
+}
+
+// A change to the data that can be undone, such as deleting an expense
+export interface JournalEntry {
+  id?: number;
+  label: string; // e.g. 'Deleted 3 expenses'
+  createdAt: string; // ISO string format
+  changes: JournalChange[];
+  undoneAt?: string; // Set while the change is undone and can be redone
+}
+
+// Where a change to an expense came from
+export type ExpenseChangeSource = 'manual' | 'scan' | 'import' | 'rule' | 'recurring' | 'revert' | 'undo' | 'redo';
+
+export interface FieldChange {
+  field: keyof Expense;
+  from?: unknown; // Missing when the field was added
+  to?: unknown; // Missing when the field was removed
+}
+
+// One change in an expense's audit history
+export interface ExpenseHistoryEntry {
+  id?: number;
+  expenseId: number;
+  changedAt: string; // ISO string format
+  source: ExpenseChangeSource;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  changes: FieldChange[];
+  snapshot: Expense; // The expense as it was after this change, used to revert to it
+}
+
+// Sent with every dataChanged event, including the ones relayed from other tabs
+export interface DataChange {
+  stores: string[]; // Every store the write could have touched
+  // The keys written in each store. A store that is missing here may have changed in
+  // ways that weren't tracked, and has to be read again in full.
+  keys?: Record<string, IDBValidKey[]>;
+  remote?: boolean; // Set when the write happened in another tab or window
+}
+
+// Narrows an indexed expense query. Dates are ISO strings and both bounds are inclusive.
+export interface ExpenseQuery {
+  from?: string;
+  to?: string;
+  category?: string;
+  paymentMode?: PaymentMode;
+  direction?: 'asc' | 'desc'; // By date, newest first by default
+}
+
+// One page of query results. Pass `nextCursor` back to read the page after it.
+export interface ExpensePage {
+  expenses: Expense[];
+  nextCursor?: string; // Missing on the last page
+}
+
+export interface ExpenseTotals {
+  count: number;
+  total: number; // Full amount of every expense
+  ownTotal: number; // Only the user's share of split expenses
+}
+
+export type ExpenseGroupBy = 'day' | 'month' | 'category' | 'paymentMode';
+
+// How far a long operation such as an import has got. `total` can grow while it runs.
+export interface OperationProgress {
+  done: number;
+  total: number;
 }
@@ -0,0 +1,57 @@
+import type { Expense } from '@/lib/types';
+
+export const loadDb = () => import('@/lib/db-core');
+export type Db = Awaited<ReturnType<typeof loadDb>>;
+
+export const DB_NAME = 'VerdantViewDB';
+
+// Resolves with the detail of the next event of this type
+export function nextEvent<T>(target: EventTarget, type: string): Promise<T> {
+  return new Promise(resolve => {
+    target.addEventListener(type, event => resolve((event as CustomEvent<T>).detail), { once: true });
+  });
+}
+
+// Collects the detail of every event of this type until the returned function is called
+export function recordEvents<T>(target: EventTarget, type: string): () => T[] {
+  const details: T[] = [];
+  const listener = (event: Event) => details.push((event as CustomEvent<T>).detail);
+  target.addEventListener(type, listener);
+  return () => {
+    target.removeEventListener(type, listener);
+    return details;
+  };
+}
+
+// Journal entries are saved after the write resolves, so undo has to wait for them
+export async function journaled<T>(db: Db, write: () => Promise<T>): Promise<T> {
+  const recorded = nextEvent(db.dbEvents, 'journalRecorded');
+  const result = await write();
+  await recorded;
+  return result;
+}
+
+export const makeExpense = (overrides: Partial<Expense> = {}): Omit<Expense, 'id'> => ({
+  title: 'Coffee',
+  amount: 100,
+  date: new Date().toISOString(),
+  category: 'Dining',
+  paymentMode: 'Cash',
+  ...overrides,
+});
+
+// Opens the database directly, without db-core, at whatever version it is
+export function openRaw(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}